@@ -12,6 +12,7 @@ import Classes from "@/pages/Classes";
 import Tests from "@/pages/Tests";
 import Students from "@/pages/Students";
 import Teachers from "@/pages/Teachers";
+import Reviews from "@/pages/Reviews";
 import Analytics from "@/pages/Analytics";
 import Campaigns from "@/pages/Campaigns";
 import Coupons from "@/pages/Coupons";
@@ -68,6 +69,11 @@ function Router() {
               <Teachers />
             </Layout>
           </Route>
+          <Route path="/reviews">
+            <Layout>
+              <Reviews />
+            </Layout>
+          </Route>
           <Route path="/analytics">
             <Layout>
               <Analytics />
@@ -0,0 +1,186 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import PrerequisitesModal from "@/components/modals/PrerequisitesModal";
+import { courseStatusLabel } from "@/components/CourseStatusBadge";
+import { GitBranch, Pencil } from "lucide-react";
+import type { Course, CoursePrerequisite } from "@shared/schema";
+
+interface DependencyGraph {
+  courseId: string;
+  courses: Pick<Course, "id" | "title" | "status">[];
+  links: Pick<CoursePrerequisite, "courseId" | "prerequisiteId">[];
+}
+
+interface CourseDependencyGraphProps {
+  course: Course;
+  canEdit: boolean;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 44;
+const COLUMN_GAP = 70;
+const ROW_GAP = 16;
+
+function truncate(title: string) {
+  return title.length > 24 ? `${title.slice(0, 23)}…` : title;
+}
+
+// Column of every course: prerequisites to the left of the courses that need
+// them, with the course itself in column 0
+function columns(graph: DependencyGraph): Map<string, number> {
+  const column = new Map<string, number>([[graph.courseId, 0]]);
+  const place = (id: string, from: "courseId" | "prerequisiteId", to: "courseId" | "prerequisiteId", step: number) => {
+    for (const link of graph.links) {
+      if (link[from] !== id) continue;
+      const next = column.get(id)! + step;
+      const current = column.get(link[to]);
+      // The graph has no cycles, so following links always ends
+      if (current === undefined || Math.abs(next) > Math.abs(current)) {
+        column.set(link[to], next);
+        place(link[to], from, to, step);
+      }
+    }
+  };
+  place(graph.courseId, "courseId", "prerequisiteId", -1);
+  place(graph.courseId, "prerequisiteId", "courseId", 1);
+  return column;
+}
+
+// The courses a course requires, directly or not, and the ones that require
+// it, drawn left to right
+export default function CourseDependencyGraph({ course, canEdit }: CourseDependencyGraphProps) {
+  const [editing, setEditing] = useState(false);
+
+  const { data: graph, isLoading } = useQuery<DependencyGraph>({
+    queryKey: ["/api/courses", course.id, "dependencies"],
+    retry: false,
+  });
+
+  const prerequisiteIds = useMemo(
+    () => (graph?.links ?? []).filter((link) => link.courseId === course.id).map((link) => link.prerequisiteId),
+    [graph, course.id],
+  );
+
+  const layout = useMemo(() => {
+    if (!graph) return null;
+    const column = columns(graph);
+    const min = Math.min(...Array.from(column.values()));
+    const byColumn = new Map<number, string[]>();
+    for (const item of graph.courses) {
+      const index = (column.get(item.id) ?? 0) - min;
+      byColumn.set(index, [...(byColumn.get(index) ?? []), item.id]);
+    }
+    const rows = Math.max(...Array.from(byColumn.values()).map((ids) => ids.length));
+    const height = rows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+    const positions = new Map<string, { x: number; y: number }>();
+    byColumn.forEach((ids, index) => {
+      const offset = (height - (ids.length * (NODE_HEIGHT + ROW_GAP) - ROW_GAP)) / 2;
+      ids.forEach((id, row) => {
+        positions.set(id, { x: index * (NODE_WIDTH + COLUMN_GAP), y: offset + row * (NODE_HEIGHT + ROW_GAP) });
+      });
+    });
+    return { positions, width: byColumn.size * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP, height };
+  }, [graph]);
+
+  return (
+    <Card className="glassmorphism neumorphism">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-lg">Prerequisites</h3>
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)} data-testid="button-edit-prerequisites">
+              <Pencil className="w-4 h-4 mr-2" />
+              Edit Prerequisites
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !graph || !layout || graph.links.length === 0 ? (
+          <div className="text-center py-8">
+            <GitBranch className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">This course has no prerequisites and no course requires it.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto" data-testid="dependency-graph">
+            <svg width={layout.width} height={layout.height} className="mx-auto block">
+              <defs>
+                <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+                </marker>
+              </defs>
+              {graph.links.map((link) => {
+                const from = layout.positions.get(link.prerequisiteId);
+                const to = layout.positions.get(link.courseId);
+                if (!from || !to) return null;
+                const x1 = from.x + NODE_WIDTH;
+                const y1 = from.y + NODE_HEIGHT / 2;
+                const x2 = to.x;
+                const y2 = to.y + NODE_HEIGHT / 2;
+                const bend = (x2 - x1) / 2;
+                return (
+                  <path
+                    key={`${link.prerequisiteId}-${link.courseId}`}
+                    d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                    fill="none"
+                    strokeWidth={1.5}
+                    className="stroke-muted-foreground"
+                    markerEnd="url(#dependency-arrow)"
+                  />
+                );
+              })}
+              {graph.courses.map((item) => {
+                const position = layout.positions.get(item.id);
+                if (!position) return null;
+                const current = item.id === course.id;
+                return (
+                  <g
+                    key={item.id}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    className={current ? '' : 'cursor-pointer'}
+                    onClick={() => !current && (window.location.href = `/courses/${item.id}`)}
+                    data-testid={`dependency-node-${item.id}`}
+                  >
+                    <title>{`${item.title} (${courseStatusLabel(item.status)})`}</title>
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={8}
+                      strokeWidth={current ? 2 : 1}
+                      className={current ? 'fill-primary/10 stroke-primary' : 'fill-muted stroke-border'}
+                    />
+                    <text
+                      x={NODE_WIDTH / 2}
+                      y={NODE_HEIGHT / 2}
+                      textAnchor="middle"
+                      dominantBaseline="middle"
+                      className="fill-foreground text-xs font-medium"
+                    >
+                      {truncate(item.title)}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+            <p className="text-xs text-muted-foreground text-center mt-3">
+              Arrows point from a course to the courses that require it.
+            </p>
+          </div>
+        )}
+
+        {canEdit && (
+          <PrerequisitesModal
+            course={course}
+            open={editing}
+            prerequisiteIds={prerequisiteIds}
+            onClose={() => setEditing(false)}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
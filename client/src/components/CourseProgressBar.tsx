@@ -0,0 +1,49 @@
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2 } from "lucide-react";
+
+export interface CourseProgress {
+  studentId: string;
+  courseId: string;
+  totalLessons: number;
+  startedLessons: number;
+  completedLessons: number;
+  percent: number;
+  completedAt: string | null;
+}
+
+interface CourseProgressBarProps {
+  progress: CourseProgress | undefined;
+}
+
+// A student's completion of one course
+export default function CourseProgressBar({ progress }: CourseProgressBarProps) {
+  if (!progress) {
+    return <span className="text-xs text-muted-foreground">Progress not available</span>;
+  }
+  if (progress.totalLessons === 0) {
+    return <span className="text-xs text-muted-foreground">No lessons yet</span>;
+  }
+
+  return (
+    <div className="space-y-1 min-w-[140px]" data-testid={`progress-${progress.studentId}-${progress.courseId}`}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">
+          {progress.completedLessons}/{progress.totalLessons} lessons
+        </span>
+        {progress.completedAt ? (
+          <Badge variant="outline" className="bg-green-100 text-green-800 text-xs">
+            <CheckCircle2 className="w-3 h-3 mr-1" />
+            Completed {new Date(progress.completedAt).toLocaleDateString()}
+          </Badge>
+        ) : (
+          <span className="font-medium">{progress.percent}%</span>
+        )}
+      </div>
+      <Progress
+        value={progress.percent}
+        className={`h-2 ${progress.percent === 100 ? '[&>div]:bg-green-600' : ''}`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import CourseStatusBadge, { courseStatusLabel } from "@/components/CourseStatusBadge";
+import { Archive, CheckCircle2, MessageSquare, RotateCcw, Send, Undo2, XCircle } from "lucide-react";
+import type { Course, CourseReviewComment, CourseStatusChange, User } from "@shared/schema";
+
+type UserSummary = Pick<User, "id" | "firstName" | "lastName" | "email"> | null;
+
+interface ReviewComment extends CourseReviewComment {
+  author: UserSummary;
+}
+
+interface StatusChange extends CourseStatusChange {
+  user: UserSummary;
+}
+
+type CourseAction = "submit" | "withdraw" | "approve" | "reject" | "archive" | "restore";
+
+interface CoursePublishingPanelProps {
+  course: Course;
+  // Teachers of the course and super admins
+  canEdit: boolean;
+  canApprove: boolean;
+  canComment: boolean;
+}
+
+function userName(user: UserSummary) {
+  if (!user) return 'Deleted user';
+  return user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.email || 'Unknown user';
+}
+
+const statusHelp: Record<string, string> = {
+  draft: 'Submit the course for review once its curriculum is ready.',
+  in_review: 'Waiting for a super admin to approve it or send it back with comments.',
+  published: 'The course is live.',
+  archived: 'The course is no longer offered. Restore it to a draft to work on it again.',
+};
+
+// Moves a course through review and publishing, with the reviewers'
+// comments and every status change so far
+export default function CoursePublishingPanel({ course, canEdit, canApprove, canComment }: CoursePublishingPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState("");
+  const [comment, setComment] = useState("");
+  const status = course.status || 'draft';
+
+  const { data: comments, isLoading: commentsLoading } = useQuery<ReviewComment[]>({
+    queryKey: ["/api/courses", course.id, "review-comments"],
+    retry: false,
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<StatusChange[]>({
+    queryKey: ["/api/courses", course.id, "status-history"],
+    retry: false,
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async (action: CourseAction) => {
+      await apiRequest("POST", `/api/courses/${course.id}/${action}`, { comment: note.trim() || undefined });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to change the course status. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async (body: string) => {
+      await apiRequest("POST", `/api/courses/${course.id}/review-comments`, { body });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", course.id, "review-comments"] });
+      setComment("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to add comment. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actions: { action: CourseAction; label: string; icon: typeof Send; destructive?: boolean }[] = [
+    ...(canEdit && status === 'draft' ? [{ action: 'submit' as const, label: 'Submit for Review', icon: Send }] : []),
+    ...(canApprove && status === 'in_review'
+      ? [
+          { action: 'approve' as const, label: 'Approve & Publish', icon: CheckCircle2 },
+          { action: 'reject' as const, label: 'Send Back', icon: XCircle, destructive: true },
+        ]
+      : []),
+    ...(canEdit && status === 'in_review' ? [{ action: 'withdraw' as const, label: 'Withdraw', icon: Undo2 }] : []),
+    ...(canEdit && status === 'published' ? [{ action: 'archive' as const, label: 'Archive', icon: Archive, destructive: true }] : []),
+    ...(canEdit && status === 'archived' ? [{ action: 'restore' as const, label: 'Restore to Draft', icon: RotateCcw }] : []),
+  ];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card className="glassmorphism neumorphism">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-lg">Publishing</h3>
+            <CourseStatusBadge status={course.status} />
+          </div>
+          <p className="text-sm text-muted-foreground">{statusHelp[status]}</p>
+
+          {actions.length > 0 && (
+            <div className="space-y-3">
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder={status === 'in_review' && canApprove
+                  ? 'Note for the teacher (required when sending back)'
+                  : 'Optional note'}
+                rows={2}
+                data-testid="input-transition-note"
+              />
+              <div className="flex flex-wrap gap-2">
+                {actions.map(({ action, label, icon: Icon, destructive }) => (
+                  <Button
+                    key={action}
+                    variant={destructive ? 'outline' : 'default'}
+                    className={destructive ? 'text-destructive' : ''}
+                    onClick={() => transitionMutation.mutate(action)}
+                    disabled={transitionMutation.isPending || (action === 'reject' && !note.trim())}
+                    data-testid={`button-course-${action}`}
+                  >
+                    <Icon className="w-4 h-4 mr-2" />
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-medium mb-3">History</h4>
+            {historyLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : !history?.length ? (
+              <p className="text-sm text-muted-foreground">No status changes yet.</p>
+            ) : (
+              <ol className="space-y-3 border-l border-border pl-4">
+                {history.map((change) => (
+                  <li key={change.id} className="text-sm" data-testid={`status-change-${change.id}`}>
+                    <p>
+                      <span className="font-medium">{userName(change.user)}</span>{' '}
+                      {change.fromStatus === null
+                        ? 'created it'
+                        : `moved it from ${courseStatusLabel(change.fromStatus)} to ${courseStatusLabel(change.toStatus)}`}
+                    </p>
+                    {change.comment && <p className="text-muted-foreground italic">"{change.comment}"</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {change.createdAt ? new Date(change.createdAt).toLocaleString() : ''}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glassmorphism neumorphism">
+        <CardContent className="p-6 space-y-4">
+          <h3 className="font-semibold text-lg">Review Comments</h3>
+          {commentsLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !comments?.length ? (
+            <div className="text-center py-8">
+              <MessageSquare className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">No comments yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-3 max-h-96 overflow-y-auto">
+              {comments.map((entry) => (
+                <div key={entry.id} className="p-3 bg-muted/30 rounded-lg" data-testid={`review-comment-${entry.id}`}>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
+                    <span className="font-medium text-foreground">{userName(entry.author)}</span>
+                    <span>{entry.createdAt ? new Date(entry.createdAt).toLocaleString() : ''}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{entry.body}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canComment && (
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (comment.trim()) commentMutation.mutate(comment.trim());
+              }}
+            >
+              <Textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Leave a comment for the review"
+                rows={3}
+                data-testid="input-review-comment"
+              />
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={!comment.trim() || commentMutation.isPending}
+                  data-testid="button-add-review-comment"
+                >
+                  Comment
+                </Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
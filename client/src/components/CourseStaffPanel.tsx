@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2, UserPlus } from "lucide-react";
+import type { Course, CourseStaffRole, SafeUser, User } from "@shared/schema";
+
+export interface CourseStaffReport {
+  members: {
+    userId: string;
+    role: CourseStaffRole;
+    user: Pick<User, "id" | "firstName" | "lastName" | "email" | "profileImageUrl"> | null;
+  }[];
+  // What the current user may do in the course
+  permissions: string[];
+}
+
+type StaffUser = CourseStaffReport["members"][number]["user"];
+
+const roleLabels: Record<CourseStaffRole, string> = {
+  lead: 'Lead',
+  co_teacher: 'Co-teacher',
+  ta: 'TA',
+};
+
+const roleHelp: Record<CourseStaffRole, string> = {
+  lead: 'Edits and publishes the course and manages its staff',
+  co_teacher: 'Edits the curriculum, classes, tests and files',
+  ta: 'Handles files and records student progress',
+};
+
+export function staffRoleLabel(role: string) {
+  return roleLabels[role as CourseStaffRole] ?? role;
+}
+
+function staffName(user: StaffUser) {
+  if (!user) return 'Deleted user';
+  return user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : user.email || 'Unknown Teacher';
+}
+
+interface CourseStaffPanelProps {
+  course: Course;
+  // The lead and super admins change the staff
+  canManage: boolean;
+  teachers: SafeUser[];
+}
+
+// The course's lead, co-teachers and TAs
+export default function CourseStaffPanel({ course, canManage, teachers }: CourseStaffPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [userId, setUserId] = useState("");
+  const [role, setRole] = useState<"co_teacher" | "ta">("ta");
+
+  const { data: staff, isLoading } = useQuery<CourseStaffReport>({
+    queryKey: ["/api/courses", course.id, "staff"],
+    retry: false,
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: serverMessage(error) ?? fallback,
+      variant: "destructive",
+    });
+  };
+
+  const setMemberMutation = useMutation({
+    mutationFn: async (member: { userId: string; role: "co_teacher" | "ta" }) => {
+      await apiRequest("PUT", `/api/courses/${course.id}/staff`, member);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", course.id, "staff"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/course-staff"] });
+      setUserId("");
+    },
+    onError: onError("Failed to update course staff. Please try again."),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      await apiRequest("DELETE", `/api/courses/${course.id}/staff/${memberId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", course.id, "staff"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/course-staff"] });
+    },
+    onError: onError("Failed to remove staff member. Please try again."),
+  });
+
+  const members = staff?.members ?? [];
+  const candidates = teachers.filter((teacher) => !members.some((member) => member.userId === teacher.id));
+
+  return (
+    <Card className="glassmorphism neumorphism">
+      <CardContent className="p-6 space-y-4">
+        <h3 className="font-semibold text-lg">Course Staff</h3>
+
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No teacher is assigned to this course.</p>
+        ) : (
+          <div className="space-y-3">
+            {members.map((member) => (
+              <div
+                key={member.userId}
+                className="flex items-center justify-between p-3 bg-muted/30 rounded-lg"
+                data-testid={`staff-member-${member.userId}`}
+              >
+                <div className="flex items-center space-x-3">
+                  <Avatar className="w-9 h-9">
+                    <AvatarImage src={member.user?.profileImageUrl ?? undefined} />
+                    <AvatarFallback className="bg-primary/10 text-primary">
+                      {staffName(member.user).split(' ').map((n) => n[0]).join('').toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="font-medium">{staffName(member.user)}</p>
+                    <p className="text-xs text-muted-foreground">{roleHelp[member.role]}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {canManage && member.role !== 'lead' ? (
+                    <>
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) =>
+                          setMemberMutation.mutate({ userId: member.userId, role: value as "co_teacher" | "ta" })
+                        }
+                      >
+                        <SelectTrigger className="w-32" data-testid={`select-staff-role-${member.userId}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="co_teacher">Co-teacher</SelectItem>
+                          <SelectItem value="ta">TA</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => removeMutation.mutate(member.userId)}
+                        disabled={removeMutation.isPending}
+                        data-testid={`button-remove-staff-${member.userId}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Badge variant={member.role === 'lead' ? 'default' : 'secondary'}>{staffRoleLabel(member.role)}</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="flex flex-col md:flex-row md:items-center gap-2 pt-4 border-t border-border">
+            <Select value={userId} onValueChange={setUserId}>
+              <SelectTrigger className="md:flex-1" data-testid="select-staff-teacher">
+                <SelectValue placeholder="Choose a teacher" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((teacher) => (
+                  <SelectItem key={teacher.id} value={teacher.id}>
+                    {staffName(teacher)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={role} onValueChange={(value) => setRole(value as "co_teacher" | "ta")}>
+              <SelectTrigger className="md:w-36" data-testid="select-staff-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="co_teacher">Co-teacher</SelectItem>
+                <SelectItem value="ta">TA</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => setMemberMutation.mutate({ userId, role })}
+              disabled={!userId || setMemberMutation.isPending}
+              data-testid="button-add-staff"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
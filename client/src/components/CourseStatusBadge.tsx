@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+
+const statusStyles: Record<string, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-yellow-100 text-yellow-800' },
+  in_review: { label: 'In Review', className: 'bg-blue-100 text-blue-800' },
+  published: { label: 'Published', className: 'bg-green-100 text-green-800' },
+  archived: { label: 'Archived', className: 'bg-gray-100 text-gray-800' },
+};
+
+export function courseStatusLabel(status: string | null | undefined) {
+  return statusStyles[status || 'draft']?.label ?? status;
+}
+
+// A course's publishing status; courses without one are drafts
+export default function CourseStatusBadge({ status }: { status: string | null | undefined }) {
+  const style = statusStyles[status || 'draft'] ?? statusStyles.archived;
+  return (
+    <Badge
+      variant={status === 'published' ? 'default' : 'secondary'}
+      className={style.className}
+      data-testid="badge-course-status"
+    >
+      {courseStatusLabel(status)}
+    </Badge>
+  );
+}
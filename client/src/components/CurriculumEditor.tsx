@@ -0,0 +1,558 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import LessonModal from "@/components/modals/LessonModal";
+import ReleaseRuleModal, { type ReleaseTarget } from "@/components/modals/ReleaseRuleModal";
+import ReleaseScheduleModal from "@/components/modals/ReleaseScheduleModal";
+import {
+  BookOpen,
+  Calendar,
+  ClipboardList,
+  Clock,
+  Edit,
+  FileText,
+  GripVertical,
+  PlayCircle,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import type { Class, CourseSection, File as FileType, Lesson, Test } from "@shared/schema";
+
+export interface OutlineLesson extends Lesson {
+  file: Pick<FileType, "id" | "name" | "type" | "scanStatus" | "transcodeStatus"> | null;
+  class: Pick<Class, "id" | "title" | "scheduledAt" | "status"> | null;
+  test: Pick<Test, "id" | "title" | "duration" | "totalMarks"> | null;
+}
+
+export interface CourseOutlineSection extends CourseSection {
+  lessons: OutlineLesson[];
+}
+
+type Dragging = { type: "section" | "lesson"; id: string } | null;
+
+interface CurriculumEditorProps {
+  courseId: string;
+  canEdit: boolean;
+  files: FileType[];
+  classes: Class[];
+  tests: Test[];
+}
+
+function moveItem<T>(items: T[], from: number, to: number) {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// Moves a section onto the place of another
+function moveSection(outline: CourseOutlineSection[], sectionId: string, targetId: string) {
+  const from = outline.findIndex((section) => section.id === sectionId);
+  const to = outline.findIndex((section) => section.id === targetId);
+  if (from < 0 || to < 0 || from === to) return outline;
+  return moveItem(outline, from, to);
+}
+
+// Moves a lesson onto the place of another lesson, or to the end of a section
+// when `targetLessonId` is null
+function moveLesson(
+  outline: CourseOutlineSection[],
+  lessonId: string,
+  targetSectionId: string,
+  targetLessonId: string | null,
+) {
+  const lesson = outline.flatMap((section) => section.lessons).find((item) => item.id === lessonId);
+  if (!lesson || lessonId === targetLessonId) return outline;
+  const target = outline.find((section) => section.id === targetSectionId);
+  const targetIndex = targetLessonId
+    ? target?.lessons.findIndex((item) => item.id === targetLessonId) ?? -1
+    : target?.lessons.filter((item) => item.id !== lessonId).length ?? -1;
+  if (targetIndex < 0) return outline;
+
+  return outline.map((section) => {
+    const lessons = section.lessons.filter((item) => item.id !== lessonId);
+    if (section.id === targetSectionId) {
+      lessons.splice(targetIndex, 0, { ...lesson, sectionId: section.id });
+    }
+    return { ...section, lessons };
+  });
+}
+
+function lessonIcon(kind: string) {
+  switch (kind) {
+    case 'video':
+      return <PlayCircle className="w-4 h-4 text-primary" />;
+    case 'class':
+      return <Calendar className="w-4 h-4 text-purple-600" />;
+    case 'test':
+      return <ClipboardList className="w-4 h-4 text-secondary" />;
+    default:
+      return <FileText className="w-4 h-4 text-primary" />;
+  }
+}
+
+function lessonDetail(lesson: OutlineLesson) {
+  if (lesson.file) return lesson.file.name;
+  if (lesson.class) {
+    return `${lesson.class.title} • ${lesson.class.scheduledAt ? new Date(lesson.class.scheduledAt).toLocaleString() : 'Not scheduled'}`;
+  }
+  if (lesson.test) return `${lesson.test.title} • ${lesson.test.duration || 0} minutes`;
+  return 'Linked content was removed';
+}
+
+// A short description of when a section or lesson unlocks, or null when it is
+// available straight away
+function releaseDescription(item: CourseSection, outline: CourseOutlineSection[]) {
+  switch (item.releaseRule) {
+    case 'date':
+      return item.releaseAt ? `Unlocks ${new Date(item.releaseAt).toLocaleDateString()}` : null;
+    case 'enrollment':
+      return `${item.releaseDays} ${item.releaseDays === 1 ? 'day' : 'days'} after enrolling`;
+    case 'completion': {
+      const prerequisite = item.releaseAfterLessonId
+        ? outline.flatMap((section) => section.lessons).find((lesson) => lesson.id === item.releaseAfterLessonId)
+        : outline.find((section) => section.id === item.releaseAfterSectionId);
+      return prerequisite ? `After completing "${prerequisite.title}"` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function ReleaseBadge({ item, outline }: { item: CourseSection; outline: CourseOutlineSection[] }) {
+  const description = releaseDescription(item, outline);
+  if (!description) return null;
+  return (
+    <Badge variant="outline" className="text-xs shrink-0" data-testid={`release-rule-${item.id}`}>
+      <Clock className="w-3 h-3 mr-1" />
+      {description}
+    </Badge>
+  );
+}
+
+// Sections and lessons of a course, reordered by dragging
+export default function CurriculumEditor({ courseId, canEdit, files, classes, tests }: CurriculumEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const outlineKey = ["/api/courses", courseId, "outline"];
+  const [newSectionTitle, setNewSectionTitle] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [deletingSection, setDeletingSection] = useState<CourseOutlineSection | null>(null);
+  const [addingToSection, setAddingToSection] = useState<string | null>(null);
+  const [editingLesson, setEditingLesson] = useState<Lesson | null>(null);
+  const [dragging, setDragging] = useState<Dragging>(null);
+  const [releaseTarget, setReleaseTarget] = useState<ReleaseTarget | null>(null);
+  const [showSchedule, setShowSchedule] = useState(false);
+
+  const { data: outline, isLoading } = useQuery<CourseOutlineSection[]>({
+    queryKey: outlineKey,
+    retry: false,
+  });
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: serverMessage(error) ?? fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Completion is measured against the lessons in the curriculum
+  const refreshOutline = () => {
+    queryClient.invalidateQueries({ queryKey: outlineKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "progress"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/students/progress"] });
+  };
+
+  const createSectionMutation = useMutation({
+    mutationFn: async (title: string) => {
+      await apiRequest("POST", `/api/courses/${courseId}/sections`, { title });
+    },
+    onSuccess: () => {
+      refreshOutline();
+      setNewSectionTitle("");
+    },
+    onError: (error: Error) => showError(error, "Failed to add section. Please try again."),
+  });
+
+  const renameSectionMutation = useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      await apiRequest("PATCH", `/api/courses/sections/${id}`, { title });
+    },
+    onSuccess: () => {
+      refreshOutline();
+      setRenaming(null);
+    },
+    onError: (error: Error) => showError(error, "Failed to rename section. Please try again."),
+  });
+
+  const deleteSectionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/courses/sections/${id}`);
+    },
+    onSuccess: () => {
+      refreshOutline();
+      setDeletingSection(null);
+    },
+    onError: (error: Error) => showError(error, "Failed to delete section. Please try again."),
+  });
+
+  const deleteLessonMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/courses/lessons/${id}`);
+    },
+    onSuccess: () => refreshOutline(),
+    onError: (error: Error) => showError(error, "Failed to delete lesson. Please try again."),
+  });
+
+  // The new order is shown straight away and rolled back if saving fails
+  const reorderMutation = useMutation({
+    mutationFn: async (next: CourseOutlineSection[]) => {
+      const res = await apiRequest("PUT", `/api/courses/${courseId}/outline/order`, {
+        sections: next.map((section) => ({
+          id: section.id,
+          lessonIds: section.lessons.map((lesson) => lesson.id),
+        })),
+      });
+      return (await res.json()) as CourseOutlineSection[];
+    },
+    onMutate: (next) => {
+      queryClient.setQueryData(outlineKey, next);
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(outlineKey, saved);
+    },
+    onError: (error: Error) => {
+      refreshOutline();
+      showError(error, "Failed to save the new order. Please try again.");
+    },
+  });
+
+  const reorder = (next: CourseOutlineSection[]) => {
+    if (outline && next !== outline) reorderMutation.mutate(next);
+  };
+
+  const startDrag = (event: React.DragEvent, type: "section" | "lesson", id: string) => {
+    event.stopPropagation();
+    event.dataTransfer.effectAllowed = "move";
+    event.dataTransfer.setData("text/plain", id);
+    setDragging({ type, id });
+  };
+
+  const allowDrop = (event: React.DragEvent, type: "section" | "lesson") => {
+    if (dragging?.type !== type) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = "move";
+  };
+
+  const dropOnSection = (event: React.DragEvent, sectionId: string) => {
+    if (!outline || !dragging) return;
+    event.preventDefault();
+    event.stopPropagation();
+    reorder(
+      dragging.type === "section"
+        ? moveSection(outline, dragging.id, sectionId)
+        : moveLesson(outline, dragging.id, sectionId, null),
+    );
+    setDragging(null);
+  };
+
+  const dropOnLesson = (event: React.DragEvent, sectionId: string, lessonId: string) => {
+    if (!outline || dragging?.type !== "lesson") return;
+    event.preventDefault();
+    event.stopPropagation();
+    reorder(moveLesson(outline, dragging.id, sectionId, lessonId));
+    setDragging(null);
+  };
+
+  if (isLoading || !outline) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const lessonCount = outline.reduce((total, section) => total + section.lessons.length, 0);
+
+  return (
+    <Card className="glassmorphism neumorphism">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="font-semibold text-lg">Curriculum</h3>
+          <div className="flex items-center space-x-2">
+            <Badge variant="outline">
+              {outline.length} {outline.length === 1 ? 'section' : 'sections'} • {lessonCount} {lessonCount === 1 ? 'lesson' : 'lessons'}
+            </Badge>
+            {canEdit && outline.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSchedule(true)}
+                data-testid="button-release-schedule"
+              >
+                <Clock className="w-4 h-4 mr-2" />
+                Release Schedule
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {outline.length === 0 && (
+          <div className="text-center py-12">
+            <BookOpen className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h4 className="font-medium text-lg mb-2">No curriculum yet</h4>
+            <p className="text-muted-foreground">
+              {canEdit
+                ? 'Add a section, then fill it with videos, PDFs, classes and tests.'
+                : 'The curriculum for this course has not been set up.'}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {outline.map((section, sectionIndex) => (
+            <div
+              key={section.id}
+              className={`border border-border rounded-xl ${dragging?.id === section.id ? 'opacity-50' : ''}`}
+              draggable={canEdit && renaming?.id !== section.id}
+              onDragStart={(e) => startDrag(e, "section", section.id)}
+              onDragEnd={() => setDragging(null)}
+              onDragOver={(e) => dragging && allowDrop(e, dragging.type)}
+              onDrop={(e) => dropOnSection(e, section.id)}
+              data-testid={`section-${section.id}`}
+            >
+              <div className="flex items-center justify-between p-4 bg-muted/30 rounded-t-xl">
+                <div className="flex items-center space-x-2 flex-1 min-w-0">
+                  {canEdit && <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab shrink-0" />}
+                  {renaming?.id === section.id ? (
+                    <form
+                      className="flex items-center space-x-2 flex-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        if (renaming.title.trim()) renameSectionMutation.mutate(renaming);
+                      }}
+                    >
+                      <Input
+                        value={renaming.title}
+                        onChange={(e) => setRenaming({ ...renaming, title: e.target.value })}
+                        autoFocus
+                        data-testid={`input-rename-section-${section.id}`}
+                      />
+                      <Button type="submit" size="sm" disabled={!renaming.title.trim() || renameSectionMutation.isPending}>
+                        Save
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => setRenaming(null)}>
+                        Cancel
+                      </Button>
+                    </form>
+                  ) : (
+                    <>
+                      <h4 className="font-medium truncate">
+                        Section {sectionIndex + 1}: {section.title}
+                      </h4>
+                      <ReleaseBadge item={section} outline={outline} />
+                    </>
+                  )}
+                </div>
+                {canEdit && renaming?.id !== section.id && (
+                  <div className="flex items-center space-x-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setAddingToSection(section.id)}
+                      data-testid={`button-add-lesson-${section.id}`}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Lesson
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setReleaseTarget({ ...section, type: "section" })}
+                      data-testid={`button-release-section-${section.id}`}
+                    >
+                      <Clock className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRenaming({ id: section.id, title: section.title })}
+                      data-testid={`button-rename-section-${section.id}`}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      onClick={() => setDeletingSection(section)}
+                      data-testid={`button-delete-section-${section.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="p-2 space-y-1 min-h-[3rem]">
+                {section.lessons.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-3">
+                    {canEdit ? 'Drag lessons here or add one.' : 'No lessons yet.'}
+                  </p>
+                )}
+                {section.lessons.map((lesson, lessonIndex) => (
+                  <div
+                    key={lesson.id}
+                    className={`flex items-center justify-between p-3 rounded-lg hover:bg-muted/30 transition-colors ${dragging?.id === lesson.id ? 'opacity-50' : ''}`}
+                    draggable={canEdit}
+                    onDragStart={(e) => startDrag(e, "lesson", lesson.id)}
+                    onDragEnd={() => setDragging(null)}
+                    onDragOver={(e) => allowDrop(e, "lesson")}
+                    onDrop={(e) => dropOnLesson(e, section.id, lesson.id)}
+                    data-testid={`lesson-${lesson.id}`}
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {canEdit && <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab shrink-0" />}
+                      <div className="w-8 h-8 bg-primary/10 rounded-lg flex items-center justify-center shrink-0">
+                        {lessonIcon(lesson.kind)}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm truncate">
+                          {sectionIndex + 1}.{lessonIndex + 1} {lesson.title}
+                        </p>
+                        <p className={`text-xs truncate ${lesson.file || lesson.class || lesson.test ? 'text-muted-foreground' : 'text-destructive'}`}>
+                          {lessonDetail(lesson)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1 shrink-0">
+                      <ReleaseBadge item={lesson} outline={outline} />
+                      {canEdit && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setReleaseTarget({ ...lesson, type: "lesson" })}
+                            data-testid={`button-release-lesson-${lesson.id}`}
+                          >
+                            <Clock className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditingLesson(lesson)}
+                            data-testid={`button-edit-lesson-${lesson.id}`}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => deleteLessonMutation.mutate(lesson.id)}
+                            disabled={deleteLessonMutation.isPending}
+                            data-testid={`button-delete-lesson-${lesson.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {canEdit && (
+          <form
+            className="flex items-center space-x-2 mt-6"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newSectionTitle.trim()) createSectionMutation.mutate(newSectionTitle.trim());
+            }}
+          >
+            <Input
+              value={newSectionTitle}
+              onChange={(e) => setNewSectionTitle(e.target.value)}
+              placeholder="New section title"
+              data-testid="input-new-section"
+            />
+            <Button
+              type="submit"
+              disabled={!newSectionTitle.trim() || createSectionMutation.isPending}
+              data-testid="button-add-section"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Section
+            </Button>
+          </form>
+        )}
+      </CardContent>
+
+      <LessonModal
+        courseId={courseId}
+        sectionId={addingToSection}
+        lesson={editingLesson}
+        files={files}
+        classes={classes}
+        tests={tests}
+        onClose={() => {
+          setAddingToSection(null);
+          setEditingLesson(null);
+        }}
+      />
+
+      <ReleaseRuleModal
+        courseId={courseId}
+        target={releaseTarget}
+        sections={outline}
+        onClose={() => setReleaseTarget(null)}
+      />
+
+      <ReleaseScheduleModal
+        courseId={courseId}
+        isOpen={showSchedule}
+        onClose={() => setShowSchedule(false)}
+      />
+
+      <AlertDialog open={!!deletingSection} onOpenChange={(open) => !open && setDeletingSection(null)}>
+        <AlertDialogContent className="glassmorphism neumorphism">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete section "{deletingSection?.title}"</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its {deletingSection?.lessons.length ?? 0} lessons are removed from the curriculum. The linked files,
+              classes and tests are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-section">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingSection && deleteSectionMutation.mutate(deletingSection.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={deleteSectionMutation.isPending}
+              data-testid="button-confirm-delete-section"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
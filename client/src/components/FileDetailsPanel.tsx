@@ -0,0 +1,183 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download, ExternalLink } from "lucide-react";
+import VideoPlayer from "@/components/VideoPlayer";
+import type { File as FileType, Course, Class } from "@shared/schema";
+
+interface FileDetailsPanelProps {
+  file: FileType | null;
+  course?: Course;
+  classData?: Class;
+  onClose: () => void;
+  onOpenFile: (fileId: string, inline: boolean) => void;
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+const previewStatusLabels: Record<string, string> = {
+  pending: 'Generating preview...',
+  failed: 'Preview could not be generated',
+  unsupported: 'No preview for this file type',
+};
+
+const scanStatusLabels: Record<string, string> = {
+  pending: 'Quarantined until the malware scan finishes',
+  infected: 'Malware found; downloads are blocked',
+  failed: 'Malware scan failed; downloads are blocked until it is scanned again',
+};
+
+const transcodeStatusLabels: Record<string, string> = {
+  pending: 'Processing video for streaming...',
+  failed: 'Video could not be processed',
+};
+
+// Side panel with file details and an inline viewer for PDFs and images
+export default function FileDetailsPanel({
+  file,
+  course,
+  classData,
+  onClose,
+  onOpenFile,
+}: FileDetailsPanelProps) {
+  const isClean = file?.scanStatus === 'clean';
+  const canView = isClean && (file?.type === 'pdf' || file?.type === 'image');
+  const canStream = isClean && file?.type === 'video' && file.transcodeStatus === 'ready';
+
+  // Signed links expire after a few minutes; refetch before that
+  const { data: signed, isLoading } = useQuery<{ url: string }>({
+    queryKey: ["/api/files", file?.id, "url", "inline", file?.currentVersion],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/files/${file!.id}/url?inline=1`);
+      return await res.json();
+    },
+    enabled: !!file && canView,
+    staleTime: 4 * 60 * 1000,
+    retry: false,
+  });
+
+  return (
+    <Sheet open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto" data-testid="panel-file-details">
+        {file && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="font-heading font-bold text-xl break-all">{file.name}</SheetTitle>
+            </SheetHeader>
+
+            <div className="space-y-6 mt-6">
+              <div className="rounded-lg border border-border bg-muted/20 overflow-hidden">
+                {canStream ? (
+                  <VideoPlayer fileId={file.id} title={file.name} />
+                ) : !canView ? (
+                  <div className="p-12 text-center text-muted-foreground text-sm">
+                    {!isClean
+                      ? scanStatusLabels[file.scanStatus ?? 'pending']
+                      : file.type === 'video' && file.transcodeStatus
+                        ? transcodeStatusLabels[file.transcodeStatus]
+                        : previewStatusLabels.unsupported}
+                  </div>
+                ) : isLoading || !signed ? (
+                  <Skeleton className="w-full h-[60vh]" />
+                ) : file.type === 'pdf' ? (
+                  <iframe
+                    src={signed.url}
+                    title={file.name}
+                    className="w-full h-[70vh]"
+                    data-testid="viewer-pdf"
+                  />
+                ) : (
+                  <img
+                    src={signed.url}
+                    alt={file.name}
+                    className="w-full max-h-[70vh] object-contain"
+                    data-testid="viewer-image"
+                  />
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Type</p>
+                  <Badge variant="outline">{file.type?.toUpperCase() || 'Unknown'}</Badge>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Size</p>
+                  <p className="font-medium">{file.size ? formatFileSize(file.size) : 'Unknown'}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Course</p>
+                  <p className="font-medium">{course?.title || 'Unlinked'}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Class</p>
+                  <p className="font-medium">{classData?.title || 'Unlinked'}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Version</p>
+                  <p className="font-medium">v{file.currentVersion ?? 1}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Uploaded</p>
+                  <p className="font-medium">
+                    {file.createdAt ? new Date(file.createdAt).toLocaleString() : 'Unknown'}
+                  </p>
+                </div>
+                {!isClean && (
+                  <div className="col-span-2">
+                    <p className="text-muted-foreground">Malware scan</p>
+                    <p className="font-medium text-destructive">
+                      {scanStatusLabels[file.scanStatus ?? 'pending']}
+                      {file.scanSignature && ` (${file.scanSignature})`}
+                    </p>
+                  </div>
+                )}
+                {isClean && file.previewStatus && file.previewStatus !== 'ready' && (
+                  <div className="col-span-2">
+                    <p className="text-muted-foreground">Preview</p>
+                    <p className="font-medium">{previewStatusLabels[file.previewStatus] ?? file.previewStatus}</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-end space-x-2">
+                {canView && (
+                  <Button
+                    variant="outline"
+                    onClick={() => onOpenFile(file.id, true)}
+                    data-testid="button-open-new-tab"
+                  >
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    Open in New Tab
+                  </Button>
+                )}
+                <Button
+                  onClick={() => onOpenFile(file.id, false)}
+                  disabled={!isClean}
+                  data-testid="button-download-details"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
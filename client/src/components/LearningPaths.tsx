@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import CourseStatusBadge from "@/components/CourseStatusBadge";
+import LearningPathModal, { type LearningPathWithCourses } from "@/components/modals/LearningPathModal";
+import { ChevronRight, Pencil, Plus, Route, Trash2 } from "lucide-react";
+import type { Course } from "@shared/schema";
+
+interface LearningPathsProps {
+  courses: Course[];
+  // Super admins put courses together into paths
+  canEdit: boolean;
+}
+
+// Bundles of courses taken one after another
+export default function LearningPaths({ courses, canEdit }: LearningPathsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<LearningPathWithCourses | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const { data: paths, isLoading } = useQuery<LearningPathWithCourses[]>({
+    queryKey: ["/api/learning-paths"],
+    retry: false,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/learning-paths/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/learning-paths"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to delete learning path. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canEdit && !isLoading && !paths?.length) return null;
+
+  return (
+    <Card className="glassmorphism neumorphism">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-lg">Learning Paths</h3>
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={() => setCreating(true)} data-testid="button-create-path">
+              <Plus className="w-4 h-4 mr-2" />
+              New Path
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !paths?.length ? (
+          <div className="text-center py-6">
+            <Route className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">No learning paths yet. Bundle courses in the order students take them.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {paths.map((path) => (
+              <div key={path.id} className="p-4 bg-muted/30 rounded-lg" data-testid={`learning-path-${path.id}`}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">{path.title}</p>
+                    {path.description && <p className="text-sm text-muted-foreground">{path.description}</p>}
+                  </div>
+                  {canEdit && (
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(path)} data-testid={`button-edit-path-${path.id}`}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => deleteMutation.mutate(path.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-path-${path.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  {path.courses.map((course, index) => (
+                    <span key={course.id} className="flex items-center gap-2">
+                      {index > 0 && <ChevronRight className="w-4 h-4 text-muted-foreground" />}
+                      <button
+                        className="flex items-center gap-2 px-3 py-1 rounded-md border border-border text-sm hover:bg-primary/10"
+                        onClick={() => window.location.href = `/courses/${course.id}`}
+                      >
+                        {course.title}
+                        <CourseStatusBadge status={course.status} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canEdit && (
+          <LearningPathModal
+            open={creating || !!editing}
+            path={editing}
+            courses={courses}
+            onClose={() => {
+              setCreating(false);
+              setEditing(null);
+            }}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
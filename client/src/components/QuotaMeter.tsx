@@ -0,0 +1,72 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Progress } from "@/components/ui/progress";
+import { HardDrive } from "lucide-react";
+
+export interface UsageEntry {
+  id: string;
+  name: string;
+  usedBytes: number;
+  limitBytes: number | null;
+}
+
+export interface StorageUsageReport {
+  user: { usedBytes: number; limitBytes: number | null };
+  courses: UsageEntry[];
+  teachers?: UsageEntry[];
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+export function usagePercent(usedBytes: number, limitBytes: number | null) {
+  if (!limitBytes) return 0;
+  return Math.min(100, Math.round((usedBytes / limitBytes) * 100));
+}
+
+// The current user's storage use against their quota
+export default function QuotaMeter() {
+  const { dataUpdatedAt: filesUpdatedAt } = useQuery({
+    queryKey: ["/api/files"],
+    retry: false,
+  });
+  const { data: usage, refetch } = useQuery<StorageUsageReport>({
+    queryKey: ["/api/storage/usage"],
+    retry: false,
+  });
+
+  // Usage changes whenever files are added or removed
+  useEffect(() => {
+    if (filesUpdatedAt) refetch();
+  }, [filesUpdatedAt, refetch]);
+
+  if (!usage) return null;
+  const { usedBytes, limitBytes } = usage.user;
+  const percent = usagePercent(usedBytes, limitBytes);
+
+  return (
+    <div className="flex items-center space-x-3 min-w-[220px]" data-testid="quota-meter">
+      <HardDrive className="w-5 h-5 text-muted-foreground shrink-0" />
+      <div className="flex-1 space-y-1">
+        <div className="flex items-center justify-between text-xs">
+          <span className="font-medium">{formatBytes(usedBytes)} used</span>
+          <span className="text-muted-foreground">
+            {limitBytes ? `of ${formatBytes(limitBytes)}` : 'No limit'}
+          </span>
+        </div>
+        {limitBytes ? (
+          <Progress
+            value={percent}
+            className={`h-2 ${percent >= 90 ? '[&>div]:bg-destructive' : ''}`}
+            data-testid="quota-meter-progress"
+          />
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { Star } from "lucide-react";
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+}
+
+interface RatingStarsProps {
+  rating: RatingSummary | number | null | undefined;
+  // Makes the stars buttons that pick a rating
+  onChange?: (rating: number) => void;
+  size?: "sm" | "lg";
+}
+
+// Five stars filled up to the rating. Summaries also show the average and
+// the number of ratings; courses without approved reviews say so.
+export default function RatingStars({ rating, onChange, size = "sm" }: RatingStarsProps) {
+  const value = typeof rating === "number" ? rating : rating?.average ?? 0;
+  const iconSize = size === "lg" ? "w-7 h-7" : "w-4 h-4";
+
+  const empty = !rating || (typeof rating !== "number" && rating.count === 0);
+  if (!onChange && empty) {
+    return <span className="text-sm text-muted-foreground">No ratings yet</span>;
+  }
+
+  return (
+    <span className="inline-flex items-center space-x-1" data-testid="rating-stars">
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={`${iconSize} ${
+              star <= Math.round(value) ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'
+            }`}
+          />
+        );
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            aria-label={`${star} star${star === 1 ? '' : 's'}`}
+            data-testid={`button-rating-${star}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+      {rating && typeof rating !== "number" && (
+        <span className="text-sm text-muted-foreground ml-1">
+          {rating.average.toFixed(1)} ({rating.count})
+        </span>
+      )}
+    </span>
+  );
+}
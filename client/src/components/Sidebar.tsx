@@ -1,6 +1,8 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
-import { useQuery } from "@tanstack/react-query";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   GraduationCap,
   Home,
@@ -17,6 +19,7 @@ import {
   Crown,
   Presentation,
   University,
+  MessageSquareQuote,
 } from "lucide-react";
 
 interface NavigationItem {
@@ -35,12 +38,13 @@ const navigationItems: Record<string, NavigationItem[]> = {
     { icon: ClipboardCheck, label: "Tests & Exams", href: "/tests", section: "Education", badge: "89" },
     { icon: University, label: "Students", href: "/students", section: "People", badge: "2,847" },
     { icon: Users, label: "Teachers", href: "/teachers", section: "People", badge: "47" },
+    { icon: MessageSquareQuote, label: "Reviews", href: "/reviews", section: "People" },
     { icon: BarChart3, label: "Analytics", href: "/analytics", section: "Marketing" },
     { icon: Megaphone, label: "Campaigns", href: "/campaigns", section: "Marketing", badge: "3 Active" },
     { icon: Tags, label: "Coupons", href: "/coupons", section: "Marketing" },
     { icon: FolderOpen, label: "Files & Materials", href: "/files", section: "Tools" },
     { icon: Calendar, label: "Timetable", href: "/timetable", section: "Tools" },
-    { icon: MessageCircle, label: "Chat", href: "/chat", section: "Tools", badge: "12" },
+    { icon: MessageCircle, label: "Chat", href: "/chat", section: "Tools" },
   ],
   teacher: [
     { icon: Home, label: "Dashboard", href: "/", section: null },
@@ -58,6 +62,14 @@ const navigationItems: Record<string, NavigationItem[]> = {
     { icon: Megaphone, label: "Campaigns", href: "/campaigns", section: "Marketing" },
     { icon: Tags, label: "Coupons", href: "/coupons", section: "Marketing" },
   ],
+  support: [
+    { icon: Home, label: "Dashboard", href: "/", section: null },
+    { icon: Presentation, label: "Classes", href: "/classes", section: "Education" },
+    { icon: ClipboardCheck, label: "Tests & Exams", href: "/tests", section: "Education" },
+    { icon: University, label: "Students", href: "/students", section: "People" },
+    { icon: MessageSquareQuote, label: "Reviews", href: "/reviews", section: "People" },
+    { icon: MessageCircle, label: "Chat", href: "/chat", section: "Tools" },
+  ],
 };
 
 export default function Sidebar() {
@@ -69,8 +81,34 @@ export default function Sidebar() {
     retry: false,
   });
 
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/chat/unread-count"],
+    enabled: !!user,
+    retry: false,
+  });
+
+  // New messages and read receipts change the unread badge. Teachers also
+  // hear when a student completes one of their courses.
+  useLiveEvents((event) => {
+    if (event.type === 'chat' || event.type === 'read') {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/unread-count"] });
+    } else if (event.type === 'course_completed') {
+      queryClient.invalidateQueries({ queryKey: ["/api/students/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", event.data.courseId, "progress"] });
+      toast({
+        title: "Course completed",
+        description: `${event.data.studentName} has completed ${event.data.courseTitle}.`,
+      });
+    }
+  });
+
   const userRole = user?.role || 'teacher';
-  const navItems = navigationItems[userRole as keyof typeof navigationItems] || navigationItems.teacher;
+  const navItems = (navigationItems[userRole as keyof typeof navigationItems] || navigationItems.teacher)
+    .map((item) => item.href === '/chat' && unread?.count
+      ? { ...item, badge: unread.count > 99 ? '99+' : String(unread.count) }
+      : item);
 
   const groupedNavItems = navItems.reduce((acc, item) => {
     if (item.section === null) {
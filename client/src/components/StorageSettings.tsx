@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { HardDrive, BookOpen, Users, Shield } from "lucide-react";
+import {
+  formatBytes,
+  usagePercent,
+  type StorageUsageReport,
+  type UsageEntry,
+} from "@/components/QuotaMeter";
+import type { StorageQuota } from "@shared/schema";
+
+type QuotaScope = "role" | "teacher" | "course";
+
+interface QuotaTarget {
+  scope: QuotaScope;
+  targetId: string;
+  name: string;
+}
+
+const GB = 1024 * 1024 * 1024;
+
+// Roles that can upload files
+const quotaRoles = [
+  { id: 'teacher', name: 'Teachers' },
+  { id: 'super_admin', name: 'Super admins' },
+];
+
+interface StorageSettingsProps {
+  isAdmin: boolean;
+}
+
+// Storage usage breakdown, and quota management for super admins
+export default function StorageSettings({ isAdmin }: StorageSettingsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<QuotaTarget | null>(null);
+  const [limitGb, setLimitGb] = useState("");
+
+  const { data: usage, isLoading } = useQuery<StorageUsageReport>({
+    queryKey: ["/api/storage/usage"],
+    retry: false,
+  });
+
+  const { data: quotas } = useQuery<StorageQuota[]>({
+    queryKey: ["/api/storage/quotas"],
+    retry: false,
+    enabled: isAdmin,
+  });
+
+  const quotaFor = (scope: QuotaScope, targetId: string) =>
+    quotas?.find((quota) => quota.scope === scope && quota.targetId === targetId);
+
+  const openEditor = (target: QuotaTarget) => {
+    const quota = quotaFor(target.scope, target.targetId);
+    setLimitGb(quota ? String(parseFloat((quota.limitBytes / GB).toFixed(2))) : "");
+    setEditing(target);
+  };
+
+  const onSaved = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/storage/usage"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/storage/quotas"] });
+    toast({ title: "Success", description });
+    setEditing(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (target: QuotaTarget) => {
+      await apiRequest("PUT", "/api/storage/quotas", {
+        scope: target.scope,
+        targetId: target.targetId,
+        limitBytes: Math.round(Number(limitGb) * GB),
+      });
+    },
+    onSuccess: () => onSaved("Storage quota saved."),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save storage quota. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (quotaId: string) => {
+      await apiRequest("DELETE", `/api/storage/quotas/${quotaId}`);
+    },
+    onSuccess: () => onSaved("Storage quota removed."),
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove storage quota. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderUsageRows = (entries: UsageEntry[], scope: QuotaScope) => (
+    <div className="space-y-4">
+      {entries.map((entry) => (
+        <div key={entry.id} className="space-y-2" data-testid={`storage-${scope}-${entry.id}`}>
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium truncate">{entry.name}</span>
+            <div className="flex items-center space-x-3 shrink-0">
+              <span className="text-muted-foreground">
+                {formatBytes(entry.usedBytes)}
+                {entry.limitBytes ? ` of ${formatBytes(entry.limitBytes)}` : ''}
+              </span>
+              {isAdmin && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openEditor({ scope, targetId: entry.id, name: entry.name })}
+                  data-testid={`button-edit-quota-${entry.id}`}
+                >
+                  Set Limit
+                </Button>
+              )}
+            </div>
+          </div>
+          {entry.limitBytes ? <Progress value={usagePercent(entry.usedBytes, entry.limitBytes)} className="h-2" /> : null}
+        </div>
+      ))}
+    </div>
+  );
+
+  if (isLoading || !usage) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const editingQuota = editing ? quotaFor(editing.scope, editing.targetId) : undefined;
+
+  return (
+    <>
+      <Card className="glassmorphism neumorphism">
+        <CardContent className="p-6 space-y-4">
+          <h3 className="font-semibold text-lg flex items-center space-x-2">
+            <HardDrive className="w-5 h-5" />
+            <span>Your Storage</span>
+          </h3>
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">{formatBytes(usage.user.usedBytes)} used</span>
+            <span className="text-muted-foreground">
+              {usage.user.limitBytes ? `Quota: ${formatBytes(usage.user.limitBytes)}` : 'No quota set'}
+            </span>
+          </div>
+          {usage.user.limitBytes ? (
+            <Progress value={usagePercent(usage.user.usedBytes, usage.user.limitBytes)} className="h-3" />
+          ) : null}
+          <p className="text-sm text-muted-foreground">
+            Every uploaded version counts towards your quota until the file is deleted.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="glassmorphism neumorphism">
+        <CardContent className="p-6 space-y-6">
+          <h3 className="font-semibold text-lg flex items-center space-x-2">
+            <BookOpen className="w-5 h-5" />
+            <span>Storage by Course</span>
+          </h3>
+          {usage.courses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No courses yet.</p>
+          ) : (
+            renderUsageRows(usage.courses, "course")
+          )}
+        </CardContent>
+      </Card>
+
+      {isAdmin && usage.teachers && (
+        <Card className="glassmorphism neumorphism">
+          <CardContent className="p-6 space-y-6">
+            <h3 className="font-semibold text-lg flex items-center space-x-2">
+              <Users className="w-5 h-5" />
+              <span>Storage by Teacher</span>
+            </h3>
+            {usage.teachers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No teachers yet.</p>
+            ) : (
+              renderUsageRows(usage.teachers, "teacher")
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && (
+        <Card className="glassmorphism neumorphism">
+          <CardContent className="p-6 space-y-4">
+            <h3 className="font-semibold text-lg flex items-center space-x-2">
+              <Shield className="w-5 h-5" />
+              <span>Default Quotas by Role</span>
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              Applies to each user with the role unless they have their own limit.
+            </p>
+            {quotaRoles.map((role) => {
+              const quota = quotaFor("role", role.id);
+              return (
+                <div key={role.id} className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{role.name}</span>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-muted-foreground">
+                      {quota ? formatBytes(quota.limitBytes) : 'No limit'}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openEditor({ scope: "role", targetId: role.id, name: role.name })}
+                      data-testid={`button-edit-quota-role-${role.id}`}
+                    >
+                      Set Limit
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-md" data-testid="modal-edit-quota">
+          <DialogHeader>
+            <DialogTitle className="font-heading font-bold text-xl">Storage limit: {editing?.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-semibold mb-2">Limit (GB)</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={limitGb}
+                onChange={(e) => setLimitGb(e.target.value)}
+                placeholder="e.g. 10"
+                data-testid="input-quota-limit"
+              />
+            </div>
+            <div className="flex items-center justify-between pt-4 border-t border-border">
+              {editingQuota ? (
+                <Button
+                  variant="outline"
+                  onClick={() => removeMutation.mutate(editingQuota.id)}
+                  disabled={removeMutation.isPending}
+                  data-testid="button-remove-quota"
+                >
+                  Remove Limit
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button
+                onClick={() => editing && saveMutation.mutate(editing)}
+                disabled={limitGb === '' || Number(limitGb) < 0 || saveMutation.isPending}
+                data-testid="button-save-quota"
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -16,6 +17,11 @@ export default function TopNavbar() {
   const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
 
+  const handleLogout = async () => {
+    await apiRequest("POST", "/api/auth/logout");
+    window.location.href = "/";
+  };
+
   const getInitials = (firstName?: string, lastName?: string, email?: string) => {
     if (firstName && lastName) {
       return `${firstName[0]}${lastName[0]}`.toUpperCase();
@@ -90,7 +96,7 @@ export default function TopNavbar() {
               <DropdownMenuSeparator />
               <DropdownMenuItem 
                 className="cursor-pointer text-destructive"
-                onClick={() => window.location.href = '/api/logout'}
+                onClick={handleLogout}
                 data-testid="menu-logout"
               >
                 <LogOut className="w-4 h-4 mr-2" />
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from "react";
+import Hls from "hls.js";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface VideoPlayerProps {
+  fileId: string;
+  title: string;
+  // Called with the percent watched as playback passes each tenth, and with
+  // 100 when the video ends
+  onProgress?: (percentWatched: number) => void;
+}
+
+const AUTO_LEVEL = "-1";
+
+// Adaptive HLS player for transcoded videos. hls.js picks the rendition from
+// the measured bandwidth; Safari plays HLS natively and adapts on its own.
+export default function VideoPlayer({ fileId, title, onProgress }: VideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const hlsRef = useRef<Hls | null>(null);
+  const reportedRef = useRef(0);
+  const [levels, setLevels] = useState<{ index: number; label: string }[]>([]);
+  const [level, setLevel] = useState(AUTO_LEVEL);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const source = `/api/files/${fileId}/hls/master.m3u8`;
+    setLevels([]);
+    setLevel(AUTO_LEVEL);
+    setFailed(false);
+    reportedRef.current = 0;
+
+    if (Hls.isSupported()) {
+      const hls = new Hls();
+      hlsRef.current = hls;
+      hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+        setLevels(
+          data.levels
+            .map((item, index) => ({ index, label: `${Math.min(item.width, item.height)}p`, height: item.height }))
+            .sort((a, b) => b.height - a.height)
+        );
+      });
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (data.fatal) setFailed(true);
+      });
+      hls.loadSource(source);
+      hls.attachMedia(video);
+      return () => {
+        hls.destroy();
+        hlsRef.current = null;
+      };
+    }
+
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = source;
+    } else {
+      setFailed(true);
+    }
+  }, [fileId]);
+
+  const reportProgress = (ended: boolean) => {
+    const video = videoRef.current;
+    if (!onProgress || !video?.duration) return;
+    const percent = ended ? 100 : Math.floor((video.currentTime / video.duration) * 100);
+    if (percent === 100 ? reportedRef.current < 100 : percent >= reportedRef.current + 10) {
+      reportedRef.current = percent;
+      onProgress(percent);
+    }
+  };
+
+  const changeLevel = (value: string) => {
+    setLevel(value);
+    if (hlsRef.current) hlsRef.current.currentLevel = Number(value);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg overflow-hidden bg-black">
+        {failed ? (
+          <div className="aspect-video flex items-center justify-center text-sm text-white/70">
+            This video could not be played.
+          </div>
+        ) : (
+          <video
+            ref={videoRef}
+            controls
+            playsInline
+            poster={`/api/files/${fileId}/poster`}
+            aria-label={title}
+            onTimeUpdate={() => reportProgress(false)}
+            onEnded={() => reportProgress(true)}
+            className="w-full aspect-video"
+            data-testid="video-player"
+          />
+        )}
+      </div>
+      {levels.length > 1 && (
+        <div className="flex items-center justify-end space-x-2">
+          <span className="text-sm text-muted-foreground">Quality</span>
+          <Select value={level} onValueChange={changeLevel}>
+            <SelectTrigger className="w-28" data-testid="select-video-quality">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_LEVEL}>Auto</SelectItem>
+              {levels.map((item) => (
+                <SelectItem key={item.index} value={String(item.index)}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle2, AlertTriangle } from "lucide-react";
+import type { Course, User } from "@shared/schema";
+
+interface CourseCloneReport {
+  course: Course;
+  shiftedDays: number;
+  copied: {
+    classes: number;
+    tests: number;
+    folders: number;
+    files: number;
+    sections: number;
+    lessons: number;
+    prerequisites: number;
+  };
+  skippedFiles: { id: string; name: string; reason: string }[];
+  lessonsWithoutFile: { id: string; title: string }[];
+}
+
+type TeacherOption = Pick<User, "id" | "firstName" | "lastName" | "email">;
+
+interface CloneCourseModalProps {
+  course: Course | null;
+  // Only super admins hand the copy to another teacher
+  teachers?: TeacherOption[];
+  onClose: () => void;
+}
+
+function teacherLabel(teacher: TeacherOption) {
+  return teacher.firstName && teacher.lastName ? `${teacher.firstName} ${teacher.lastName}` : teacher.email;
+}
+
+function plural(count: number, word: string) {
+  return `${count} ${count === 1 ? word : `${word}s`}`;
+}
+
+// Copies a course for a new batch and shows what was copied
+export default function CloneCourseModal({ course, teachers, onClose }: CloneCourseModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState("");
+  const [teacherId, setTeacherId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [report, setReport] = useState<CourseCloneReport | null>(null);
+
+  useEffect(() => {
+    if (!course) return;
+    setTitle(`${course.title} (Copy)`);
+    setTeacherId(course.teacherId ?? "");
+    setStartDate("");
+    setReport(null);
+  }, [course]);
+
+  const cloneMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/courses/${course!.id}/clone`, {
+        title: title.trim(),
+        teacherId: teacherId || undefined,
+        startDate: startDate || undefined,
+      });
+      return (await res.json()) as CourseCloneReport;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/classes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      setReport(result);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to clone course. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!course} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg glassmorphism neumorphism" data-testid="modal-clone-course">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-xl">
+            {report ? 'Course Copied' : `Clone ${course?.title ?? 'Course'}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-4" data-testid="clone-report">
+            <div className="flex items-start space-x-3">
+              <CheckCircle2 className="w-5 h-5 text-green-600 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-medium">{report.course.title} was created as a draft.</p>
+                <p className="text-sm text-muted-foreground">
+                  {report.shiftedDays === 0
+                    ? 'Class dates were kept.'
+                    : `Class and release dates moved ${Math.abs(report.shiftedDays)} days ${report.shiftedDays > 0 ? 'later' : 'earlier'}.`}
+                </p>
+              </div>
+            </div>
+            <ul className="grid grid-cols-2 gap-2 text-sm">
+              <li className="p-3 bg-muted/30 rounded-lg">{plural(report.copied.classes, 'class')}</li>
+              <li className="p-3 bg-muted/30 rounded-lg">{plural(report.copied.tests, 'test')}</li>
+              <li className="p-3 bg-muted/30 rounded-lg">{plural(report.copied.files, 'file')}</li>
+              <li className="p-3 bg-muted/30 rounded-lg">{plural(report.copied.folders, 'folder')}</li>
+              <li className="p-3 bg-muted/30 rounded-lg">{plural(report.copied.sections, 'section')}</li>
+              <li className="p-3 bg-muted/30 rounded-lg">{plural(report.copied.lessons, 'lesson')}</li>
+              {report.copied.prerequisites > 0 && (
+                <li className="p-3 bg-muted/30 rounded-lg col-span-2">
+                  {plural(report.copied.prerequisites, 'prerequisite')}
+                </li>
+              )}
+            </ul>
+            {report.skippedFiles.length > 0 && (
+              <div className="p-3 border border-destructive/30 rounded-lg space-y-1">
+                <p className="flex items-center text-sm font-medium text-destructive">
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                  {plural(report.skippedFiles.length, 'file')} not copied
+                </p>
+                {report.skippedFiles.map((file) => (
+                  <p key={file.id} className="text-sm text-muted-foreground">
+                    {file.name}: {file.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+            {report.lessonsWithoutFile.length > 0 && (
+              <div className="p-3 border border-destructive/30 rounded-lg space-y-1">
+                <p className="flex items-center text-sm font-medium text-destructive">
+                  <AlertTriangle className="w-4 h-4 mr-2" />
+                  {plural(report.lessonsWithoutFile.length, 'lesson')} left without a file
+                </p>
+                {report.lessonsWithoutFile.map((lesson) => (
+                  <p key={lesson.id} className="text-sm text-muted-foreground">
+                    {lesson.title}
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center justify-end space-x-4 pt-4 border-t border-border">
+              <Button variant="outline" onClick={onClose} data-testid="button-close-clone">
+                Close
+              </Button>
+              <Button
+                onClick={() => window.location.href = `/courses/${report.course.id}`}
+                data-testid="button-open-clone"
+              >
+                Open New Course
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-semibold mb-2">Title</label>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} data-testid="input-clone-title" />
+            </div>
+
+            {teachers && (
+              <div>
+                <label className="block text-sm font-semibold mb-2">Teacher</label>
+                <Select value={teacherId} onValueChange={setTeacherId}>
+                  <SelectTrigger data-testid="select-clone-teacher">
+                    <SelectValue placeholder="Same teacher" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teachers.map((teacher) => (
+                      <SelectItem key={teacher.id} value={teacher.id}>{teacherLabel(teacher)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-semibold mb-2">First class on</label>
+              <Input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                data-testid="input-clone-start-date"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Every class and release date moves by the same number of days. Leave empty to keep the dates.
+              </p>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Classes, tests, files and the curriculum are copied into a new draft course without students.
+            </p>
+
+            <div className="flex items-center justify-end space-x-4 pt-4 border-t border-border">
+              <Button variant="outline" onClick={onClose} data-testid="button-cancel-clone">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => cloneMutation.mutate()}
+                disabled={!title.trim() || cloneMutation.isPending}
+                data-testid="button-submit-clone"
+              >
+                {cloneMutation.isPending ? 'Copying...' : 'Clone Course'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -30,7 +30,6 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { CloudUpload, X } from "lucide-react";
 
@@ -42,7 +41,6 @@ const createCourseSchema = z.object({
   discount: z.string().optional(),
   duration: z.string().min(1, "Duration is required"),
   tags: z.string().optional(),
-  status: z.enum(["draft", "published"]),
 });
 
 type CreateCourseForm = z.infer<typeof createCourseSchema>;
@@ -66,7 +64,6 @@ export default function CreateCourseModal({ isOpen, onClose }: CreateCourseModal
       discount: "0",
       duration: "",
       tags: "",
-      status: "draft",
     },
   });
 
@@ -283,33 +280,9 @@ export default function CreateCourseModal({ isOpen, onClose }: CreateCourseModal
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="status"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Publication Status</FormLabel>
-                  <FormControl>
-                    <RadioGroup
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                      className="flex space-x-6"
-                      data-testid="radio-course-status"
-                    >
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="draft" id="draft" />
-                        <Label htmlFor="draft">Save as Draft</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="published" id="published" />
-                        <Label htmlFor="published">Publish Immediately</Label>
-                      </div>
-                    </RadioGroup>
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <p className="text-sm text-muted-foreground">
+              New courses start as drafts. Submit the course for review from its Publishing tab once the curriculum is ready.
+            </p>
 
             <div className="flex items-center justify-end space-x-4 pt-6 border-t border-border">
               <Button 
@@ -0,0 +1,192 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download, RotateCcw, Upload } from "lucide-react";
+import type { File as FileType, FileVersion, User } from "@shared/schema";
+
+type FileVersionWithUploader = FileVersion & {
+  uploader: Pick<User, "id" | "firstName" | "lastName" | "email"> | null;
+};
+
+interface FileHistoryModalProps {
+  file: FileType | null;
+  onClose: () => void;
+  onOpenVersion: (fileId: string, version: number) => void;
+  onUploadVersion: (fileId: string, upload: globalThis.File) => void;
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+function uploaderName(version: FileVersionWithUploader) {
+  const { uploader } = version;
+  if (!uploader) return 'Unknown';
+  const name = `${uploader.firstName || ''} ${uploader.lastName || ''}`.trim();
+  return name || uploader.email || 'Unknown';
+}
+
+// What changed in a version compared with the one before it
+function describeChanges(version: FileVersionWithUploader, previous?: FileVersionWithUploader) {
+  if (!previous) return ['Initial upload'];
+
+  const changes: string[] = [];
+  if (version.restoredFrom) changes.push(`Restored from v${version.restoredFrom}`);
+  if (version.name !== previous.name) changes.push(`Renamed from "${previous.name}"`);
+  if (version.type !== previous.type) {
+    changes.push(`Type ${previous.type?.toUpperCase() || 'unknown'} → ${version.type?.toUpperCase() || 'unknown'}`);
+  }
+  if (version.size !== previous.size) {
+    const delta = (version.size ?? 0) - (previous.size ?? 0);
+    changes.push(`Size ${delta > 0 ? '+' : '-'}${formatFileSize(Math.abs(delta))}`);
+  }
+  if (changes.length === 0) changes.push('Same metadata, new content');
+  return changes;
+}
+
+export default function FileHistoryModal({
+  file,
+  onClose,
+  onOpenVersion,
+  onUploadVersion,
+}: FileHistoryModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions, isLoading } = useQuery<FileVersionWithUploader[]>({
+    queryKey: ["/api/files", file?.id, "versions"],
+    enabled: !!file,
+    retry: false,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      await apiRequest("POST", `/api/files/${file!.id}/versions/${version}/restore`);
+    },
+    onSuccess: (_data, version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      toast({
+        title: "Success",
+        description: `Version ${version} restored as the current version.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore version. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleVersionSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const upload = event.target.files?.[0];
+    if (upload && file) {
+      onUploadVersion(file.id, upload);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl glassmorphism neumorphism" data-testid="modal-file-history">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-2xl">Version History</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-muted-foreground text-sm truncate">{file?.name}</p>
+            <input
+              type="file"
+              onChange={handleVersionSelected}
+              className="hidden"
+              id="file-version-upload"
+              data-testid="input-file-version-upload"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => document.getElementById('file-version-upload')?.click()}
+              data-testid="button-upload-version"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Upload New Version
+            </Button>
+          </div>
+
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {isLoading ? (
+              Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-20 w-full" />)
+            ) : (
+              versions?.map((version, index) => {
+                const isCurrent = version.version === file?.currentVersion;
+                return (
+                  <div
+                    key={version.id}
+                    className="flex items-start justify-between gap-4 p-4 rounded-lg border border-border"
+                    data-testid={`file-version-${version.version}`}
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-semibold">v{version.version}</span>
+                        {isCurrent && <Badge>Current</Badge>}
+                        {version.scanStatus === 'infected' && <Badge variant="destructive">Infected</Badge>}
+                        <span className="text-sm truncate">{version.name}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {uploaderName(version)}
+                        {version.createdAt && ` · ${new Date(version.createdAt).toLocaleString()}`}
+                        {version.size != null && ` · ${formatFileSize(version.size)}`}
+                      </p>
+                      <ul className="text-xs text-muted-foreground list-disc list-inside">
+                        {describeChanges(version, versions[index + 1]).map((change) => (
+                          <li key={change}>{change}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div className="flex items-center space-x-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onOpenVersion(file!.id, version.version)}
+                        disabled={version.scanStatus !== 'clean'}
+                        data-testid={`button-download-version-${version.version}`}
+                      >
+                        <Download className="w-4 h-4" />
+                      </Button>
+                      {!isCurrent && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate(version.version)}
+                          disabled={restoreMutation.isPending}
+                          data-testid={`button-restore-version-${version.version}`}
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+import type { Course, LearningPath } from "@shared/schema";
+
+export interface LearningPathWithCourses extends LearningPath {
+  courses: Pick<Course, "id" | "title" | "status" | "teacherId">[];
+}
+
+interface LearningPathModalProps {
+  open: boolean;
+  // The path being edited; a new one is created when there is none
+  path: LearningPathWithCourses | null;
+  courses: Course[];
+  onClose: () => void;
+}
+
+// Creates or edits a learning path. Courses are listed in the order they are
+// taken, after the courses they require.
+export default function LearningPathModal({ open, path, courses, onClose }: LearningPathModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [courseIds, setCourseIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(path?.title ?? "");
+    setDescription(path?.description ?? "");
+    setCourseIds(path?.courses.map((course) => course.id) ?? []);
+  }, [open, path]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = { title: title.trim(), description: description.trim() || null, courseIds };
+      if (path) {
+        await apiRequest("PUT", `/api/learning-paths/${path.id}`, data);
+      } else {
+        await apiRequest("POST", "/api/learning-paths", data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/learning-paths"] });
+      toast({ title: "Success", description: path ? "Learning path updated." : "Learning path created." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to save learning path. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const titles = new Map<string, string>([
+    ...(path?.courses ?? []).map((course) => [course.id, course.title] as [string, string]),
+    ...courses.map((course) => [course.id, course.title] as [string, string]),
+  ]);
+  const available = courses
+    .filter((course) => !courseIds.includes(course.id))
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  const move = (index: number, offset: number) =>
+    setCourseIds((current) => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg glassmorphism neumorphism" data-testid="modal-learning-path">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-xl">
+            {path ? 'Edit Learning Path' : 'New Learning Path'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-semibold mb-2">Title</label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} data-testid="input-path-title" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2">Description</label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              data-testid="input-path-description"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2">Courses, in order</label>
+            {courseIds.length === 0 ? (
+              <p className="text-sm text-muted-foreground mb-2">Add at least one course.</p>
+            ) : (
+              <ol className="space-y-2 mb-2">
+                {courseIds.map((id, index) => (
+                  <li
+                    key={id}
+                    className="flex items-center justify-between p-2 bg-muted/30 rounded-lg text-sm"
+                    data-testid={`path-course-${id}`}
+                  >
+                    <span>{index + 1}. {titles.get(id) ?? 'Unknown course'}</span>
+                    <span className="flex items-center">
+                      <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, -1)}>
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === courseIds.length - 1}
+                        onClick={() => move(index, 1)}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCourseIds((current) => current.filter((item) => item !== id))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {available.length > 0 && (
+              <Select value="" onValueChange={(id) => setCourseIds((current) => [...current, id])}>
+                <SelectTrigger data-testid="select-path-course">
+                  <SelectValue placeholder="Add a course" />
+                </SelectTrigger>
+                <SelectContent>
+                  {available.map((course) => (
+                    <SelectItem key={course.id} value={course.id}>{course.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-border">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-path">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!title.trim() || courseIds.length === 0 || saveMutation.isPending}
+              data-testid="button-save-path"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Learning Path'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Class, File as FileType, Lesson, LessonKind, Test } from "@shared/schema";
+
+interface LessonModalProps {
+  courseId: string;
+  // Set to add a lesson to this section, or `lesson` to edit one
+  sectionId: string | null;
+  lesson: Lesson | null;
+  files: FileType[];
+  classes: Class[];
+  tests: Test[];
+  onClose: () => void;
+}
+
+const kindLabels: Record<LessonKind, string> = {
+  video: 'Video',
+  pdf: 'PDF',
+  class: 'Class',
+  test: 'Test',
+};
+
+function linkedContentId(lesson: Lesson) {
+  return lesson.fileId ?? lesson.classId ?? lesson.testId ?? '';
+}
+
+export default function LessonModal({
+  courseId,
+  sectionId,
+  lesson,
+  files,
+  classes,
+  tests,
+  onClose,
+}: LessonModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState("");
+  const [kind, setKind] = useState<LessonKind>("video");
+  const [contentId, setContentId] = useState("");
+  const isOpen = !!sectionId || !!lesson;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTitle(lesson?.title ?? "");
+    setKind((lesson?.kind as LessonKind) ?? "video");
+    setContentId(lesson ? linkedContentId(lesson) : "");
+  }, [isOpen, lesson]);
+
+  const contentOptions =
+    kind === 'class'
+      ? classes.map((classItem) => ({ id: classItem.id, label: classItem.title }))
+      : kind === 'test'
+        ? tests.map((test) => ({ id: test.id, label: test.title }))
+        : files.filter((file) => file.type === kind).map((file) => ({ id: file.id, label: file.name }));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const lessonData = {
+        title,
+        kind,
+        fileId: kind === 'video' || kind === 'pdf' ? contentId : null,
+        classId: kind === 'class' ? contentId : null,
+        testId: kind === 'test' ? contentId : null,
+      };
+      if (lesson) {
+        await apiRequest("PATCH", `/api/courses/lessons/${lesson.id}`, lessonData);
+      } else {
+        await apiRequest("POST", `/api/courses/sections/${sectionId}/lessons`, lessonData);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "outline"] });
+      toast({
+        title: "Success",
+        description: lesson ? "Lesson updated." : "Lesson added.",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to save lesson. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectContent = (id: string) => {
+    setContentId(id);
+    // Name new lessons after their content until the user picks a title
+    if (!title) {
+      setTitle(contentOptions.find((option) => option.id === id)?.label ?? "");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md glassmorphism neumorphism" data-testid="modal-lesson">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-xl">
+            {lesson ? 'Edit Lesson' : 'Add Lesson'}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-semibold mb-2">Type</label>
+            <Select
+              value={kind}
+              onValueChange={(value) => {
+                setKind(value as LessonKind);
+                setContentId("");
+              }}
+            >
+              <SelectTrigger data-testid="select-lesson-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(kindLabels) as LessonKind[]).map((value) => (
+                  <SelectItem key={value} value={value}>{kindLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2">{kindLabels[kind]}</label>
+            <Select value={contentId} onValueChange={selectContent}>
+              <SelectTrigger data-testid="select-lesson-content">
+                <SelectValue placeholder={contentOptions.length ? `Select ${kindLabels[kind].toLowerCase()}` : 'Nothing in this course yet'} />
+              </SelectTrigger>
+              <SelectContent>
+                {contentOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold mb-2">Title</label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Lesson title"
+              data-testid="input-lesson-title"
+            />
+          </div>
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-border">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-lesson">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!title.trim() || !contentId || saveMutation.isPending}
+              data-testid="button-save-lesson"
+            >
+              {saveMutation.isPending ? 'Saving...' : lesson ? 'Save' : 'Add Lesson'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Course, FileFolder, FileSelection } from "@shared/schema";
+
+interface MoveFilesModalProps {
+  mode: "move" | "copy" | null;
+  selection: FileSelection;
+  courses: Course[];
+  folders: FileFolder[];
+  onClose: () => void;
+  onDone: () => void;
+}
+
+// "Course / Folder / Subfolder" label for a folder
+function folderLabel(folder: FileFolder, foldersById: Map<string, FileFolder>, course?: Course) {
+  const names: string[] = [];
+  let current: FileFolder | undefined = folder;
+  while (current) {
+    names.unshift(current.name);
+    current = current.parentId ? foldersById.get(current.parentId) : undefined;
+  }
+  return [course?.title ?? 'Unknown course', ...names].join(' / ');
+}
+
+export default function MoveFilesModal({
+  mode,
+  selection,
+  courses,
+  folders,
+  onClose,
+  onDone,
+}: MoveFilesModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [target, setTarget] = useState("");
+
+  const foldersById = new Map(folders.map((folder) => [folder.id, folder]));
+  const coursesById = new Map(courses.map((course) => [course.id, course]));
+  // A folder cannot go inside itself, so hide the selected folders' subtrees
+  const isInSelection = (folder: FileFolder): boolean =>
+    selection.folderIds.includes(folder.id) ||
+    (!!folder.parentId && !!foldersById.get(folder.parentId) && isInSelection(foldersById.get(folder.parentId)!));
+  const targetOptions = [
+    ...courses.map((course) => ({ value: `course:${course.id}`, label: course.title })),
+    ...folders
+      .filter((folder) => !isInSelection(folder))
+      .map((folder) => ({
+        value: `folder:${folder.id}`,
+        label: folderLabel(folder, foldersById, coursesById.get(folder.courseId)),
+      })),
+  ].sort((a, b) => a.label.localeCompare(b.label));
+
+  const close = () => {
+    setTarget("");
+    onClose();
+  };
+
+  const moveMutation = useMutation({
+    mutationFn: async () => {
+      const [kind, id] = target.split(":");
+      await apiRequest("POST", `/api/files/bulk/${mode}`, {
+        ...selection,
+        targetFolderId: kind === "folder" ? id : null,
+        targetCourseId: kind === "course" ? id : undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      toast({
+        title: "Success",
+        description: mode === "copy" ? "Items copied successfully!" : "Items moved successfully!",
+      });
+      setTarget("");
+      onDone();
+    },
+    onError: (error: Error) => {
+      // Copies that would go over a storage quota say how much space is left
+      const quotaMessage = error.message.startsWith("413: ") ? serverMessage(error) : undefined;
+      toast({
+        title: "Error",
+        description: quotaMessage ?? `Failed to ${mode} items. Please try again.`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const count = selection.fileIds.length + selection.folderIds.length;
+
+  return (
+    <Dialog open={!!mode} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-lg glassmorphism neumorphism" data-testid="modal-move-files">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-2xl">
+            {mode === "copy" ? "Copy" : "Move"} {count} {count === 1 ? "item" : "items"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-semibold mb-2">Destination</label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger data-testid="select-move-target">
+                <SelectValue placeholder="Select a course or folder" />
+              </SelectTrigger>
+              <SelectContent>
+                {targetOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-border">
+            <Button variant="outline" onClick={close} data-testid="button-cancel-move">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => moveMutation.mutate()}
+              disabled={!target || moveMutation.isPending}
+              data-testid="button-confirm-move"
+            >
+              {moveMutation.isPending
+                ? mode === "copy" ? "Copying..." : "Moving..."
+                : mode === "copy" ? "Copy" : "Move"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import CourseStatusBadge from "@/components/CourseStatusBadge";
+import type { Course } from "@shared/schema";
+
+interface PrerequisitesModalProps {
+  course: Course;
+  open: boolean;
+  // The courses it requires now
+  prerequisiteIds: string[];
+  onClose: () => void;
+}
+
+// Picks the courses students have to complete before enrolling in `course`
+export default function PrerequisitesModal({ course, open, prerequisiteIds, onClose }: PrerequisitesModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data: courses, isLoading } = useQuery<Course[]>({
+    queryKey: ["/api/courses"],
+    enabled: open,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (open) setSelected(prerequisiteIds);
+  }, [open, prerequisiteIds]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/courses/${course.id}/prerequisites`, { prerequisiteIds: selected });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", course.id, "dependencies"] });
+      toast({ title: "Success", description: "Prerequisites updated." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to update prerequisites. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((current) => (checked ? [...current, id] : current.filter((item) => item !== id)));
+  const options = (courses ?? [])
+    .filter((item) => item.id !== course.id)
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg glassmorphism neumorphism" data-testid="modal-prerequisites">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-xl">Prerequisites</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Students have to complete these courses before they can enroll in {course.title}.
+          </p>
+
+          {isLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : options.length === 0 ? (
+            <p className="text-sm text-muted-foreground">There are no other courses to require.</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {options.map((option) => (
+                <label
+                  key={option.id}
+                  className="flex items-center justify-between p-3 bg-muted/30 rounded-lg cursor-pointer"
+                  data-testid={`prerequisite-option-${option.id}`}
+                >
+                  <span className="flex items-center space-x-3">
+                    <Checkbox
+                      checked={selected.includes(option.id)}
+                      onCheckedChange={(checked) => toggle(option.id, checked === true)}
+                    />
+                    <span className="text-sm font-medium">{option.title}</span>
+                  </span>
+                  <CourseStatusBadge status={option.status} />
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-border">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-prerequisites">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-prerequisites"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Prerequisites'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
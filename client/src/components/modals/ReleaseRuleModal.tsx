@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CourseSection } from "@shared/schema";
+
+type ReleaseFields = Pick<
+  CourseSection,
+  "releaseRule" | "releaseAt" | "releaseDays" | "releaseAfterLessonId" | "releaseAfterSectionId"
+>;
+
+export interface ReleaseTarget extends ReleaseFields {
+  type: "section" | "lesson";
+  id: string;
+  title: string;
+}
+
+interface ReleaseRuleModalProps {
+  courseId: string;
+  target: ReleaseTarget | null;
+  // Everything in the curriculum that can be completed first
+  sections: { id: string; title: string; lessons: { id: string; title: string }[] }[];
+  onClose: () => void;
+}
+
+function toDateInput(value: Date | string | null) {
+  if (!value) return "";
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export default function ReleaseRuleModal({ courseId, target, sections, onClose }: ReleaseRuleModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rule, setRule] = useState("none");
+  const [releaseAt, setReleaseAt] = useState("");
+  const [releaseDays, setReleaseDays] = useState("");
+  const [prerequisite, setPrerequisite] = useState("");
+
+  useEffect(() => {
+    if (!target) return;
+    setRule(target.releaseRule ?? "none");
+    setReleaseAt(toDateInput(target.releaseAt));
+    setReleaseDays(target.releaseDays != null ? String(target.releaseDays) : "");
+    setPrerequisite(
+      target.releaseAfterLessonId
+        ? `lesson:${target.releaseAfterLessonId}`
+        : target.releaseAfterSectionId
+          ? `section:${target.releaseAfterSectionId}`
+          : "",
+    );
+  }, [target]);
+
+  // Sections and lessons other than the one being edited
+  const prerequisiteOptions = sections.flatMap((section) => [
+    ...(target?.type === 'section' && target.id === section.id
+      ? []
+      : [{ value: `section:${section.id}`, label: `Section: ${section.title}` }]),
+    ...section.lessons
+      .filter((lesson) => !(target?.type === 'lesson' && target.id === lesson.id))
+      .map((lesson) => ({ value: `lesson:${lesson.id}`, label: `Lesson: ${lesson.title}` })),
+  ]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const [prerequisiteType, prerequisiteId] = prerequisite.split(":");
+      await apiRequest("PUT", `/api/courses/${target!.type}s/${target!.id}/release`, {
+        releaseRule: rule === 'none' ? null : rule,
+        releaseAt: rule === 'date' ? new Date(releaseAt).toISOString() : null,
+        releaseDays: rule === 'enrollment' ? parseInt(releaseDays) : null,
+        releaseAfterLessonId: rule === 'completion' && prerequisiteType === 'lesson' ? prerequisiteId : null,
+        releaseAfterSectionId: rule === 'completion' && prerequisiteType === 'section' ? prerequisiteId : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "outline"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", courseId, "release-schedule"] });
+      toast({ title: "Success", description: "Release rule saved." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to save release rule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isComplete =
+    rule === 'none' ||
+    (rule === 'date' && !!releaseAt) ||
+    (rule === 'enrollment' && releaseDays !== '' && parseInt(releaseDays) >= 0) ||
+    (rule === 'completion' && !!prerequisite);
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md glassmorphism neumorphism" data-testid="modal-release-rule">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-xl">Release: {target?.title}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-semibold mb-2">Available</label>
+            <Select value={rule} onValueChange={setRule}>
+              <SelectTrigger data-testid="select-release-rule">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Straight away</SelectItem>
+                <SelectItem value="date">On a date</SelectItem>
+                <SelectItem value="enrollment">Days after enrolling</SelectItem>
+                <SelectItem value="completion">After completing another item</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {rule === 'date' && (
+            <div>
+              <label className="block text-sm font-semibold mb-2">Release date</label>
+              <Input
+                type="datetime-local"
+                value={releaseAt}
+                onChange={(e) => setReleaseAt(e.target.value)}
+                data-testid="input-release-at"
+              />
+            </div>
+          )}
+
+          {rule === 'enrollment' && (
+            <div>
+              <label className="block text-sm font-semibold mb-2">Days after enrolling</label>
+              <Input
+                type="number"
+                min="0"
+                value={releaseDays}
+                onChange={(e) => setReleaseDays(e.target.value)}
+                placeholder="e.g. 7"
+                data-testid="input-release-days"
+              />
+            </div>
+          )}
+
+          {rule === 'completion' && (
+            <div>
+              <label className="block text-sm font-semibold mb-2">Complete first</label>
+              <Select value={prerequisite} onValueChange={setPrerequisite}>
+                <SelectTrigger data-testid="select-release-prerequisite">
+                  <SelectValue placeholder="Select a section or lesson" />
+                </SelectTrigger>
+                <SelectContent>
+                  {prerequisiteOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {target?.type === 'lesson' && (
+            <p className="text-sm text-muted-foreground">
+              A lesson is never released before its section.
+            </p>
+          )}
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-border">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-release">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!isComplete || saveMutation.isPending}
+              data-testid="button-save-release"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
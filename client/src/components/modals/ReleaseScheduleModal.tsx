@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Lock, Unlock } from "lucide-react";
+import type { CourseProgress } from "@/components/CourseProgressBar";
+
+interface ReleaseState {
+  id: string;
+  title: string;
+  availableAt: string | null;
+  available: boolean;
+  waitingFor: string | null;
+}
+
+interface ReleaseSchedule {
+  enrolledAt: string;
+  sections: (ReleaseState & { lessons: ReleaseState[] })[];
+}
+
+interface ReleaseScheduleModalProps {
+  courseId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const HYPOTHETICAL = "new";
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function releaseLabel(state: ReleaseState) {
+  if (state.waitingFor) return `After completing "${state.waitingFor}"`;
+  if (state.available) return 'Available';
+  return `Unlocks ${new Date(state.availableAt!).toLocaleString()}`;
+}
+
+function ReleaseRow({ state, label, nested }: { state: ReleaseState; label: string; nested?: boolean }) {
+  return (
+    <div
+      className={`flex items-center justify-between py-2 ${nested ? 'pl-6' : ''}`}
+      data-testid={`release-${state.id}`}
+    >
+      <div className="flex items-center space-x-2 min-w-0">
+        {state.available
+          ? <Unlock className="w-4 h-4 text-green-600 shrink-0" />
+          : <Lock className="w-4 h-4 text-muted-foreground shrink-0" />}
+        <span className={`truncate ${nested ? 'text-sm' : 'font-medium'}`}>{label}</span>
+      </div>
+      <Badge
+        variant="outline"
+        className={`shrink-0 text-xs ${state.available ? 'bg-green-100 text-green-800' : ''}`}
+      >
+        {releaseLabel(state)}
+      </Badge>
+    </div>
+  );
+}
+
+// When the curriculum unlocks for an enrolled student, or for someone who
+// enrolls on a chosen date
+export default function ReleaseScheduleModal({ courseId, isOpen, onClose }: ReleaseScheduleModalProps) {
+  const [studentId, setStudentId] = useState(HYPOTHETICAL);
+  const [enrolledAt, setEnrolledAt] = useState(today);
+
+  const { data: students } = useQuery<(CourseProgress & { student: { id: string; name: string } })[]>({
+    queryKey: ["/api/courses", courseId, "progress"],
+    enabled: isOpen,
+    retry: false,
+  });
+
+  const { data: schedule, isLoading } = useQuery<ReleaseSchedule>({
+    queryKey: ["/api/courses", courseId, "release-schedule", studentId, enrolledAt],
+    queryFn: async () => {
+      const query = studentId === HYPOTHETICAL
+        ? `enrolledAt=${encodeURIComponent(new Date(enrolledAt).toISOString())}`
+        : `studentId=${encodeURIComponent(studentId)}`;
+      const res = await apiRequest("GET", `/api/courses/${courseId}/release-schedule?${query}`);
+      return await res.json();
+    },
+    enabled: isOpen && (studentId !== HYPOTHETICAL || !!enrolledAt),
+    retry: false,
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl glassmorphism neumorphism" data-testid="modal-release-schedule">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-xl">Release Schedule</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold mb-2">Preview for</label>
+              <Select value={studentId} onValueChange={setStudentId}>
+                <SelectTrigger data-testid="select-schedule-student">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={HYPOTHETICAL}>A new enrollment</SelectItem>
+                  {students?.map((entry) => (
+                    <SelectItem key={entry.studentId} value={entry.studentId}>
+                      {entry.student.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {studentId === HYPOTHETICAL && (
+              <div>
+                <label className="block text-sm font-semibold mb-2">Enrolling on</label>
+                <Input
+                  type="date"
+                  value={enrolledAt}
+                  onChange={(e) => setEnrolledAt(e.target.value)}
+                  data-testid="input-schedule-enrolled-at"
+                />
+              </div>
+            )}
+          </div>
+
+          {isLoading || !schedule ? (
+            <Skeleton className="h-48 w-full" />
+          ) : schedule.sections.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">The curriculum has no sections yet.</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto divide-y divide-border">
+              <p className="text-sm text-muted-foreground pb-2">
+                Enrolled {new Date(schedule.enrolledAt).toLocaleDateString()}
+              </p>
+              {schedule.sections.map((section, sectionIndex) => (
+                <div key={section.id} className="py-2">
+                  <ReleaseRow state={section} label={`Section ${sectionIndex + 1}: ${section.title}`} />
+                  {section.lessons.map((lesson, lessonIndex) => (
+                    <ReleaseRow
+                      key={lesson.id}
+                      state={lesson}
+                      label={`${sectionIndex + 1}.${lessonIndex + 1} ${lesson.title}`}
+                      nested
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
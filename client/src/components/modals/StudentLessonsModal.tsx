@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import VideoPlayer from "@/components/VideoPlayer";
+import type { CourseOutlineSection, OutlineLesson } from "@/components/CurriculumEditor";
+import { CheckCircle2, Circle, Lock, PlayCircle } from "lucide-react";
+import type { Course, Student } from "@shared/schema";
+
+interface LessonState {
+  id: string;
+  available: boolean;
+  completedAt: string | null;
+}
+
+interface StudentSchedule {
+  sections: { id: string; lessons: LessonState[] }[];
+}
+
+interface LessonProgressResult {
+  courseCompleted: boolean;
+}
+
+interface StudentLessonsModalProps {
+  student: Student | null;
+  course: Pick<Course, "id" | "title"> | null;
+  onClose: () => void;
+}
+
+// Staff record a student's progress through a course's lessons: marking them
+// complete, or playing a video lesson with the student so the percent watched
+// is recorded as it plays
+export default function StudentLessonsModal({ student, course, onClose }: StudentLessonsModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [playing, setPlaying] = useState<OutlineLesson | null>(null);
+  const isOpen = !!student && !!course;
+
+  const { data: outline, isLoading: outlineLoading } = useQuery<CourseOutlineSection[]>({
+    queryKey: ["/api/courses", course?.id, "outline"],
+    enabled: isOpen,
+    retry: false,
+  });
+
+  const scheduleKey = ["/api/courses", course?.id, "release-schedule", student?.id];
+  const { data: schedule, isLoading: scheduleLoading } = useQuery<StudentSchedule>({
+    queryKey: scheduleKey,
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/courses/${course!.id}/release-schedule?studentId=${encodeURIComponent(student!.id)}`,
+      );
+      return await res.json();
+    },
+    enabled: isOpen,
+    retry: false,
+  });
+
+  const progressMutation = useMutation({
+    mutationFn: async ({ lessonId, update }: {
+      lessonId: string;
+      update: { completed?: boolean; percentWatched?: number };
+    }) => {
+      const res = await apiRequest("PUT", `/api/students/${student!.id}/lessons/${lessonId}/progress`, update);
+      return (await res.json()) as LessonProgressResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: scheduleKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/students/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/courses", course?.id, "progress"] });
+      if (result.courseCompleted) {
+        toast({ title: "Course completed", description: `${student?.name} has completed ${course?.title}.` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to record progress. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const states = new Map(
+    (schedule?.sections ?? []).flatMap((section) => section.lessons).map((lesson) => [lesson.id, lesson]),
+  );
+
+  const close = () => {
+    setPlaying(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-2xl glassmorphism neumorphism" data-testid="modal-student-lessons">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-xl">
+            {student?.name} · {course?.title}
+          </DialogTitle>
+        </DialogHeader>
+
+        {playing?.file ? (
+          <div className="space-y-4">
+            <VideoPlayer
+              fileId={playing.file.id}
+              title={playing.title}
+              onProgress={(percentWatched) =>
+                progressMutation.mutate({ lessonId: playing.id, update: { percentWatched } })
+              }
+            />
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => setPlaying(null)} data-testid="button-back-to-lessons">
+                Back to lessons
+              </Button>
+            </div>
+          </div>
+        ) : outlineLoading || scheduleLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : !outline?.length ? (
+          <p className="text-muted-foreground text-center py-8">The curriculum has no sections yet.</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto divide-y divide-border">
+            {outline.map((section, sectionIndex) => (
+              <div key={section.id} className="py-2">
+                <p className="font-medium py-2">Section {sectionIndex + 1}: {section.title}</p>
+                {section.lessons.map((lesson, lessonIndex) => {
+                  const state = states.get(lesson.id);
+                  return (
+                    <div
+                      key={lesson.id}
+                      className="flex items-center justify-between py-2 pl-6"
+                      data-testid={`student-lesson-${lesson.id}`}
+                    >
+                      <div className="flex items-center space-x-2 min-w-0">
+                        {state?.completedAt
+                          ? <CheckCircle2 className="w-4 h-4 text-green-600 shrink-0" />
+                          : state?.available
+                            ? <Circle className="w-4 h-4 text-muted-foreground shrink-0" />
+                            : <Lock className="w-4 h-4 text-muted-foreground shrink-0" />}
+                        <span className="text-sm truncate">
+                          {sectionIndex + 1}.{lessonIndex + 1} {lesson.title}
+                        </span>
+                      </div>
+                      {state?.completedAt ? (
+                        <div className="flex items-center space-x-2 shrink-0">
+                          <Badge variant="outline" className="bg-green-100 text-green-800 text-xs">
+                            Completed {new Date(state.completedAt).toLocaleDateString()}
+                          </Badge>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => progressMutation.mutate({ lessonId: lesson.id, update: { completed: false } })}
+                            disabled={progressMutation.isPending}
+                            data-testid={`button-uncomplete-lesson-${lesson.id}`}
+                          >
+                            Undo
+                          </Button>
+                        </div>
+                      ) : state?.available ? (
+                        <div className="flex items-center space-x-2 shrink-0">
+                          {lesson.kind === 'video' && lesson.file?.transcodeStatus === 'ready' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPlaying(lesson)}
+                              data-testid={`button-play-lesson-${lesson.id}`}
+                            >
+                              <PlayCircle className="w-4 h-4 mr-2" />
+                              Play
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => progressMutation.mutate({ lessonId: lesson.id, update: { completed: true } })}
+                            disabled={progressMutation.isPending}
+                            data-testid={`button-complete-lesson-${lesson.id}`}
+                          >
+                            Mark complete
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground shrink-0">Not released yet</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
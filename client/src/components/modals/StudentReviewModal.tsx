@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import RatingStars from "@/components/RatingStars";
+import type { Course, Student } from "@shared/schema";
+
+interface StudentReviewModalProps {
+  student: Student | null;
+  course: Pick<Course, "id" | "title"> | null;
+  onClose: () => void;
+}
+
+// Records a student's rating and review of a course. It goes to the
+// moderation queue before it counts.
+export default function StudentReviewModal({ student, course, onClose }: StudentReviewModalProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState("");
+
+  useEffect(() => {
+    setRating(0);
+    setBody("");
+  }, [student, course]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/students/${student!.id}/courses/${course!.id}/review`, {
+        rating,
+        body: body.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews"] });
+      toast({ title: "Success", description: "Review saved. It will count once it is approved." });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to save review. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!student && !!course} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg glassmorphism neumorphism" data-testid="modal-student-review">
+        <DialogHeader>
+          <DialogTitle className="font-heading font-bold text-xl">Review of {course?.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            From {student?.name}. Saving again replaces their earlier review of this course.
+          </p>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2">Rating</label>
+            <RatingStars rating={rating} onChange={setRating} size="lg" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold mb-2">Review</label>
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="What the student said about the course (optional)"
+              rows={4}
+              data-testid="input-review-body"
+            />
+          </div>
+
+          <div className="flex items-center justify-end space-x-4 pt-4 border-t border-border">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-review">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={rating === 0 || saveMutation.isPending}
+              data-testid="button-save-review"
+            >
+              {saveMutation.isPending ? 'Saving...' : 'Save Review'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+import { useAuth } from "@/hooks/useAuth";
+
+export interface LiveEvent {
+  type: string;
+  data: any;
+}
+
+// Listens to the server's socket for as long as the component is mounted,
+// so views can refresh when something happens instead of polling
+export function useLiveEvents(onEvent: (event: LiveEvent) => void) {
+  const { isAuthenticated } = useAuth();
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    ws.onmessage = (event) => {
+      try {
+        onEventRef.current(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Error parsing WebSocket message:', error);
+      }
+    };
+    return () => {
+      ws.close();
+    };
+  }, [isAuthenticated]);
+}
@@ -23,6 +23,16 @@ export async function apiRequest(
   return res;
 }
 
+// The message from a failed request's JSON body; apiRequest errors look like
+// `413: {"message":"..."}`
+export function serverMessage(error: Error): string | undefined {
+  try {
+    return JSON.parse(error.message.replace(/^\d+: /, "")).message;
+  } catch {
+    return undefined;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,220 @@
+import type { File as FileRecord, UploadSession } from "@shared/schema";
+
+// Sent to PATCH /api/uploads/:id one chunk at a time. Small enough that a
+// dropped connection loses little work, large enough to keep overhead low.
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_RETRIES = 5;
+
+export type UploadStatus = "pending" | "uploading" | "paused" | "error" | "done";
+
+export interface UploadProgress {
+  status: UploadStatus;
+  uploaded: number;
+  total: number;
+  error?: string;
+}
+
+export interface UploadLinks {
+  courseId?: string;
+  classId?: string;
+  folderId?: string;
+  // Upload as a new version of this file instead of a new file
+  versionOf?: string;
+}
+
+class UploadRequestError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: any,
+  ) {
+    super(body?.message || `Upload request failed with ${status}`);
+  }
+}
+
+class UploadAbortedError extends Error {}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Uploads a file through the resumable upload API. The session id is kept in
+// localStorage so the same file picked again after a reload or lost
+// connection continues where it stopped instead of starting over.
+export class ResumableUpload {
+  private sessionId: string | null = null;
+  private offset = 0;
+  private xhr: XMLHttpRequest | null = null;
+  private progress: UploadProgress;
+  private running = false;
+
+  constructor(
+    readonly file: globalThis.File,
+    private readonly links: UploadLinks,
+    private readonly onProgress: (progress: UploadProgress) => void,
+  ) {
+    this.progress = { status: "pending", uploaded: 0, total: file.size };
+  }
+
+  private get storageKey() {
+    const { name, size, lastModified } = this.file;
+    const { courseId = "", classId = "", folderId = "", versionOf = "" } = this.links;
+    return `resumable-upload:${name}:${size}:${lastModified}:${courseId}:${classId}:${folderId}:${versionOf}`;
+  }
+
+  private report(update: Partial<UploadProgress>) {
+    this.progress = { ...this.progress, ...update };
+    this.onProgress(this.progress);
+  }
+
+  async start(): Promise<FileRecord | null> {
+    if (this.running) return null;
+    this.running = true;
+    this.report({ status: "uploading", error: undefined });
+
+    let retries = 0;
+    try {
+      await this.openSession();
+      while (true) {
+        if (!this.running) throw new UploadAbortedError();
+        try {
+          const file = await this.sendChunk();
+          retries = 0;
+          if (file) {
+            localStorage.removeItem(this.storageKey);
+            this.report({ status: "done", uploaded: this.file.size });
+            return file;
+          }
+        } catch (error) {
+          if (error instanceof UploadAbortedError) throw error;
+          if (error instanceof UploadRequestError && error.status === 409 && typeof error.body?.offset === "number") {
+            // Server has a different offset (e.g. a chunk landed but the
+            // response was lost); continue from what it has
+            this.offset = error.body.offset;
+            if (this.offset >= this.file.size) {
+              // The final chunk was stored but its response never arrived
+              localStorage.removeItem(this.storageKey);
+              this.report({ status: "done", uploaded: this.file.size });
+              return null;
+            }
+            continue;
+          }
+          // 409 without an offset means another chunk is still being stored
+          if (error instanceof UploadRequestError && error.status < 500 && error.status !== 409) throw error;
+          if (++retries > MAX_RETRIES) throw error;
+          await sleep(Math.min(1000 * 2 ** retries, 30000));
+          if (!this.running) throw new UploadAbortedError();
+          await this.fetchOffset();
+        }
+      }
+    } catch (error) {
+      if (error instanceof UploadAbortedError) {
+        this.report({ status: "paused" });
+      } else {
+        this.report({
+          status: "error",
+          error: error instanceof Error ? error.message : "Upload failed",
+        });
+      }
+      return null;
+    } finally {
+      this.running = false;
+      this.xhr = null;
+    }
+  }
+
+  pause() {
+    this.running = false;
+    this.xhr?.abort();
+  }
+
+  async cancel() {
+    this.pause();
+    localStorage.removeItem(this.storageKey);
+    if (this.sessionId) {
+      await fetch(`/api/uploads/${this.sessionId}`, {
+        method: "DELETE",
+        credentials: "include",
+      }).catch(() => {});
+    }
+  }
+
+  private async openSession() {
+    this.sessionId ??= localStorage.getItem(this.storageKey);
+    if (this.sessionId) {
+      try {
+        await this.fetchOffset();
+        return;
+      } catch (error) {
+        if (!(error instanceof UploadRequestError && error.status === 404)) throw error;
+        // Expired or cancelled elsewhere; start a fresh session
+      }
+    }
+
+    const res = await fetch("/api/uploads", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify({
+        name: this.file.name,
+        mimeType: this.file.type || null,
+        size: this.file.size,
+        courseId: this.links.courseId || null,
+        classId: this.links.classId || null,
+        folderId: this.links.folderId || null,
+        versionOf: this.links.versionOf || null,
+      }),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new UploadRequestError(res.status, body);
+
+    const session = body as UploadSession;
+    this.sessionId = session.id;
+    this.offset = 0;
+    localStorage.setItem(this.storageKey, session.id);
+    this.report({ uploaded: 0 });
+  }
+
+  private async fetchOffset() {
+    const res = await fetch(`/api/uploads/${this.sessionId}`, {
+      credentials: "include",
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new UploadRequestError(res.status, body);
+    this.offset = (body as UploadSession).offset;
+    this.report({ uploaded: this.offset });
+  }
+
+  // Resolves with the file record once the last chunk is stored
+  private sendChunk(): Promise<FileRecord | null> {
+    const start = this.offset;
+    const chunk = this.file.slice(start, Math.min(start + CHUNK_SIZE, this.file.size));
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      this.xhr = xhr;
+      xhr.open("PATCH", `/api/uploads/${this.sessionId}`);
+      xhr.withCredentials = true;
+      xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+      xhr.setRequestHeader("Upload-Offset", String(start));
+
+      xhr.upload.onprogress = (event) => {
+        this.report({ uploaded: start + event.loaded });
+      };
+      xhr.onload = () => {
+        let body: any = null;
+        try {
+          body = JSON.parse(xhr.responseText);
+        } catch {}
+        if (xhr.status < 200 || xhr.status >= 300) {
+          return reject(new UploadRequestError(xhr.status, body));
+        }
+        this.offset = body.offset;
+        this.report({ uploaded: this.offset });
+        resolve(body.file ?? null);
+      };
+      xhr.onerror = () => reject(new Error("Network error while uploading"));
+      xhr.onabort = () => reject(new UploadAbortedError());
+      xhr.send(chunk);
+    });
+  }
+}
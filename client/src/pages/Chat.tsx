@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef } from "react";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, type InfiniteData } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,6 +10,13 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   MessageCircle, 
   Send, 
@@ -20,16 +29,42 @@ import {
   Settings,
   Clock,
   Check,
-  CheckCheck
+  CheckCheck,
+  Hash,
+  Plus
 } from "lucide-react";
+import type { ChatChannel, Course } from "@shared/schema";
 
 interface ChatMessage {
   id: string;
   senderId: string;
+  receiverId?: string;
+  channelId?: string;
   message: string;
-  timestamp: Date;
-  read: boolean;
-  attachmentUrl?: string;
+  createdAt: string;
+  read?: boolean;
+  attachmentUrl?: string | null;
+}
+
+interface ChatMessagePage {
+  messages: ChatMessage[];
+  nextCursor: string | null;
+}
+
+interface DirectoryUser {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  profileImageUrl: string | null;
+  role: string | null;
+}
+
+interface Conversation {
+  peerId: string;
+  peer: DirectoryUser | null;
+  lastMessage: ChatMessage;
+  unreadCount: number;
 }
 
 interface ChatUser {
@@ -38,103 +73,156 @@ interface ChatUser {
   email: string;
   profileImage?: string;
   role: string;
-  lastActive: Date;
+  online: boolean;
+  lastActive?: Date;
   unreadCount: number;
   lastMessage?: string;
 }
 
+interface PresenceEntry {
+  userId: string;
+  online: boolean;
+  lastSeen: string | null;
+}
+
+// How long a "typing" indicator stays up without a fresh typing event
+const TYPING_TIMEOUT_MS = 5000;
+// How long after the last keystroke we tell the peer we stopped typing
+const TYPING_IDLE_MS = 3000;
+
+const displayName = (user: DirectoryUser) =>
+  [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Unknown user";
+
 export default function Chat() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
   
+  const queryClient = useQueryClient();
   const [selectedUser, setSelectedUser] = useState<ChatUser | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [selectedChannel, setSelectedChannel] = useState<ChatChannel | null>(null);
+  const [isCreatingChannel, setIsCreatingChannel] = useState(false);
+  const [channelCourseId, setChannelCourseId] = useState("");
   const [newMessage, setNewMessage] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [isConnected, setIsConnected] = useState(false);
-  const [isTyping, setIsTyping] = useState(false);
+  const [typingUserIds, setTypingUserIds] = useState<Set<string>>(new Set());
+  const [presence, setPresence] = useState<Record<string, PresenceEntry>>({});
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const wsRef = useRef<WebSocket | null>(null);
+  const typingTimeoutsRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const stopTypingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isTypingSentRef = useRef(false);
 
-  // Mock users for demonstration
-  const [users] = useState<ChatUser[]>([
-    {
-      id: "1",
-      name: "Dr. Anil Kumar",
-      email: "anil.kumar@matsci.edu",
-      role: "teacher",
-      lastActive: new Date(Date.now() - 5 * 60 * 1000), // 5 minutes ago
-      unreadCount: 3,
-      lastMessage: "The physics lab session went well today. Students were very engaged!",
-    },
-    {
-      id: "2",
-      name: "Priya Sharma",
-      email: "priya.sharma@student.edu",
-      role: "student",
-      lastActive: new Date(Date.now() - 15 * 60 * 1000), // 15 minutes ago
-      unreadCount: 0,
-      lastMessage: "Thank you for the additional resources. They're very helpful.",
-    },
-    {
-      id: "3",
-      name: "Prof. Meera Singh",
-      email: "meera.singh@matsci.edu",
-      role: "teacher",
-      lastActive: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
-      unreadCount: 1,
-      lastMessage: "Could we schedule a meeting to discuss the new chemistry curriculum?",
-    },
-    {
-      id: "4",
-      name: "Rahul Mehta",
-      email: "rahul.mehta@student.edu",
-      role: "student",
-      lastActive: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000), // 1 day ago
-      unreadCount: 0,
-      lastMessage: "I have a question about the assignment deadline.",
-    },
-  ]);
-
-  // Mock messages for demonstration
-  const mockMessages: ChatMessage[] = [
-    {
-      id: "1",
-      senderId: "1",
-      message: "Good morning! How are your students doing with the new physics concepts?",
-      timestamp: new Date(Date.now() - 60 * 60 * 1000),
-      read: true,
-    },
-    {
-      id: "2",
-      senderId: user?.id || "current",
-      message: "They're adapting well. Some are struggling with quantum mechanics, but overall progress is good.",
-      timestamp: new Date(Date.now() - 45 * 60 * 1000),
-      read: true,
+  const { data: conversations } = useQuery<Conversation[]>({
+    queryKey: ["/api/chat/conversations"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const { data: directory } = useQuery<DirectoryUser[]>({
+    queryKey: ["/api/chat/users"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const { data: channels } = useQuery<ChatChannel[]>({
+    queryKey: ["/api/chat/channels"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const canCreateChannels = user?.role === 'super_admin' || user?.role === 'teacher';
+  const { data: courses } = useQuery<Course[]>({
+    queryKey: ["/api/courses"],
+    enabled: isAuthenticated && canCreateChannels,
+    retry: false,
+  });
+
+  // The open thread is either a direct conversation or a course channel
+  const threadPath = selectedChannel
+    ? `/api/chat/channels/${selectedChannel.id}`
+    : selectedUser
+      ? `/api/chat/conversations/${selectedUser.id}`
+      : null;
+
+  const {
+    data: messagePages,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<ChatMessagePage, Error, InfiniteData<ChatMessagePage>, unknown[], string | undefined>({
+    queryKey: selectedChannel
+      ? ["/api/chat/channels", selectedChannel.id, "messages"]
+      : ["/api/chat/conversations", selectedUser?.id, "messages"],
+    queryFn: async ({ pageParam }) => {
+      const params = pageParam ? `?before=${encodeURIComponent(pageParam)}` : "";
+      const res = await apiRequest("GET", `${threadPath}/messages${params}`);
+      return await res.json();
     },
-    {
-      id: "3",
-      senderId: "1",
-      message: "That's expected. Quantum mechanics is always challenging for beginners. Would you like me to prepare some additional resources?",
-      timestamp: new Date(Date.now() - 30 * 60 * 1000),
-      read: true,
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!threadPath,
+    retry: false,
+  });
+
+  const createChannelMutation = useMutation({
+    mutationFn: async (courseId: string) => {
+      const res = await apiRequest("POST", "/api/chat/channels", { courseId });
+      return (await res.json()) as ChatChannel;
     },
-    {
-      id: "4",
-      senderId: user?.id || "current",
-      message: "That would be fantastic! Especially some visual demonstrations would help.",
-      timestamp: new Date(Date.now() - 15 * 60 * 1000),
-      read: true,
+    onSuccess: (channel) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/channels"] });
+      setIsCreatingChannel(false);
+      setChannelCourseId("");
+      selectChannel(channel);
     },
-    {
-      id: "5",
-      senderId: "1",
-      message: "The physics lab session went well today. Students were very engaged!",
-      timestamp: new Date(Date.now() - 5 * 60 * 1000),
-      read: false,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create channel. Please try again.",
+        variant: "destructive",
+      });
     },
-  ];
+  });
+
+  const selectUser = (chatUser: ChatUser) => {
+    setSelectedChannel(null);
+    setSelectedUser(chatUser);
+  };
+
+  const selectChannel = (channel: ChatChannel) => {
+    setSelectedUser(null);
+    setSelectedChannel(channel);
+  };
+
+  // Pages are fetched newest first; each page is already in chronological order
+  const messages = [...(messagePages?.pages ?? [])]
+    .reverse()
+    .flatMap((page) => page.messages);
+
+  const sendSocketEvent = (event: Record<string, unknown>) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify(event));
+    }
+  };
+
+  function setUserTyping(userId: string, typing: boolean) {
+    const timeouts = typingTimeoutsRef.current;
+    const existing = timeouts.get(userId);
+    if (existing) clearTimeout(existing);
+    timeouts.delete(userId);
+
+    if (typing) {
+      timeouts.set(userId, setTimeout(() => setUserTyping(userId, false), TYPING_TIMEOUT_MS));
+    }
+    setTypingUserIds(prev => {
+      if (prev.has(userId) === typing) return prev;
+      const next = new Set(prev);
+      if (typing) next.add(userId); else next.delete(userId);
+      return next;
+    });
+  }
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -169,7 +257,69 @@ export default function Chat() {
         try {
           const data = JSON.parse(event.data);
           if (data.type === 'chat') {
-            setMessages(prev => [...prev, data.data]);
+            const message: ChatMessage = data.data;
+            const peerId = message.senderId === user?.id ? message.receiverId : message.senderId;
+
+            // Append to the newest loaded page of that conversation, if loaded
+            queryClient.setQueryData<InfiniteData<ChatMessagePage>>(
+              ["/api/chat/conversations", peerId, "messages"],
+              (existing) => {
+                if (!existing || existing.pages.length === 0) return existing;
+                const [newest, ...older] = existing.pages;
+                if (newest.messages.some((m) => m.id === message.id)) return existing;
+                return {
+                  ...existing,
+                  pages: [{ ...newest, messages: [...newest.messages, message] }, ...older],
+                };
+              },
+            );
+            queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"], exact: true });
+            queryClient.invalidateQueries({ queryKey: ["/api/chat/unread-count"] });
+            setUserTyping(message.senderId, false);
+          } else if (data.type === 'channel_message') {
+            const message: ChatMessage = data.data;
+            queryClient.setQueryData<InfiniteData<ChatMessagePage>>(
+              ["/api/chat/channels", message.channelId, "messages"],
+              (existing) => {
+                if (!existing || existing.pages.length === 0) return existing;
+                const [newest, ...older] = existing.pages;
+                if (newest.messages.some((m) => m.id === message.id)) return existing;
+                return {
+                  ...existing,
+                  pages: [{ ...newest, messages: [...newest.messages, message] }, ...older],
+                };
+              },
+            );
+          } else if (data.type === 'read') {
+            const { readerId, senderId, messageIds } = data.data as {
+              readerId: string;
+              senderId: string;
+              messageIds: string[];
+            };
+            const readIds = new Set(messageIds);
+            const peerId = senderId === user?.id ? readerId : senderId;
+
+            queryClient.setQueryData<InfiniteData<ChatMessagePage>>(
+              ["/api/chat/conversations", peerId, "messages"],
+              (existing) => existing && {
+                ...existing,
+                pages: existing.pages.map((page) => ({
+                  ...page,
+                  messages: page.messages.map((m) => readIds.has(m.id) ? { ...m, read: true } : m),
+                })),
+              },
+            );
+            queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"], exact: true });
+            queryClient.invalidateQueries({ queryKey: ["/api/chat/unread-count"] });
+          } else if (data.type === 'typing') {
+            setUserTyping(data.data.userId, data.data.isTyping);
+          } else if (data.type === 'presence') {
+            const entries: PresenceEntry[] = data.data;
+            setPresence(prev => {
+              const next = { ...prev };
+              entries.forEach((entry) => { next[entry.userId] = entry; });
+              return next;
+            });
           }
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
@@ -194,19 +344,31 @@ export default function Chat() {
     } catch (error) {
       console.error('Failed to connect to WebSocket:', error);
     }
-  }, [isAuthenticated]);
+  }, [isAuthenticated, user?.id, queryClient]);
 
-  // Load mock messages when a user is selected
+  // Clear any pending typing timers on unmount
   useEffect(() => {
-    if (selectedUser) {
-      setMessages(mockMessages);
-    }
-  }, [selectedUser]);
+    const typingTimeouts = typingTimeoutsRef.current;
+    return () => {
+      typingTimeouts.forEach(clearTimeout);
+      if (stopTypingTimeoutRef.current) clearTimeout(stopTypingTimeoutRef.current);
+    };
+  }, []);
 
-  // Scroll to bottom when messages change
+  // Scroll to bottom when a new message arrives
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [lastMessageId]);
+
+  // Mark the open conversation as read whenever it has unread incoming messages
+  const hasUnreadFromSelected = messages.some(
+    (message) => message.senderId === selectedUser?.id && !message.read,
+  );
+  useEffect(() => {
+    if (!selectedUser || !hasUnreadFromSelected || !isConnected) return;
+    sendSocketEvent({ type: 'read', peerId: selectedUser.id });
+  }, [selectedUser?.id, hasUnreadFromSelected, isConnected]);
 
   if (authLoading || !isAuthenticated) {
     return <div className="flex items-center justify-center h-full">
@@ -215,32 +377,51 @@ export default function Chat() {
   }
 
   const sendMessage = () => {
-    if (!newMessage.trim() || !selectedUser || !wsRef.current) return;
-
-    const message: ChatMessage = {
-      id: Date.now().toString(),
-      senderId: user?.id || "current",
-      message: newMessage.trim(),
-      timestamp: new Date(),
-      read: false,
-    };
+    if (!newMessage.trim() || !wsRef.current) return;
 
-    // Add to local messages immediately
-    setMessages(prev => [...prev, message]);
-    
-    // Send via WebSocket
-    if (wsRef.current.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
+    // Send via WebSocket; the server echoes the saved message back to every
+    // open tab of the sender, so it is not added locally here
+    if (selectedChannel) {
+      sendSocketEvent({
+        type: 'channel_message',
+        channelId: selectedChannel.id,
+        content: newMessage.trim(),
+      });
+    } else if (selectedUser) {
+      sendSocketEvent({
         type: 'chat',
-        senderId: user?.id,
         receiverId: selectedUser.id,
         content: newMessage.trim(),
-      }));
+      });
     }
 
+    stopTyping();
     setNewMessage("");
   };
 
+  const stopTyping = () => {
+    if (stopTypingTimeoutRef.current) {
+      clearTimeout(stopTypingTimeoutRef.current);
+      stopTypingTimeoutRef.current = null;
+    }
+    if (isTypingSentRef.current && selectedUser) {
+      sendSocketEvent({ type: 'typing', receiverId: selectedUser.id, isTyping: false });
+    }
+    isTypingSentRef.current = false;
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (!selectedUser) return;
+
+    if (!isTypingSentRef.current && value.trim()) {
+      sendSocketEvent({ type: 'typing', receiverId: selectedUser.id, isTyping: true });
+      isTypingSentRef.current = true;
+    }
+    if (stopTypingTimeoutRef.current) clearTimeout(stopTypingTimeoutRef.current);
+    stopTypingTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -266,6 +447,58 @@ export default function Chat() {
     return date.toLocaleDateString();
   };
 
+  const presenceFor = (userId: string) => {
+    const entry = presence[userId];
+    return {
+      online: !!entry?.online,
+      lastActive: entry?.lastSeen ? new Date(entry.lastSeen) : undefined,
+    };
+  };
+
+  // Conversations first (most recent activity), then everyone else in the directory
+  const conversationUsers: ChatUser[] = (conversations || [])
+    .filter((conversation) => conversation.peer)
+    .map((conversation) => ({
+      id: conversation.peerId,
+      name: displayName(conversation.peer!),
+      email: conversation.peer!.email || "",
+      profileImage: conversation.peer!.profileImageUrl || undefined,
+      role: conversation.peer!.role || "user",
+      ...presenceFor(conversation.peerId),
+      unreadCount: conversation.unreadCount,
+      lastMessage: conversation.lastMessage.message,
+    }));
+  const conversationIds = new Set(conversationUsers.map((chatUser) => chatUser.id));
+  const users: ChatUser[] = [
+    ...conversationUsers,
+    ...(directory || [])
+      .filter((directoryUser) => !conversationIds.has(directoryUser.id))
+      .map((directoryUser) => ({
+        id: directoryUser.id,
+        name: displayName(directoryUser),
+        email: directoryUser.email || "",
+        profileImage: directoryUser.profileImageUrl || undefined,
+        role: directoryUser.role || "user",
+        ...presenceFor(directoryUser.id),
+        unreadCount: 0,
+      })),
+  ];
+
+  // Keep the open conversation's header in sync with live presence
+  const activeUser = selectedUser
+    ? { ...selectedUser, ...presenceFor(selectedUser.id) }
+    : null;
+  const isTyping = !!selectedUser && typingUserIds.has(selectedUser.id);
+
+  const filteredChannels = (channels || []).filter((channel) =>
+    channel.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const senderName = (senderId: string) => {
+    const sender = directory?.find((directoryUser) => directoryUser.id === senderId);
+    return sender ? displayName(sender) : "Unknown user";
+  };
+
   const filteredUsers = users.filter(user =>
     user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     user.email.toLowerCase().includes(searchQuery.toLowerCase())
@@ -307,16 +540,80 @@ export default function Chat() {
               </div>
             </div>
 
-            {/* Users */}
+            {/* Channels & Users */}
             <ScrollArea className="flex-1">
               <div className="p-2 space-y-1">
+                <div className="flex items-center justify-between px-3 pt-2 pb-1">
+                  <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                    Channels
+                  </p>
+                  {canCreateChannels && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setIsCreatingChannel(!isCreatingChannel)}
+                      data-testid="button-new-channel"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                {isCreatingChannel && (
+                  <div className="flex items-center space-x-2 px-3 pb-2">
+                    <Select value={channelCourseId} onValueChange={setChannelCourseId}>
+                      <SelectTrigger className="bg-muted/50" data-testid="select-channel-course">
+                        <SelectValue placeholder="Select course" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {courses?.map((course) => (
+                          <SelectItem key={course.id} value={course.id}>
+                            {course.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      onClick={() => createChannelMutation.mutate(channelCourseId)}
+                      disabled={!channelCourseId || createChannelMutation.isPending}
+                      data-testid="button-create-channel"
+                    >
+                      Create
+                    </Button>
+                  </div>
+                )}
+                {filteredChannels.map((channel) => (
+                  <div
+                    key={channel.id}
+                    className={`p-3 rounded-xl cursor-pointer transition-colors hover:bg-muted/30 ${
+                      selectedChannel?.id === channel.id ? 'bg-primary/10 border border-primary/20' : ''
+                    }`}
+                    onClick={() => selectChannel(channel)}
+                    data-testid={`chat-channel-${channel.id}`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <div className="w-12 h-12 rounded-full bg-secondary/10 flex items-center justify-center">
+                        <Hash className="w-5 h-5 text-secondary" />
+                      </div>
+                      <h4 className="font-semibold text-sm truncate">{channel.name}</h4>
+                    </div>
+                  </div>
+                ))}
+                {filteredChannels.length === 0 && !isCreatingChannel && (
+                  <p className="px-3 pb-2 text-xs text-muted-foreground">No channels yet</p>
+                )}
+
+                <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider px-3 pt-4 pb-1">
+                  Direct Messages
+                </p>
                 {filteredUsers.map((chatUser) => (
                   <div
                     key={chatUser.id}
                     className={`p-3 rounded-xl cursor-pointer transition-colors hover:bg-muted/30 ${
                       selectedUser?.id === chatUser.id ? 'bg-primary/10 border border-primary/20' : ''
                     }`}
-                    onClick={() => setSelectedUser(chatUser)}
+                    onClick={() => selectUser(chatUser)}
                     data-testid={`chat-user-${chatUser.id}`}
                   >
                     <div className="flex items-center space-x-3">
@@ -328,8 +625,7 @@ export default function Chat() {
                           </AvatarFallback>
                         </Avatar>
                         <div className={`absolute -bottom-1 -right-1 w-4 h-4 rounded-full border-2 border-background ${
-                          new Date().getTime() - chatUser.lastActive.getTime() < 5 * 60 * 1000 
-                            ? 'bg-green-500' : 'bg-gray-400'
+                          chatUser.online ? 'bg-green-500' : 'bg-gray-400'
                         }`}></div>
                       </div>
                       
@@ -347,7 +643,9 @@ export default function Chat() {
                             {chatUser.role}
                           </Badge>
                           <span className="text-xs text-muted-foreground">
-                            {formatTime(chatUser.lastActive)}
+                            {chatUser.online
+                              ? 'Online'
+                              : chatUser.lastActive && formatTime(chatUser.lastActive)}
                           </span>
                         </div>
                         {chatUser.lastMessage && (
@@ -366,11 +664,25 @@ export default function Chat() {
 
         {/* Chat Window */}
         <div className="lg:col-span-2">
-          {selectedUser ? (
+          {selectedUser || selectedChannel ? (
             <Card className="glassmorphism neumorphism h-full">
               <CardContent className="p-0 h-full flex flex-col">
                 {/* Chat Header */}
                 <div className="p-4 border-b border-border flex items-center justify-between">
+                  {selectedChannel ? (
+                    <div className="flex items-center space-x-3">
+                      <div className="w-10 h-10 rounded-full bg-secondary/10 flex items-center justify-center">
+                        <Hash className="w-5 h-5 text-secondary" />
+                      </div>
+                      <div>
+                        <h3 className="font-semibold">{selectedChannel.name}</h3>
+                        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                          <Users className="w-3 h-3" />
+                          <span>Course channel</span>
+                        </div>
+                      </div>
+                    </div>
+                  ) : selectedUser && (
                   <div className="flex items-center space-x-3">
                     <Avatar className="w-10 h-10">
                       <AvatarImage src={selectedUser.profileImage} />
@@ -384,11 +696,16 @@ export default function Chat() {
                         <Badge variant="outline" className="text-xs">
                           {selectedUser.role}
                         </Badge>
-                        <span>{formatTime(selectedUser.lastActive)}</span>
+                        <span>
+                          {activeUser?.online
+                            ? 'Online'
+                            : activeUser?.lastActive && `Last seen ${formatTime(activeUser.lastActive)}`}
+                        </span>
                         {isTyping && <span className="text-primary">Typing...</span>}
                       </div>
                     </div>
                   </div>
+                  )}
                   
                   <div className="flex items-center space-x-2">
                     <Button variant="ghost" size="sm" data-testid="button-voice-call">
@@ -406,8 +723,21 @@ export default function Chat() {
                 {/* Messages */}
                 <ScrollArea className="flex-1 p-4">
                   <div className="space-y-4">
+                    {hasNextPage && (
+                      <div className="flex justify-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => fetchNextPage()}
+                          disabled={isFetchingNextPage}
+                          data-testid="button-load-older-messages"
+                        >
+                          {isFetchingNextPage ? "Loading..." : "Load older messages"}
+                        </Button>
+                      </div>
+                    )}
                     {messages.map((message) => {
-                      const isOwn = message.senderId === user?.id || message.senderId === "current";
+                      const isOwn = message.senderId === user?.id;
                       
                       return (
                         <div
@@ -421,13 +751,16 @@ export default function Chat() {
                                 : 'bg-muted'
                             }`}
                           >
+                            {selectedChannel && !isOwn && (
+                              <p className="text-xs font-semibold mb-1">{senderName(message.senderId)}</p>
+                            )}
                             <p className="text-sm">{message.message}</p>
                             <div className={`flex items-center justify-end space-x-1 mt-1 text-xs ${
                               isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'
                             }`}>
                               <Clock className="w-3 h-3" />
-                              <span>{message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                              {isOwn && (
+                              <span>{new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                              {isOwn && !selectedChannel && (
                                 message.read ? (
                                   <CheckCheck className="w-3 h-3 text-primary-foreground/70" />
                                 ) : (
@@ -454,7 +787,7 @@ export default function Chat() {
                         type="text"
                         placeholder="Type a message..."
                         value={newMessage}
-                        onChange={(e) => setNewMessage(e.target.value)}
+                        onChange={(e) => handleMessageChange(e.target.value)}
                         onKeyPress={handleKeyPress}
                         className="bg-muted/50"
                         data-testid="input-message"
@@ -103,13 +103,8 @@ export default function Classes() {
   const userRole = user?.role || 'teacher';
   const userId = user?.id;
 
-  // Filter classes based on user role and filters
+  // Filter classes based on filters; the server only returns a teacher's own classes
   const filteredClasses = (classes || []).filter((classItem: Class) => {
-    // Role-based filtering
-    if (userRole === 'teacher' && classItem.teacherId !== userId) {
-      return false;
-    }
-    
     const course = courses?.find((c: Course) => c.id === classItem.courseId);
     const teacher = teachers?.find((t: any) => t.id === classItem.teacherId);
     
@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
@@ -10,6 +10,20 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import VideoPlayer from "@/components/VideoPlayer";
+import CurriculumEditor from "@/components/CurriculumEditor";
+import CourseProgressBar, { type CourseProgress } from "@/components/CourseProgressBar";
+import CourseStatusBadge, { courseStatusLabel } from "@/components/CourseStatusBadge";
+import CoursePublishingPanel from "@/components/CoursePublishingPanel";
+import CourseDependencyGraph from "@/components/CourseDependencyGraph";
+import CourseStaffPanel, { staffRoleLabel, type CourseStaffReport } from "@/components/CourseStaffPanel";
+import CloneCourseModal from "@/components/modals/CloneCourseModal";
 import {
   BookOpen,
   Users,
@@ -20,10 +34,12 @@ import {
   BarChart3,
   Settings,
   Edit,
+  Copy,
   Trash2,
   ArrowLeft,
+  PlayCircle,
 } from "lucide-react";
-import type { Course } from "@shared/schema";
+import type { Course, File as FileType, SafeUser } from "@shared/schema";
 
 interface CourseDetailsProps {
   courseId: string;
@@ -33,7 +49,7 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   const { toast } = useToast();
 
-  const { data: course, isLoading: courseLoading, error } = useQuery({
+  const { data: course, isLoading: courseLoading, error } = useQuery<Course>({
     queryKey: ["/api/courses", courseId],
     retry: false,
   });
@@ -48,16 +64,36 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
     retry: false,
   });
 
-  const { data: files } = useQuery({
+  const { data: files } = useQuery<FileType[]>({
     queryKey: ["/api/files"],
     retry: false,
+    // Poll while a video is still being scanned or transcoded
+    refetchInterval: (query) =>
+      query.state.data?.some((file) =>
+        file.scanStatus === 'pending' || (file.scanStatus === 'clean' && file.transcodeStatus === 'pending')
+      )
+        ? 10000
+        : false,
+  });
+
+  const [playingFile, setPlayingFile] = useState<FileType | null>(null);
+  const [cloning, setCloning] = useState(false);
+
+  const { data: studentProgress } = useQuery<(CourseProgress & { student: { id: string; name: string; email: string | null } })[]>({
+    queryKey: ["/api/courses", courseId, "progress"],
+    retry: false,
   });
 
-  const { data: teachers } = useQuery({
+  const { data: teachers } = useQuery<SafeUser[]>({
     queryKey: ["/api/teachers"],
     retry: false,
   });
 
+  const { data: staff } = useQuery<CourseStaffReport>({
+    queryKey: ["/api/courses", courseId, "staff"],
+    retry: false,
+  });
+
   // Redirect to login if not authenticated
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -134,15 +170,19 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
   const teacherName = teacher 
     ? (teacher.firstName && teacher.lastName 
         ? `${teacher.firstName} ${teacher.lastName}`
-        : teacher.email)
+        : teacher.email || 'Unknown Teacher')
     : 'Unknown Teacher';
 
   const courseClasses = classes?.filter((c: any) => c.courseId === courseId) || [];
   const courseTests = tests?.filter((t: any) => t.courseId === courseId) || [];
-  const courseMaterials = files?.filter((f: any) => f.courseId === courseId) || [];
+  const courseMaterials = files?.filter((f) => f.courseId === courseId) || [];
 
   const userRole = user?.role || 'teacher';
-  const canEdit = userRole === 'super_admin' || course.teacherId === user?.id;
+  // Teachers may do what their role on the course's staff allows
+  const can = (permission: string) =>
+    userRole === 'super_admin' || (userRole === 'teacher' && !!staff?.permissions.includes(permission));
+  const canEdit = can('course:write');
+  const otherStaff = staff?.members.filter((member) => member.role !== 'lead') ?? [];
 
   return (
     <div className="p-6 space-y-6" data-testid="course-details-content">
@@ -164,6 +204,10 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
               <Edit className="w-4 h-4 mr-2" />
               Edit Course
             </Button>
+            <Button variant="outline" size="sm" onClick={() => setCloning(true)} data-testid="button-clone-course">
+              <Copy className="w-4 h-4 mr-2" />
+              Clone
+            </Button>
             <Button variant="outline" size="sm" className="text-destructive" data-testid="button-delete-course">
               <Trash2 className="w-4 h-4 mr-2" />
               Delete
@@ -190,31 +234,36 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
                     {course.description || 'No description available'}
                   </p>
                 </div>
-                <Badge 
-                  variant={course.status === 'published' ? 'default' : 'secondary'}
-                  className={
-                    course.status === 'published' ? 'bg-green-100 text-green-800' :
-                    course.status === 'draft' ? 'bg-yellow-100 text-yellow-800' :
-                    'bg-gray-100 text-gray-800'
-                  }
-                >
-                  {course.status}
-                </Badge>
+                <CourseStatusBadge status={course.status} />
               </div>
 
               <div className="flex items-center space-x-6 mb-6">
                 <div className="flex items-center space-x-3">
                   <Avatar className="w-10 h-10">
-                    <AvatarImage src={teacher?.profileImageUrl} />
+                    <AvatarImage src={teacher?.profileImageUrl ?? undefined} />
                     <AvatarFallback className="bg-primary/10 text-primary">
                       {teacherName.split(' ').map(n => n[0]).join('').toUpperCase()}
                     </AvatarFallback>
                   </Avatar>
                   <div>
                     <p className="font-medium">{teacherName}</p>
-                    <p className="text-sm text-muted-foreground">Instructor</p>
+                    <p className="text-sm text-muted-foreground">Lead Instructor</p>
                   </div>
                 </div>
+
+                {otherStaff.length > 0 && (
+                  <>
+                    <Separator orientation="vertical" className="h-12" />
+                    <div className="space-y-1" data-testid="course-staff-summary">
+                      <p className="text-sm text-muted-foreground">Staff</p>
+                      <p className="font-semibold">
+                        {otherStaff
+                          .map((member) => `${member.user?.firstName || member.user?.email || 'Unknown'} (${staffRoleLabel(member.role)})`)
+                          .join(', ')}
+                      </p>
+                    </div>
+                  </>
+                )}
                 
                 <Separator orientation="vertical" className="h-12" />
                 
@@ -267,13 +316,16 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
 
       {/* Content Tabs */}
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-6 lg:w-auto">
+        <TabsList className="grid w-full grid-cols-9 lg:w-auto">
           <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
+          <TabsTrigger value="curriculum" data-testid="tab-curriculum">Curriculum</TabsTrigger>
           <TabsTrigger value="students" data-testid="tab-students">Students</TabsTrigger>
           <TabsTrigger value="classes" data-testid="tab-classes">Classes</TabsTrigger>
           <TabsTrigger value="tests" data-testid="tab-tests">Tests</TabsTrigger>
           <TabsTrigger value="materials" data-testid="tab-materials">Materials</TabsTrigger>
           <TabsTrigger value="analytics" data-testid="tab-analytics">Analytics</TabsTrigger>
+          <TabsTrigger value="publishing" data-testid="tab-publishing">Publishing</TabsTrigger>
+          <TabsTrigger value="staff" data-testid="tab-staff">Staff</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -305,15 +357,15 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Created:</span>
-                        <span>{new Date(course.createdAt).toLocaleDateString()}</span>
+                        <span>{course.createdAt ? new Date(course.createdAt).toLocaleDateString() : '-'}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Last Updated:</span>
-                        <span>{new Date(course.updatedAt).toLocaleDateString()}</span>
+                        <span>{course.updatedAt ? new Date(course.updatedAt).toLocaleDateString() : '-'}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Status:</span>
-                        <Badge variant="outline">{course.status}</Badge>
+                        <Badge variant="outline">{courseStatusLabel(course.status)}</Badge>
                       </div>
                     </div>
                   </div>
@@ -341,6 +393,18 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
               </div>
             </CardContent>
           </Card>
+
+          <CourseDependencyGraph course={course} canEdit={canEdit} />
+        </TabsContent>
+
+        <TabsContent value="curriculum" className="space-y-6">
+          <CurriculumEditor
+            courseId={courseId}
+            canEdit={can('curriculum:write')}
+            files={courseMaterials}
+            classes={courseClasses}
+            tests={courseTests}
+          />
         </TabsContent>
 
         <TabsContent value="students" className="space-y-6">
@@ -348,10 +412,10 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
             <CardContent className="p-6">
               <div className="flex items-center justify-between mb-6">
                 <h3 className="font-semibold text-lg">Enrolled Students</h3>
-                <Badge variant="outline">{course.enrolledCount || 0} students</Badge>
+                <Badge variant="outline">{studentProgress?.length ?? course.enrolledCount ?? 0} students</Badge>
               </div>
               
-              {(course.enrolledCount || 0) === 0 ? (
+              {!studentProgress || studentProgress.length === 0 ? (
                 <div className="text-center py-12">
                   <Users className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
                   <h4 className="font-medium text-lg mb-2">No students enrolled yet</h4>
@@ -360,12 +424,29 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
                   </p>
                 </div>
               ) : (
-                <div className="text-center py-12">
-                  <Users className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-                  <h4 className="font-medium text-lg mb-2">Student data not available</h4>
-                  <p className="text-muted-foreground">
-                    Student enrollment details will be displayed here when data is available.
-                  </p>
+                <div className="space-y-4">
+                  {studentProgress.map((entry) => (
+                    <div
+                      key={entry.studentId}
+                      className="flex items-center justify-between p-4 border border-border rounded-xl"
+                      data-testid={`student-progress-${entry.studentId}`}
+                    >
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <Avatar className="w-10 h-10">
+                          <AvatarFallback className="bg-primary/10 text-primary">
+                            {entry.student.name.split(' ').map(n => n[0]).join('').toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{entry.student.name}</p>
+                          <p className="text-sm text-muted-foreground truncate">{entry.student.email}</p>
+                        </div>
+                      </div>
+                      <div className="w-64 shrink-0">
+                        <CourseProgressBar progress={entry} />
+                      </div>
+                    </div>
+                  ))}
                 </div>
               )}
             </CardContent>
@@ -493,12 +574,16 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {courseMaterials.map((file: any) => (
+                  {courseMaterials.map((file) => (
                     <div key={file.id} className="p-4 border border-border rounded-xl hover:bg-muted/30 transition-colors">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-3">
                           <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center">
-                            <FileText className="w-5 h-5 text-primary" />
+                            {file.type === 'video' ? (
+                              <PlayCircle className="w-5 h-5 text-primary" />
+                            ) : (
+                              <FileText className="w-5 h-5 text-primary" />
+                            )}
                           </div>
                           <div>
                             <h4 className="font-medium">{file.name}</h4>
@@ -507,7 +592,25 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
                             </p>
                           </div>
                         </div>
-                        <Button variant="ghost" size="sm">View</Button>
+                        {file.scanStatus === 'infected' || file.scanStatus === 'failed' ? (
+                          <Badge variant="destructive" data-testid={`status-scan-${file.id}`}>Blocked</Badge>
+                        ) : file.type === 'video' && file.transcodeStatus === 'pending' ? (
+                          <Badge variant="secondary" data-testid={`status-transcoding-${file.id}`}>Processing video...</Badge>
+                        ) : file.type === 'video' && file.transcodeStatus === 'failed' ? (
+                          <Badge variant="destructive" data-testid={`status-transcoding-${file.id}`}>Processing failed</Badge>
+                        ) : file.type === 'video' && file.transcodeStatus === 'ready' ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPlayingFile(file)}
+                            data-testid={`button-play-${file.id}`}
+                          >
+                            <PlayCircle className="w-4 h-4 mr-2" />
+                            Play
+                          </Button>
+                        ) : (
+                          <Button variant="ghost" size="sm">View</Button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -532,7 +635,35 @@ export default function CourseDetails({ courseId }: CourseDetailsProps) {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="publishing" className="space-y-6">
+          <CoursePublishingPanel
+            course={course}
+            canEdit={canEdit}
+            canApprove={userRole === 'super_admin'}
+            canComment={can('course:read') || userRole === 'support'}
+          />
+        </TabsContent>
+
+        <TabsContent value="staff" className="space-y-6">
+          <CourseStaffPanel course={course} canManage={canEdit} teachers={teachers ?? []} />
+        </TabsContent>
       </Tabs>
+
+      <CloneCourseModal
+        course={cloning ? course : null}
+        teachers={userRole === 'super_admin' ? teachers : undefined}
+        onClose={() => setCloning(false)}
+      />
+
+      <Dialog open={!!playingFile} onOpenChange={(open) => !open && setPlayingFile(null)}>
+        <DialogContent className="max-w-4xl" data-testid="modal-video-player">
+          <DialogHeader>
+            <DialogTitle className="font-heading font-bold text-xl break-all">{playingFile?.name}</DialogTitle>
+          </DialogHeader>
+          {playingFile && <VideoPlayer fileId={playingFile.id} title={playingFile.name} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -35,6 +35,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import CreateCourseModal from "@/components/modals/CreateCourseModal";
+import CourseStatusBadge from "@/components/CourseStatusBadge";
+import LearningPaths from "@/components/LearningPaths";
+import RatingStars, { type RatingSummary } from "@/components/RatingStars";
 import { 
   Plus, 
   Search, 
@@ -62,7 +65,7 @@ export default function Courses() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [viewMode, setViewMode] = useState<"grid" | "table">("table");
 
-  const { data: courses, isLoading: coursesLoading, error } = useQuery({
+  const { data: courses, isLoading: coursesLoading, error } = useQuery<Course[]>({
     queryKey: ["/api/courses"],
     retry: false,
   });
@@ -72,6 +75,11 @@ export default function Courses() {
     retry: false,
   });
 
+  const { data: ratings } = useQuery<(RatingSummary & { courseId: string })[]>({
+    queryKey: ["/api/course-ratings"],
+    retry: false,
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (courseId: string) => {
       return await apiRequest("DELETE", `/api/courses/${courseId}`);
@@ -146,7 +154,7 @@ export default function Courses() {
     const matchesSearch = course.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          course.description?.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesTeacher = teacherFilter === "all" || course.teacherId === teacherFilter;
-    const matchesStatus = statusFilter === "all" || course.status === statusFilter;
+    const matchesStatus = statusFilter === "all" || (course.status || "draft") === statusFilter;
     
     return matchesSearch && matchesTeacher && matchesStatus;
   });
@@ -223,6 +231,7 @@ export default function Courses() {
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="published">Published</SelectItem>
+                  <SelectItem value="in_review">In Review</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
                   <SelectItem value="archived">Archived</SelectItem>
                 </SelectContent>
@@ -367,16 +376,7 @@ export default function Courses() {
                         </span>
                       </TableCell>
                       <TableCell>
-                        <Badge variant={
-                          course.status === 'published' ? 'default' : 
-                          course.status === 'draft' ? 'secondary' : 'outline'
-                        } className={
-                          course.status === 'published' ? 'bg-green-100 text-green-800' :
-                          course.status === 'draft' ? 'bg-yellow-100 text-yellow-800' :
-                          'bg-gray-100 text-gray-800'
-                        }>
-                          {course.status}
-                        </Badge>
+                        <CourseStatusBadge status={course.status} />
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end space-x-2">
@@ -452,6 +452,8 @@ export default function Courses() {
                       <span className="text-sm font-medium">{teacherName}</span>
                     </div>
 
+                    <RatingStars rating={ratings?.find((rating) => rating.courseId === course.id)} />
+
                     <div className="flex items-center justify-between">
                       <div>
                         <span className="font-bold text-lg">₹{parseFloat(course.price || '0').toLocaleString('en-IN')}</span>
@@ -461,16 +463,7 @@ export default function Courses() {
                           </Badge>
                         )}
                       </div>
-                      <Badge variant={
-                        course.status === 'published' ? 'default' : 
-                        course.status === 'draft' ? 'secondary' : 'outline'
-                      } className={
-                        course.status === 'published' ? 'bg-green-100 text-green-800' :
-                        course.status === 'draft' ? 'bg-yellow-100 text-yellow-800' :
-                        'bg-gray-100 text-gray-800'
-                      }>
-                        {course.status}
-                      </Badge>
+                      <CourseStatusBadge status={course.status} />
                     </div>
 
                     <div className="flex items-center justify-between text-sm text-muted-foreground">
@@ -491,6 +484,8 @@ export default function Courses() {
         </div>
       )}
 
+      <LearningPaths courses={courses || []} canEdit={userRole === 'super_admin'} />
+
       {/* Modals */}
       <CreateCourseModal 
         isOpen={isCreateModalOpen} 
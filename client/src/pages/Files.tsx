@@ -1,14 +1,38 @@
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
+import { ResumableUpload, type UploadLinks, type UploadProgress } from "@/lib/resumableUpload";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import FileHistoryModal from "@/components/modals/FileHistoryModal";
+import FileDetailsPanel from "@/components/FileDetailsPanel";
+import MoveFilesModal from "@/components/modals/MoveFilesModal";
+import QuotaMeter from "@/components/QuotaMeter";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Select,
   SelectContent,
@@ -36,9 +60,20 @@ import {
   Image,
   Archive,
   Grid,
-  List
+  List,
+  Pause,
+  Play,
+  X,
+  History,
+  Folder,
+  FolderPlus,
+  FolderInput,
+  Copy,
+  ShieldAlert,
+  ShieldQuestion,
+  RefreshCw
 } from "lucide-react";
-import type { File as FileType, Course, Class } from "@shared/schema";
+import type { File as FileType, Course, Class, FileFolder } from "@shared/schema";
 
 export default function Files() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
@@ -51,22 +86,217 @@ export default function Files() {
   const [courseFilter, setCourseFilter] = useState("all");
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<globalThis.File[]>([]);
+  const [uploadQueue, setUploadQueue] = useState<{ id: string; name: string; progress: UploadProgress }[]>([]);
+  const uploadsRef = useRef(new Map<string, ResumableUpload>());
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+  const [detailsFileId, setDetailsFileId] = useState<string | null>(null);
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  const [selectedFolders, setSelectedFolders] = useState<string[]>([]);
+  const [moveMode, setMoveMode] = useState<"move" | "copy" | null>(null);
+  const [isFolderModalOpen, setIsFolderModalOpen] = useState(false);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [bulkDeleteOpen, setBulkDeleteOpen] = useState(false);
+  const [uploadCourseId, setUploadCourseId] = useState("");
+  const [uploadClassId, setUploadClassId] = useState("");
 
-  const { data: files, isLoading: filesLoading, error } = useQuery({
+  const { data: files, isLoading: filesLoading, error } = useQuery<FileType[]>({
     queryKey: ["/api/files"],
     retry: false,
+    // Keep checking while files are scanned, thumbnails generated or videos
+    // transcoded. Those only start once the scan has passed.
+    refetchInterval: (query) =>
+      query.state.data?.some((file) =>
+        file.scanStatus === 'pending' ||
+        (file.scanStatus === 'clean' && (file.previewStatus === 'pending' || file.transcodeStatus === 'pending'))
+      )
+        ? 5000
+        : false,
   });
 
-  const { data: courses } = useQuery({
+  const { data: courses } = useQuery<Course[]>({
     queryKey: ["/api/courses"],
     retry: false,
   });
 
-  const { data: classes } = useQuery({
+  const { data: folders = [] } = useQuery<FileFolder[]>({
+    queryKey: ["/api/files", "folders"],
+    retry: false,
+  });
+
+  const { data: classes } = useQuery<Class[]>({
     queryKey: ["/api/classes"],
     retry: false,
   });
 
+  const openUploadModal = () => {
+    setUploadCourseId(courseFilter === "all" ? "" : courseFilter);
+    setIsUploadModalOpen(true);
+  };
+
+  const closeUploadModal = () => {
+    setIsUploadModalOpen(false);
+    setPendingFiles([]);
+    setUploadCourseId("");
+    setUploadClassId("");
+  };
+
+  const updateQueueItem = (id: string, progress: UploadProgress) => {
+    setUploadQueue((queue) =>
+      queue.map((item) => (item.id === id ? { ...item, progress } : item)),
+    );
+    if (progress.status === "done") {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+    }
+  };
+
+  const runUpload = async (id: string) => {
+    const file = await uploadsRef.current.get(id)?.start();
+    if (file) {
+      toast({
+        title: "Success",
+        description: `File "${file.name}" uploaded successfully!`,
+      });
+    }
+  };
+
+  const enqueueUploads = (selected: globalThis.File[], links: UploadLinks) => {
+    const items = selected.map((file) => {
+      const id = crypto.randomUUID();
+      uploadsRef.current.set(
+        id,
+        new ResumableUpload(file, links, (progress) => updateQueueItem(id, progress)),
+      );
+      return { id, name: file.name, progress: { status: "pending" as const, uploaded: 0, total: file.size } };
+    });
+
+    setUploadQueue((queue) => [...queue, ...items]);
+    items.forEach((item) => runUpload(item.id));
+  };
+
+  const startUploads = () => {
+    enqueueUploads(pendingFiles, {
+      courseId: uploadCourseId || undefined,
+      classId: uploadClassId || undefined,
+      // Uploads land in the open folder unless another course was picked
+      folderId: uploadCourseId && uploadCourseId === courseFilter ? currentFolderId ?? undefined : undefined,
+    });
+    closeUploadModal();
+  };
+
+  const pauseUpload = (id: string) => {
+    uploadsRef.current.get(id)?.pause();
+  };
+
+  const dismissUpload = (id: string) => {
+    uploadsRef.current.delete(id);
+    setUploadQueue((queue) => queue.filter((item) => item.id !== id));
+  };
+
+  const cancelUpload = (id: string) => {
+    uploadsRef.current.get(id)?.cancel();
+    dismissUpload(id);
+  };
+
+  // Stop in-flight uploads when leaving the page; they resume from the saved
+  // offset when the same files are picked again
+  useEffect(() => {
+    const uploads = uploadsRef.current;
+    return () => uploads.forEach((upload) => upload.pause());
+  }, []);
+
+  const clearSelection = () => {
+    setSelectedFiles([]);
+    setSelectedFolders([]);
+  };
+
+  const createFolderMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/files/folders", {
+        name: newFolderName.trim(),
+        courseId: courseFilter,
+        parentId: currentFolderId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files", "folders"] });
+      setIsFolderModalOpen(false);
+      setNewFolderName("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create folder. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bulkDeleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/files/bulk/delete", {
+        fileIds: selectedFiles,
+        folderIds: selectedFolders,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      toast({
+        title: "Success",
+        description: "Selected items deleted successfully!",
+      });
+      clearSelection();
+      setBulkDeleteOpen(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete selected items. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (fileId: string) => {
+      await apiRequest("DELETE", `/api/files/${fileId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      toast({
+        title: "Success",
+        description: "File deleted successfully!",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete file. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rescanMutation = useMutation({
+    mutationFn: async (fileId: string) => {
+      await apiRequest("POST", `/api/files/${fileId}/scan`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      toast({
+        title: "Success",
+        description: "File queued for another malware scan.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to rescan file. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Redirect to login if not authenticated
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -110,17 +340,66 @@ export default function Files() {
     const matchesType = typeFilter === "all" || file.type === typeFilter;
     const matchesCourse = courseFilter === "all" || file.courseId === courseFilter;
     
-    // Role-based filtering for teachers
-    if (userRole === 'teacher') {
-      const course = courses?.find((c: Course) => c.id === file.courseId);
-      if (course && course.teacherId !== user?.id) {
-        return false;
-      }
-    }
-    
     return matchesSearch && matchesType && matchesCourse;
   });
 
+  // What the folder browser shows. A search or type filter lists matches from
+  // every folder;
+  // otherwise the top level shows courses and unlinked files, and a course
+  // shows the folders and files at the current level.
+  const isFiltering = searchQuery.trim() !== "" || typeFilter !== "all";
+  const inCourse = courseFilter !== "all";
+  const visibleCourses = !inCourse && !isFiltering ? courses ?? [] : [];
+  const visibleFolders = inCourse && !isFiltering
+    ? folders.filter(folder => folder.courseId === courseFilter && (folder.parentId ?? null) === currentFolderId)
+    : [];
+  const visibleFiles = isFiltering
+    ? filteredFiles
+    : filteredFiles.filter(file =>
+        inCourse ? (file.folderId ?? null) === currentFolderId : !file.courseId
+      );
+
+  const folderTrail: FileFolder[] = [];
+  for (
+    let folder = folders.find(f => f.id === currentFolderId);
+    folder;
+    folder = folders.find(f => f.id === folder!.parentId)
+  ) {
+    folderTrail.unshift(folder);
+  }
+
+  const selectionCount = selectedFiles.length + selectedFolders.length;
+  const detailsFile = files?.find(file => file.id === detailsFileId) ?? null;
+
+  // Files stay quarantined until the malware scan passes
+  const getScanBadge = (file: FileType) => {
+    switch (file.scanStatus) {
+      case 'clean':
+        return null;
+      case 'infected':
+        return (
+          <Badge variant="destructive" title={file.scanSignature ?? undefined} data-testid={`status-scan-${file.id}`}>
+            <ShieldAlert className="w-3 h-3 mr-1" />
+            Infected
+          </Badge>
+        );
+      case 'failed':
+        return (
+          <Badge variant="outline" className="text-destructive border-destructive" data-testid={`status-scan-${file.id}`}>
+            <ShieldQuestion className="w-3 h-3 mr-1" />
+            Scan failed
+          </Badge>
+        );
+      default:
+        return (
+          <Badge variant="secondary" data-testid={`status-scan-${file.id}`}>
+            <ShieldQuestion className="w-3 h-3 mr-1" />
+            Scanning...
+          </Badge>
+        );
+    }
+  };
+
   const getFileIcon = (type: string) => {
     switch (type) {
       case 'pdf':
@@ -155,17 +434,38 @@ export default function Files() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      // TODO: Implement actual file upload
+  // Downloads need a short-lived signed link. The tab is opened before the
+  // request so popup blockers still treat it as a user action.
+  const openFile = async (fileId: string, inline: boolean, version?: number) => {
+    const tab = window.open('', '_blank');
+    try {
+      const params = new URLSearchParams();
+      if (inline) params.set('inline', '1');
+      if (version) params.set('version', String(version));
+      const res = await apiRequest("GET", `/api/files/${fileId}/url?${params}`);
+      const { url } = await res.json();
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+    } catch (error) {
+      tab?.close();
       toast({
-        title: "File Upload",
-        description: `File "${file.name}" selected for upload. Upload functionality to be implemented.`,
+        title: "Error",
+        description: "Failed to open file. Please try again.",
+        variant: "destructive",
       });
     }
   };
 
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    if (selected.length > 0) {
+      setPendingFiles(selected);
+    }
+  };
+
   const toggleFileSelection = (fileId: string) => {
     setSelectedFiles(prev => 
       prev.includes(fileId) 
@@ -174,13 +474,35 @@ export default function Files() {
     );
   };
 
-  const handleBulkDelete = () => {
-    if (selectedFiles.length > 0) {
+  const toggleFolderSelection = (folderId: string) => {
+    setSelectedFolders(prev =>
+      prev.includes(folderId)
+        ? prev.filter(id => id !== folderId)
+        : [...prev, folderId]
+    );
+  };
+
+  // Entering a course or folder starts a fresh selection
+  const openLocation = (courseId: string, folderId: string | null) => {
+    setCourseFilter(courseId);
+    setCurrentFolderId(folderId);
+    clearSelection();
+  };
+
+  const downloadSelection = async () => {
+    try {
+      const res = await apiRequest("POST", "/api/files/bulk/download", {
+        fileIds: selectedFiles,
+        folderIds: selectedFolders,
+      });
+      const { url } = await res.json();
+      window.location.href = url;
+    } catch (error) {
       toast({
-        title: "Bulk Delete",
-        description: `${selectedFiles.length} files selected for deletion. This functionality will be implemented.`,
+        title: "Error",
+        description: "Failed to download selected items. Please try again.",
+        variant: "destructive",
       });
-      setSelectedFiles([]);
     }
   };
 
@@ -193,20 +515,49 @@ export default function Files() {
           <p className="text-muted-foreground">
             {userRole === 'teacher' ? 'Manage your course materials and resources' : 'Oversee all files and learning materials'}
           </p>
+          <div className="mt-3 max-w-xs">
+            <QuotaMeter />
+          </div>
         </div>
         <div className="flex items-center space-x-2">
-          {selectedFiles.length > 0 && (
-            <Button 
-              variant="outline" 
-              onClick={handleBulkDelete}
-              data-testid="button-bulk-delete"
-            >
-              <Trash2 className="w-4 h-4 mr-2" />
-              Delete ({selectedFiles.length})
-            </Button>
+          {selectionCount > 0 && (
+            <>
+              <Button
+                variant="outline"
+                onClick={downloadSelection}
+                data-testid="button-bulk-download"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setMoveMode("move")}
+                data-testid="button-bulk-move"
+              >
+                <FolderInput className="w-4 h-4 mr-2" />
+                Move
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setMoveMode("copy")}
+                data-testid="button-bulk-copy"
+              >
+                <Copy className="w-4 h-4 mr-2" />
+                Copy
+              </Button>
+              <Button 
+                variant="outline" 
+                onClick={() => setBulkDeleteOpen(true)}
+                data-testid="button-bulk-delete"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete ({selectionCount})
+              </Button>
+            </>
           )}
           <Button 
-            onClick={() => setIsUploadModalOpen(true)}
+            onClick={openUploadModal}
             className="flex items-center space-x-2"
             data-testid="button-upload-file"
           >
@@ -216,6 +567,66 @@ export default function Files() {
         </div>
       </div>
 
+      {/* Upload Queue */}
+      {uploadQueue.length > 0 && (
+        <Card className="glassmorphism neumorphism" data-testid="upload-queue">
+          <CardContent className="p-6 space-y-4">
+            <h3 className="font-semibold">Uploads</h3>
+            {uploadQueue.map((item) => {
+              const { status, uploaded, total, error } = item.progress;
+              const percent = total > 0 ? Math.round((uploaded / total) * 100) : 100;
+              return (
+                <div key={item.id} className="space-y-2" data-testid={`upload-item-${item.id}`}>
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.name}</p>
+                      <p className={`text-xs ${status === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {status === 'error'
+                          ? error
+                          : status === 'done'
+                            ? `Uploaded ${formatFileSize(total)}`
+                            : `${formatFileSize(uploaded)} of ${formatFileSize(total)} (${percent}%)${status === 'paused' ? ' - paused' : ''}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1 shrink-0">
+                      {(status === 'uploading' || status === 'pending') && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => pauseUpload(item.id)}
+                          data-testid={`button-pause-upload-${item.id}`}
+                        >
+                          <Pause className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {(status === 'paused' || status === 'error') && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => runUpload(item.id)}
+                          data-testid={`button-resume-upload-${item.id}`}
+                        >
+                          <Play className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => status === 'done' ? dismissUpload(item.id) : cancelUpload(item.id)}
+                        data-testid={`button-cancel-upload-${item.id}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Progress value={percent} className="h-2" />
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Statistics Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card className="glassmorphism neumorphism">
@@ -311,7 +722,7 @@ export default function Files() {
                 </SelectContent>
               </Select>
 
-              <Select value={courseFilter} onValueChange={setCourseFilter}>
+              <Select value={courseFilter} onValueChange={(value) => openLocation(value, null)}>
                 <SelectTrigger className="w-48 bg-muted/50" data-testid="select-course-filter">
                   <SelectValue placeholder="All Courses" />
                 </SelectTrigger>
@@ -348,6 +759,62 @@ export default function Files() {
         </CardContent>
       </Card>
 
+      {/* Breadcrumbs */}
+      <div className="flex items-center justify-between">
+        <Breadcrumb data-testid="breadcrumb-files">
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              {inCourse ? (
+                <BreadcrumbLink className="cursor-pointer" onClick={() => openLocation("all", null)}>
+                  All Files
+                </BreadcrumbLink>
+              ) : (
+                <BreadcrumbPage>All Files</BreadcrumbPage>
+              )}
+            </BreadcrumbItem>
+            {inCourse && (
+              <>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  {currentFolderId ? (
+                    <BreadcrumbLink className="cursor-pointer" onClick={() => openLocation(courseFilter, null)}>
+                      {courses?.find(c => c.id === courseFilter)?.title ?? 'Course'}
+                    </BreadcrumbLink>
+                  ) : (
+                    <BreadcrumbPage>{courses?.find(c => c.id === courseFilter)?.title ?? 'Course'}</BreadcrumbPage>
+                  )}
+                </BreadcrumbItem>
+              </>
+            )}
+            {folderTrail.map((folder, index) => (
+              <Fragment key={folder.id}>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  {index === folderTrail.length - 1 ? (
+                    <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+                  ) : (
+                    <BreadcrumbLink className="cursor-pointer" onClick={() => openLocation(courseFilter, folder.id)}>
+                      {folder.name}
+                    </BreadcrumbLink>
+                  )}
+                </BreadcrumbItem>
+              </Fragment>
+            ))}
+          </BreadcrumbList>
+        </Breadcrumb>
+        {inCourse && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsFolderModalOpen(true)}
+            data-testid="button-new-folder"
+          >
+            <FolderPlus className="w-4 h-4 mr-2" />
+            New Folder
+          </Button>
+        )}
+      </div>
+
       {/* Content */}
       {filesLoading ? (
         <Card className="glassmorphism neumorphism">
@@ -359,7 +826,7 @@ export default function Files() {
             </div>
           </CardContent>
         </Card>
-      ) : filteredFiles.length === 0 ? (
+      ) : visibleFiles.length === 0 && visibleFolders.length === 0 && visibleCourses.length === 0 ? (
         <Card className="glassmorphism neumorphism">
           <CardContent className="p-12 text-center">
             <FolderOpen className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
@@ -367,11 +834,13 @@ export default function Files() {
             <p className="text-muted-foreground mb-6">
               {files?.length === 0 
                 ? "No files have been uploaded yet. Upload your first file to get started."
-                : "No files match your current filters. Try adjusting your search criteria."
+                : inCourse && !isFiltering
+                  ? "This folder is empty. Upload files or create a folder to get started."
+                  : "No files match your current filters. Try adjusting your search criteria."
               }
             </p>
             {files?.length === 0 && (
-              <Button onClick={() => setIsUploadModalOpen(true)} data-testid="button-upload-first-file">
+              <Button onClick={openUploadModal} data-testid="button-upload-first-file">
                 <Upload className="w-4 h-4 mr-2" />
                 Upload First File
               </Button>
@@ -380,7 +849,62 @@ export default function Files() {
         </Card>
       ) : viewMode === "grid" ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {filteredFiles.map((file: FileType) => {
+          {visibleCourses.map((course) => (
+            <Card
+              key={course.id}
+              className="glassmorphism neumorphism hover:shadow-lg transition-all cursor-pointer"
+              onClick={() => openLocation(course.id, null)}
+              data-testid={`card-course-folder-${course.id}`}
+            >
+              <CardContent className="p-6">
+                <div className="flex flex-col items-center space-y-4">
+                  <div className="w-16 h-16 bg-primary/10 rounded-xl flex items-center justify-center">
+                    <FolderOpen className="w-8 h-8 text-primary" />
+                  </div>
+                  <div className="text-center w-full">
+                    <h3 className="font-semibold text-sm line-clamp-2 mb-1">{course.title}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      {(files ?? []).filter(f => f.courseId === course.id).length} files
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {visibleFolders.map((folder) => {
+            const isSelected = selectedFolders.includes(folder.id);
+            return (
+              <Card
+                key={folder.id}
+                className={`glassmorphism neumorphism hover:shadow-lg transition-all cursor-pointer ${
+                  isSelected ? 'ring-2 ring-primary' : ''
+                }`}
+                onClick={() => openLocation(courseFilter, folder.id)}
+                data-testid={`card-folder-${folder.id}`}
+              >
+                <CardContent className="p-6 relative">
+                  <input
+                    type="checkbox"
+                    className="absolute top-4 left-4"
+                    checked={isSelected}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => toggleFolderSelection(folder.id)}
+                    data-testid={`checkbox-folder-${folder.id}`}
+                  />
+                  <div className="flex flex-col items-center space-y-4">
+                    <div className="w-16 h-16 bg-muted/30 rounded-xl flex items-center justify-center">
+                      <Folder className="w-8 h-8 text-yellow-500" />
+                    </div>
+                    <div className="text-center w-full">
+                      <h3 className="font-semibold text-sm line-clamp-2 mb-1">{folder.name}</h3>
+                      <p className="text-xs text-muted-foreground">Folder</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+          {visibleFiles.map((file: FileType) => {
             const course = courses?.find((c: Course) => c.id === file.courseId);
             const classData = classes?.find((c: Class) => c.id === file.classId);
             const isSelected = selectedFiles.includes(file.id);
@@ -396,8 +920,18 @@ export default function Files() {
               >
                 <CardContent className="p-6">
                   <div className="flex flex-col items-center space-y-4">
-                    <div className="w-16 h-16 bg-muted/30 rounded-xl flex items-center justify-center">
-                      {getFileIcon(file.type || '')}
+                    <div className="w-16 h-16 bg-muted/30 rounded-xl flex items-center justify-center overflow-hidden">
+                      {file.previewStatus === 'ready' ? (
+                        <img
+                          src={`/api/files/${file.id}/thumbnail?v=${file.currentVersion}`}
+                          alt=""
+                          loading="lazy"
+                          className="w-full h-full object-cover"
+                          data-testid={`thumbnail-${file.id}`}
+                        />
+                      ) : (
+                        getFileIcon(file.type || '')
+                      )}
                     </div>
                     
                     <div className="text-center w-full">
@@ -421,6 +955,9 @@ export default function Files() {
                       <Badge variant="outline" className="w-full justify-center text-xs">
                         {file.type?.toUpperCase() || 'Unknown'}
                       </Badge>
+                      {file.scanStatus !== 'clean' && (
+                        <div className="flex justify-center">{getScanBadge(file)}</div>
+                      )}
                     </div>
 
                     <div className="flex items-center justify-center space-x-2 w-full">
@@ -429,10 +966,7 @@ export default function Files() {
                         size="sm"
                         onClick={(e) => {
                           e.stopPropagation();
-                          toast({
-                            title: "File Preview",
-                            description: `Preview for "${file.name}" will be implemented.`,
-                          });
+                          setDetailsFileId(file.id);
                         }}
                         data-testid={`button-preview-${file.id}`}
                       >
@@ -443,23 +977,48 @@ export default function Files() {
                         size="sm"
                         onClick={(e) => {
                           e.stopPropagation();
-                          window.open(file.url, '_blank');
+                          openFile(file.id, false);
                         }}
+                        disabled={file.scanStatus !== 'clean'}
                         data-testid={`button-download-${file.id}`}
                       >
                         <Download className="w-4 h-4" />
                       </Button>
+                      {(file.scanStatus === 'failed' || file.scanStatus === 'infected') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            rescanMutation.mutate(file.id);
+                          }}
+                          disabled={rescanMutation.isPending}
+                          title="Scan again"
+                          data-testid={`button-rescan-${file.id}`}
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setHistoryFileId(file.id);
+                        }}
+                        data-testid={`button-history-${file.id}`}
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
                       {(userRole === 'super_admin' || file.uploadedBy === user?.id) && (
                         <Button
                           variant="ghost"
                           size="sm"
                           onClick={(e) => {
                             e.stopPropagation();
-                            toast({
-                              title: "Delete File",
-                              description: `Delete functionality for "${file.name}" will be implemented.`,
-                            });
+                            deleteMutation.mutate(file.id);
                           }}
+                          disabled={deleteMutation.isPending}
                           data-testid={`button-delete-${file.id}`}
                         >
                           <Trash2 className="w-4 h-4 text-destructive" />
@@ -484,12 +1043,17 @@ export default function Files() {
                         type="checkbox" 
                         onChange={(e) => {
                           if (e.target.checked) {
-                            setSelectedFiles(filteredFiles.map(f => f.id));
+                            setSelectedFiles(visibleFiles.map(f => f.id));
+                            setSelectedFolders(visibleFolders.map(f => f.id));
                           } else {
-                            setSelectedFiles([]);
+                            clearSelection();
                           }
                         }}
-                        checked={selectedFiles.length === filteredFiles.length && filteredFiles.length > 0}
+                        checked={
+                          selectionCount > 0 &&
+                          selectedFiles.length === visibleFiles.length &&
+                          selectedFolders.length === visibleFolders.length
+                        }
                         data-testid="checkbox-select-all"
                       />
                     </th>
@@ -502,7 +1066,51 @@ export default function Files() {
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-border">
-                  {filteredFiles.map((file: FileType) => {
+                  {visibleCourses.map((course) => (
+                    <tr
+                      key={course.id}
+                      className="hover:bg-muted/20 transition-colors cursor-pointer"
+                      onClick={() => openLocation(course.id, null)}
+                      data-testid={`row-course-folder-${course.id}`}
+                    >
+                      <td className="py-4 px-6" />
+                      <td className="py-4 px-6" colSpan={6}>
+                        <div className="flex items-center space-x-3">
+                          <FolderOpen className="w-6 h-6 text-primary" />
+                          <p className="font-semibold text-sm">{course.title}</p>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                  {visibleFolders.map((folder) => (
+                    <tr
+                      key={folder.id}
+                      className="hover:bg-muted/20 transition-colors cursor-pointer"
+                      onClick={() => openLocation(courseFilter, folder.id)}
+                      data-testid={`row-folder-${folder.id}`}
+                    >
+                      <td className="py-4 px-6">
+                        <input
+                          type="checkbox"
+                          checked={selectedFolders.includes(folder.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={() => toggleFolderSelection(folder.id)}
+                          data-testid={`checkbox-folder-${folder.id}`}
+                        />
+                      </td>
+                      <td className="py-4 px-6" colSpan={4}>
+                        <div className="flex items-center space-x-3">
+                          <Folder className="w-6 h-6 text-yellow-500" />
+                          <p className="font-semibold text-sm">{folder.name}</p>
+                        </div>
+                      </td>
+                      <td className="py-4 px-6">
+                        <span className="text-sm">{folder.createdAt ? new Date(folder.createdAt).toLocaleDateString() : ''}</span>
+                      </td>
+                      <td className="py-4 px-6" />
+                    </tr>
+                  ))}
+                  {visibleFiles.map((file: FileType) => {
                     const course = courses?.find((c: Course) => c.id === file.courseId);
                     const isSelected = selectedFiles.includes(file.id);
                     
@@ -518,8 +1126,17 @@ export default function Files() {
                         </td>
                         <td className="py-4 px-6">
                           <div className="flex items-center space-x-3">
-                            <div className="w-8 h-8 flex items-center justify-center">
-                              {getFileIcon(file.type || '')}
+                            <div className="w-8 h-8 flex items-center justify-center overflow-hidden rounded">
+                              {file.previewStatus === 'ready' ? (
+                                <img
+                                  src={`/api/files/${file.id}/thumbnail?v=${file.currentVersion}`}
+                                  alt=""
+                                  loading="lazy"
+                                  className="w-full h-full object-cover"
+                                />
+                              ) : (
+                                getFileIcon(file.type || '')
+                              )}
                             </div>
                             <div>
                               <p className="font-semibold text-sm">{file.name}</p>
@@ -530,7 +1147,10 @@ export default function Files() {
                           </div>
                         </td>
                         <td className="py-4 px-6">
-                          <Badge variant="outline">{file.type?.toUpperCase() || 'Unknown'}</Badge>
+                          <div className="flex items-center space-x-2">
+                            <Badge variant="outline">{file.type?.toUpperCase() || 'Unknown'}</Badge>
+                            {getScanBadge(file)}
+                          </div>
                         </td>
                         <td className="py-4 px-6">
                           <span className="text-sm">{file.size ? formatFileSize(file.size) : 'Unknown'}</span>
@@ -546,7 +1166,7 @@ export default function Files() {
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => window.open(file.url, '_blank')}
+                              onClick={() => setDetailsFileId(file.id)}
                               data-testid={`button-view-${file.id}`}
                             >
                               <Eye className="w-4 h-4" />
@@ -554,15 +1174,38 @@ export default function Files() {
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => window.open(file.url, '_blank')}
+                              onClick={() => openFile(file.id, false)}
+                              disabled={file.scanStatus !== 'clean'}
                               data-testid={`button-download-${file.id}`}
                             >
                               <Download className="w-4 h-4" />
                             </Button>
+                            {(file.scanStatus === 'failed' || file.scanStatus === 'infected') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => rescanMutation.mutate(file.id)}
+                                disabled={rescanMutation.isPending}
+                                title="Scan again"
+                                data-testid={`button-rescan-${file.id}`}
+                              >
+                                <RefreshCw className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setHistoryFileId(file.id)}
+                              data-testid={`button-history-${file.id}`}
+                            >
+                              <History className="w-4 h-4" />
+                            </Button>
                             {(userRole === 'super_admin' || file.uploadedBy === user?.id) && (
                               <Button
                                 variant="ghost"
                                 size="sm"
+                                onClick={() => deleteMutation.mutate(file.id)}
+                                disabled={deleteMutation.isPending}
                                 data-testid={`button-delete-${file.id}`}
                               >
                                 <Trash2 className="w-4 h-4 text-destructive" />
@@ -580,24 +1223,110 @@ export default function Files() {
         </Card>
       )}
 
+      <MoveFilesModal
+        mode={moveMode}
+        selection={{ fileIds: selectedFiles, folderIds: selectedFolders }}
+        courses={courses ?? []}
+        folders={folders}
+        onClose={() => setMoveMode(null)}
+        onDone={() => {
+          setMoveMode(null);
+          clearSelection();
+        }}
+      />
+
+      <AlertDialog open={bulkDeleteOpen} onOpenChange={setBulkDeleteOpen}>
+        <AlertDialogContent className="glassmorphism neumorphism">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectionCount} {selectionCount === 1 ? 'item' : 'items'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Selected folders are deleted with everything inside them. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-bulk-delete">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => bulkDeleteMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={bulkDeleteMutation.isPending}
+              data-testid="button-confirm-bulk-delete"
+            >
+              {bulkDeleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={isFolderModalOpen} onOpenChange={setIsFolderModalOpen}>
+        <DialogContent className="max-w-md glassmorphism neumorphism" data-testid="modal-new-folder">
+          <DialogHeader>
+            <DialogTitle className="font-heading font-bold text-2xl">New Folder</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-6">
+            <Input
+              placeholder="Folder name"
+              value={newFolderName}
+              onChange={(e) => setNewFolderName(e.target.value)}
+              data-testid="input-folder-name"
+            />
+            <div className="flex items-center justify-end space-x-4 pt-6 border-t border-border">
+              <Button variant="outline" onClick={() => setIsFolderModalOpen(false)} data-testid="button-cancel-folder">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => createFolderMutation.mutate()}
+                disabled={!newFolderName.trim() || createFolderMutation.isPending}
+                data-testid="button-create-folder"
+              >
+                {createFolderMutation.isPending ? "Creating..." : "Create Folder"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <FileDetailsPanel
+        file={detailsFile}
+        course={courses?.find((c) => c.id === detailsFile?.courseId)}
+        classData={classes?.find((c) => c.id === detailsFile?.classId)}
+        onClose={() => setDetailsFileId(null)}
+        onOpenFile={(fileId, inline) => openFile(fileId, inline)}
+      />
+
+      <FileHistoryModal
+        file={files?.find((file) => file.id === historyFileId) ?? null}
+        onClose={() => setHistoryFileId(null)}
+        onOpenVersion={(fileId, version) => openFile(fileId, false, version)}
+        onUploadVersion={(fileId, upload) => enqueueUploads([upload], { versionOf: fileId })}
+      />
+
       {/* Upload Modal */}
-      <Dialog open={isUploadModalOpen} onOpenChange={setIsUploadModalOpen}>
+      <Dialog open={isUploadModalOpen} onOpenChange={(open) => open ? setIsUploadModalOpen(true) : closeUploadModal()}>
         <DialogContent className="max-w-2xl glassmorphism neumorphism" data-testid="modal-upload-file">
           <DialogHeader>
-            <DialogTitle className="font-heading font-bold text-2xl">Upload File</DialogTitle>
+            <DialogTitle className="font-heading font-bold text-2xl">Upload Files</DialogTitle>
           </DialogHeader>
           
           <div className="space-y-6">
             <div className="border-2 border-dashed border-border rounded-xl p-8 text-center hover:border-primary/50 transition-colors">
               <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-              <p className="font-medium mb-2">Click to upload or drag and drop</p>
+              <p className="font-medium mb-2">
+                {pendingFiles.length === 0
+                  ? "Click to upload or drag and drop"
+                  : pendingFiles.length === 1
+                    ? pendingFiles[0].name
+                    : `${pendingFiles.length} files selected`}
+              </p>
               <p className="text-muted-foreground text-sm mb-4">
-                Support for PDF, DOC, PPT, Video files up to 50MB
+                {pendingFiles.length > 0
+                  ? formatFileSize(pendingFiles.reduce((sum, file) => sum + file.size, 0))
+                  : "Support for PDF, DOC, PPT and large lecture videos. Interrupted uploads can be resumed."}
               </p>
               <input
                 type="file"
+                multiple
                 onChange={handleFileUpload}
-                accept=".pdf,.doc,.docx,.ppt,.pptx,.mp4,.avi,.jpg,.png,.jpeg"
+                accept=".pdf,.doc,.docx,.ppt,.pptx,.mp4,.mov,.mkv,.webm,.avi,.jpg,.png,.jpeg"
                 className="hidden"
                 id="file-upload"
                 data-testid="input-file-upload"
@@ -614,7 +1343,7 @@ export default function Files() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-semibold mb-2">Link to Course (Optional)</label>
-                <Select>
+                <Select value={uploadCourseId} onValueChange={setUploadCourseId}>
                   <SelectTrigger data-testid="select-link-course">
                     <SelectValue placeholder="Select course" />
                   </SelectTrigger>
@@ -630,7 +1359,7 @@ export default function Files() {
 
               <div>
                 <label className="block text-sm font-semibold mb-2">Link to Class (Optional)</label>
-                <Select>
+                <Select value={uploadClassId} onValueChange={setUploadClassId}>
                   <SelectTrigger data-testid="select-link-class">
                     <SelectValue placeholder="Select class" />
                   </SelectTrigger>
@@ -648,13 +1377,17 @@ export default function Files() {
             <div className="flex items-center justify-end space-x-4 pt-6 border-t border-border">
               <Button 
                 variant="outline" 
-                onClick={() => setIsUploadModalOpen(false)}
+                onClick={closeUploadModal}
                 data-testid="button-cancel-upload"
               >
                 Cancel
               </Button>
-              <Button data-testid="button-upload">
-                Upload File
+              <Button
+                onClick={startUploads}
+                disabled={pendingFiles.length === 0}
+                data-testid="button-upload"
+              >
+                {pendingFiles.length > 1 ? `Upload ${pendingFiles.length} Files` : "Upload File"}
               </Button>
             </div>
           </div>
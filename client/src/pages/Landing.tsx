@@ -1,8 +1,43 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { GraduationCap, Users, BookOpen, BarChart3 } from "lucide-react";
 
 export default function Landing() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const loginMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/auth/login", { email, password });
+    },
+    onSuccess: () => {
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Sign in failed",
+        description: error.message.startsWith("401")
+          ? "Invalid email or password."
+          : "Unable to sign in. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate();
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted flex items-center justify-center p-4">
       <div className="w-full max-w-4xl">
@@ -24,14 +59,41 @@ export default function Landing() {
               <p className="text-muted-foreground mb-6">
                 Manage courses, students, teachers, and analytics from one comprehensive dashboard.
               </p>
-              <Button 
-                size="lg" 
-                className="px-8 py-4 text-lg font-semibold"
-                onClick={() => window.location.href = '/api/login'}
-                data-testid="button-login"
-              >
-                Sign In to Continue
-              </Button>
+              <form onSubmit={handleSubmit} className="max-w-sm mx-auto space-y-4 text-left">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    data-testid="input-email"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    data-testid="input-password"
+                  />
+                </div>
+                <Button 
+                  type="submit"
+                  size="lg" 
+                  className="w-full px-8 py-4 text-lg font-semibold"
+                  disabled={loginMutation.isPending}
+                  data-testid="button-login"
+                >
+                  {loginMutation.isPending ? "Signing In..." : "Sign In to Continue"}
+                </Button>
+              </form>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mt-8">
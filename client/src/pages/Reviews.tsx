@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import RatingStars from "@/components/RatingStars";
+import { CheckCircle2, MessageSquareQuote, XCircle } from "lucide-react";
+import type { Course, Student, StudentReview, StudentReviewStatus } from "@shared/schema";
+
+interface ReviewWithDetails extends StudentReview {
+  student: Pick<Student, "id" | "name" | "email">;
+  course: Pick<Course, "id" | "title" | "teacherId">;
+}
+
+const statusStyles: Record<StudentReviewStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-800',
+};
+
+// Support staff approve student reviews before they count towards course and
+// teacher ratings, or reject them with a note
+export default function Reviews() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<StudentReviewStatus>("pending");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: reviews, isLoading, error } = useQuery<ReviewWithDetails[]>({
+    queryKey: ["/api/reviews", status],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/reviews?status=${status}`);
+      return await res.json();
+    },
+    retry: false,
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "approved" | "rejected" }) => {
+      await apiRequest("POST", `/api/reviews/${id}/moderate`, {
+        status: decision,
+        note: notes[id]?.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/course-ratings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/teacher-ratings"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to moderate review. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  useEffect(() => {
+    if (error && isUnauthorizedError(error as Error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [error, toast]);
+
+  if (authLoading || !isAuthenticated) {
+    return <div className="flex items-center justify-center h-full">
+      <Skeleton className="w-32 h-8" />
+    </div>;
+  }
+
+  return (
+    <div className="p-6 space-y-6" data-testid="reviews-content">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-heading font-bold text-2xl">Student Reviews</h1>
+          <p className="text-muted-foreground">Approve reviews before they count towards course and teacher ratings</p>
+        </div>
+        <Tabs value={status} onValueChange={(value) => setStatus(value as StudentReviewStatus)}>
+          <TabsList>
+            <TabsTrigger value="pending" data-testid="tab-reviews-pending">Pending</TabsTrigger>
+            <TabsTrigger value="approved" data-testid="tab-reviews-approved">Approved</TabsTrigger>
+            <TabsTrigger value="rejected" data-testid="tab-reviews-rejected">Rejected</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : !reviews?.length ? (
+        <Card className="glassmorphism neumorphism">
+          <CardContent className="p-12 text-center">
+            <MessageSquareQuote className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+            <h3 className="font-semibold text-lg mb-2">
+              {status === 'pending' ? 'Nothing to moderate' : `No ${status} reviews`}
+            </h3>
+            <p className="text-muted-foreground">Reviews are recorded from a student's profile.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <Card key={review.id} className="glassmorphism neumorphism" data-testid={`review-${review.id}`}>
+              <CardContent className="p-6 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-semibold">{review.course.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {review.student.name}
+                      {review.student.email ? ` · ${review.student.email}` : ''}
+                      {review.updatedAt ? ` · ${new Date(review.updatedAt).toLocaleDateString()}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <RatingStars rating={review.rating} />
+                    <Badge variant="secondary" className={statusStyles[review.status as StudentReviewStatus]}>
+                      {review.status}
+                    </Badge>
+                  </div>
+                </div>
+
+                {review.body ? (
+                  <p className="text-sm whitespace-pre-wrap">{review.body}</p>
+                ) : (
+                  <p className="text-sm text-muted-foreground italic">Rating only</p>
+                )}
+                {review.moderationNote && (
+                  <p className="text-sm text-muted-foreground">Note: {review.moderationNote}</p>
+                )}
+
+                {review.status === 'pending' && review.submittedBy === user?.id && (
+                  <p className="text-sm text-muted-foreground pt-3 border-t border-border">
+                    You entered this review, so another moderator has to approve or reject it.
+                  </p>
+                )}
+                {review.status === 'pending' && review.submittedBy !== user?.id && (
+                  <div className="flex flex-col md:flex-row md:items-center gap-2 pt-3 border-t border-border">
+                    <Input
+                      value={notes[review.id] ?? ''}
+                      onChange={(e) => setNotes((current) => ({ ...current, [review.id]: e.target.value }))}
+                      placeholder="Note for the record (optional)"
+                      className="md:flex-1"
+                      data-testid={`input-moderation-note-${review.id}`}
+                    />
+                    <Button
+                      onClick={() => moderateMutation.mutate({ id: review.id, decision: 'approved' })}
+                      disabled={moderateMutation.isPending}
+                      data-testid={`button-approve-review-${review.id}`}
+                    >
+                      <CheckCircle2 className="w-4 h-4 mr-2" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="text-destructive"
+                      onClick={() => moderateMutation.mutate({ id: review.id, decision: 'rejected' })}
+                      disabled={moderateMutation.isPending}
+                      data-testid={`button-reject-review-${review.id}`}
+                    >
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import StorageSettings from "@/components/StorageSettings";
 import {
   Form,
   FormControl,
@@ -40,7 +41,8 @@ import {
   CreditCard,
   Database,
   Download,
-  Upload
+  Upload,
+  HardDrive
 } from "lucide-react";
 
 const profileSchema = z.object({
@@ -130,6 +132,7 @@ export default function Settings() {
   }
 
   const userRole = user?.role || 'teacher';
+  const canUseStorage = userRole === 'teacher' || userRole === 'super_admin';
   const userName = user?.firstName && user?.lastName 
     ? `${user.firstName} ${user.lastName}`
     : user?.email || "User";
@@ -205,7 +208,11 @@ export default function Settings() {
 
       {/* Settings Tabs */}
       <Tabs defaultValue="profile" className="space-y-6">
-        <TabsList className="grid grid-cols-2 lg:grid-cols-4 w-full lg:w-auto">
+        <TabsList
+          className={`grid grid-cols-2 w-full lg:w-auto ${
+            userRole === 'super_admin' ? 'lg:grid-cols-5' : canUseStorage ? 'lg:grid-cols-4' : 'lg:grid-cols-3'
+          }`}
+        >
           <TabsTrigger value="profile" className="flex items-center space-x-2" data-testid="tab-profile">
             <User className="w-4 h-4" />
             <span className="hidden sm:inline">Profile</span>
@@ -218,6 +225,12 @@ export default function Settings() {
             <Bell className="w-4 h-4" />
             <span className="hidden sm:inline">Notifications</span>
           </TabsTrigger>
+          {canUseStorage && (
+            <TabsTrigger value="storage" className="flex items-center space-x-2" data-testid="tab-storage">
+              <HardDrive className="w-4 h-4" />
+              <span className="hidden sm:inline">Storage</span>
+            </TabsTrigger>
+          )}
           {userRole === 'super_admin' && (
             <TabsTrigger value="platform" className="flex items-center space-x-2" data-testid="tab-platform">
               <Globe className="w-4 h-4" />
@@ -550,6 +563,13 @@ export default function Settings() {
           </Card>
         </TabsContent>
 
+        {/* Storage Tab (users who can upload files) */}
+        {canUseStorage && (
+          <TabsContent value="storage" className="space-y-6">
+            <StorageSettings isAdmin={userRole === 'super_admin'} />
+          </TabsContent>
+        )}
+
         {/* Platform Tab (Super Admin Only) */}
         {userRole === 'super_admin' && (
           <TabsContent value="platform" className="space-y-6">
@@ -3,12 +3,16 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, serverMessage } from "@/lib/queryClient";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import CourseProgressBar, { type CourseProgress } from "@/components/CourseProgressBar";
+import StudentReviewModal from "@/components/modals/StudentReviewModal";
+import StudentLessonsModal from "@/components/modals/StudentLessonsModal";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Select,
@@ -43,9 +47,11 @@ import {
   Edit,
   Trash2,
   Upload,
-  MessageCircle
+  MessageCircle,
+  Star,
+  ListChecks
 } from "lucide-react";
-import type { Student } from "@shared/schema";
+import type { Course, Student } from "@shared/schema";
 
 export default function Students() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
@@ -56,12 +62,56 @@ export default function Students() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
+  const [reviewCourse, setReviewCourse] = useState<Course | null>(null);
+  const [lessonsCourse, setLessonsCourse] = useState<Course | null>(null);
 
   const { data: students, isLoading: studentsLoading, error } = useQuery({
     queryKey: ["/api/students"],
     retry: false,
   });
 
+  const { data: progress } = useQuery<CourseProgress[]>({
+    queryKey: ["/api/students/progress"],
+    retry: false,
+  });
+
+  const { data: courses } = useQuery<Course[]>({
+    queryKey: ["/api/courses"],
+    retry: false,
+  });
+
+  // Enrollment is refused until the student has completed the course's
+  // prerequisites; the server says which ones are missing
+  const enrollMutation = useMutation({
+    mutationFn: async ({ studentId, courseId }: { studentId: string; courseId: string }) => {
+      const res = await apiRequest("POST", `/api/students/${studentId}/enrollments`, { courseId });
+      return (await res.json()) as Student;
+    },
+    onSuccess: (student) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students/progress"] });
+      setSelectedStudent(student);
+      toast({ title: "Success", description: "Student enrolled." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: serverMessage(error) ?? "Failed to enroll student. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const progressFor = (studentId: string) =>
+    progress?.filter((entry) => entry.studentId === studentId && entry.totalLessons > 0) ?? [];
+
+  // Average completion over the courses the student has lessons to do in
+  const averageProgress = (studentId: string) => {
+    const entries = progressFor(studentId);
+    if (entries.length === 0) return null;
+    return Math.round(entries.reduce((sum, entry) => sum + entry.percent, 0) / entries.length);
+  };
+
   // Redirect to login if not authenticated
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -289,6 +339,7 @@ export default function Students() {
                   <TableHead className="text-left font-semibold">Student</TableHead>
                   <TableHead className="text-left font-semibold">Contact</TableHead>
                   <TableHead className="text-left font-semibold">Enrolled Courses</TableHead>
+                  <TableHead className="text-left font-semibold">Progress</TableHead>
                   <TableHead className="text-left font-semibold">Total Purchases</TableHead>
                   <TableHead className="text-left font-semibold">Status</TableHead>
                   <TableHead className="text-right font-semibold">Actions</TableHead>
@@ -334,6 +385,16 @@ export default function Students() {
                         <span className="font-medium">{student.enrolledCourses?.length || 0} courses</span>
                       </div>
                     </TableCell>
+                    <TableCell>
+                      {averageProgress(student.id) === null ? (
+                        <span className="text-sm text-muted-foreground">No progress yet</span>
+                      ) : (
+                        <div className="space-y-1 min-w-[120px]" data-testid={`progress-student-${student.id}`}>
+                          <span className="text-xs font-medium">{averageProgress(student.id)}% average</span>
+                          <Progress value={averageProgress(student.id)!} className="h-2" />
+                        </div>
+                      )}
+                    </TableCell>
                     <TableCell>
                       <div className="flex items-center space-x-2">
                         <IndianRupee className="w-4 h-4 text-green-600" />
@@ -469,13 +530,65 @@ export default function Students() {
 
               {/* Enrolled Courses */}
               <div>
-                <h4 className="font-semibold mb-3">Enrolled Courses</h4>
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-semibold">Enrolled Courses</h4>
+                  {(userRole === 'super_admin' || userRole === 'support') && (
+                    <Select
+                      value=""
+                      onValueChange={(courseId) => enrollMutation.mutate({ studentId: selectedStudent.id, courseId })}
+                      disabled={enrollMutation.isPending}
+                    >
+                      <SelectTrigger className="w-56" data-testid="select-enroll-course">
+                        <SelectValue placeholder="Enroll in course" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(courses ?? [])
+                          .filter((course) => !(selectedStudent.enrolledCourses ?? []).includes(course.id))
+                          .map((course) => (
+                            <SelectItem key={course.id} value={course.id}>{course.title}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
                 {selectedStudent.enrolledCourses && selectedStudent.enrolledCourses.length > 0 ? (
                   <div className="space-y-2">
-                    {selectedStudent.enrolledCourses.map((courseId, index) => (
-                      <div key={index} className="p-3 border border-border rounded-lg">
-                        <p className="font-medium">Course ID: {courseId}</p>
-                        <p className="text-sm text-muted-foreground">Course details would be loaded here</p>
+                    {selectedStudent.enrolledCourses.map((courseId) => (
+                      <div key={courseId} className="p-3 border border-border rounded-lg space-y-2">
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium">
+                            {courses?.find((course) => course.id === courseId)?.title ?? 'Course'}
+                          </p>
+                          <div className="flex items-center">
+                            {userRole !== 'sales' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setLessonsCourse(courses?.find((course) => course.id === courseId) ?? null)}
+                                data-testid={`button-lessons-course-${courseId}`}
+                              >
+                                <ListChecks className="w-4 h-4 mr-2" />
+                                Lessons
+                              </Button>
+                            )}
+                            {(userRole === 'super_admin' || userRole === 'support') && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setReviewCourse(courses?.find((course) => course.id === courseId) ?? null)}
+                                data-testid={`button-review-course-${courseId}`}
+                              >
+                                <Star className="w-4 h-4 mr-2" />
+                                Review
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                        <CourseProgressBar
+                          progress={progress?.find(
+                            (entry) => entry.studentId === selectedStudent.id && entry.courseId === courseId,
+                          )}
+                        />
                       </div>
                     ))}
                   </div>
@@ -504,6 +617,18 @@ export default function Students() {
           )}
         </DialogContent>
       </Dialog>
+
+      <StudentReviewModal
+        student={reviewCourse ? selectedStudent : null}
+        course={reviewCourse}
+        onClose={() => setReviewCourse(null)}
+      />
+
+      <StudentLessonsModal
+        student={lessonsCourse ? selectedStudent : null}
+        course={lessonsCourse}
+        onClose={() => setLessonsCourse(null)}
+      />
     </div>
   );
 }
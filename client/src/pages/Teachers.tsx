@@ -45,7 +45,10 @@ import {
   Upload,
   MessageCircle
 } from "lucide-react";
-import type { User } from "@shared/schema";
+import { staffRoleLabel } from "@/components/CourseStaffPanel";
+import CourseStatusBadge from "@/components/CourseStatusBadge";
+import type { RatingSummary } from "@/components/RatingStars";
+import type { Course, CourseStaff, User } from "@shared/schema";
 
 export default function Teachers() {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
@@ -61,11 +64,21 @@ export default function Teachers() {
     retry: false,
   });
 
-  const { data: courses } = useQuery({
+  const { data: courses } = useQuery<Course[]>({
     queryKey: ["/api/courses"],
     retry: false,
   });
 
+  const { data: staff } = useQuery<CourseStaff[]>({
+    queryKey: ["/api/course-staff"],
+    retry: false,
+  });
+
+  const { data: ratings } = useQuery<(RatingSummary & { teacherId: string })[]>({
+    queryKey: ["/api/teacher-ratings"],
+    retry: false,
+  });
+
   const { data: classes } = useQuery({
     queryKey: ["/api/classes"],
     retry: false,
@@ -132,14 +145,37 @@ export default function Teachers() {
     return "T";
   };
 
+  // Courses the teacher leads or is on the staff of, with their role in each
+  const getTeacherCourses = (teacherId: string) =>
+    (courses || []).flatMap((course) => {
+      if (course.teacherId === teacherId) return [{ course, role: 'lead' }];
+      const member = staff?.find((entry) => entry.courseId === course.id && entry.userId === teacherId);
+      return member ? [{ course, role: member.role }] : [];
+    });
+
+  // Approved ratings of the courses the teacher leads, as "4.6 (12)"
+  const ratingLabel = (teacherId: string) => {
+    const rating = ratings?.find((entry) => entry.teacherId === teacherId);
+    return rating ? `${rating.average.toFixed(1)} (${rating.count})` : '-';
+  };
+  const ratedCount = ratings?.reduce((sum, entry) => sum + entry.count, 0) ?? 0;
+  const overallRating = ratedCount > 0
+    ? (ratings!.reduce((sum, entry) => sum + entry.average * entry.count, 0) / ratedCount).toFixed(1)
+    : '-';
+
   const getTeacherStats = (teacherId: string) => {
-    const teacherCourses = courses?.filter((c: any) => c.teacherId === teacherId) || [];
+    const teacherCourses = getTeacherCourses(teacherId);
     const teacherClasses = classes?.filter((c: any) => c.teacherId === teacherId) || [];
+    const roles = teacherCourses.reduce<Record<string, number>>((counts, { role }) => {
+      counts[role] = (counts[role] || 0) + 1;
+      return counts;
+    }, {});
     
     return {
       coursesCount: teacherCourses.length,
+      roleSummary: Object.entries(roles).map(([role, count]) => `${count} ${staffRoleLabel(role)}`).join(' · '),
       classesCount: teacherClasses.length,
-      studentsCount: teacherCourses.reduce((sum, course) => sum + (course.enrolledCount || 0), 0)
+      studentsCount: teacherCourses.reduce((sum, { course }) => sum + (course.enrolledCount || 0), 0)
     };
   };
 
@@ -217,7 +253,7 @@ export default function Teachers() {
               </div>
               <div>
                 <p className="text-sm text-muted-foreground">Avg. Rating</p>
-                <p className="font-bold text-xl">4.8</p>
+                <p className="font-bold text-xl">{overallRating}</p>
               </div>
             </div>
           </CardContent>
@@ -334,6 +370,9 @@ export default function Teachers() {
                           <BookOpen className="w-4 h-4 text-muted-foreground" />
                           <span className="font-medium">{stats.coursesCount} courses</span>
                         </div>
+                        {stats.roleSummary && (
+                          <p className="text-xs text-muted-foreground mt-1">{stats.roleSummary}</p>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center space-x-2">
@@ -350,7 +389,7 @@ export default function Teachers() {
                       <TableCell>
                         <div className="flex items-center space-x-1">
                           <Star className="w-4 h-4 text-yellow-500 fill-current" />
-                          <span className="font-medium">4.8</span>
+                          <span className="font-medium">{ratingLabel(teacher.id)}</span>
                         </div>
                       </TableCell>
                       <TableCell className="text-right">
@@ -457,27 +496,25 @@ export default function Teachers() {
                 <div className="p-4 bg-muted/30 rounded-lg text-center">
                   <Star className="w-6 h-6 text-yellow-500 mx-auto mb-2" />
                   <p className="text-sm text-muted-foreground">Rating</p>
-                  <p className="font-bold text-lg">4.8</p>
+                  <p className="font-bold text-lg">{ratingLabel(selectedTeacher.id)}</p>
                 </div>
               </div>
 
               {/* Assigned Courses */}
               <div>
                 <h4 className="font-semibold mb-3">Assigned Courses</h4>
-                {courses?.filter((c: any) => c.teacherId === selectedTeacher.id).length > 0 ? (
+                {getTeacherCourses(selectedTeacher.id).length > 0 ? (
                   <div className="space-y-2">
-                    {courses?.filter((c: any) => c.teacherId === selectedTeacher.id).map((course: any) => (
+                    {getTeacherCourses(selectedTeacher.id).map(({ course, role }) => (
                       <div key={course.id} className="p-3 border border-border rounded-lg">
                         <div className="flex items-center justify-between">
                           <div>
                             <p className="font-medium">{course.title}</p>
                             <p className="text-sm text-muted-foreground">
-                              {course.enrolledCount || 0} students enrolled
+                              {staffRoleLabel(role)} · {course.enrolledCount || 0} students enrolled
                             </p>
                           </div>
-                          <Badge variant={course.status === 'published' ? 'default' : 'secondary'}>
-                            {course.status}
-                          </Badge>
+                          <CourseStatusBadge status={course.status} />
                         </div>
                       </div>
                     ))}
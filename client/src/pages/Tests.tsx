@@ -49,12 +49,12 @@ export default function Tests() {
   const [courseFilter, setCourseFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
 
-  const { data: tests, isLoading: testsLoading, error } = useQuery({
+  const { data: tests, isLoading: testsLoading, error } = useQuery<Test[]>({
     queryKey: ["/api/tests"],
     retry: false,
   });
 
-  const { data: courses } = useQuery({
+  const { data: courses } = useQuery<Course[]>({
     queryKey: ["/api/courses"],
     retry: false,
   });
@@ -95,18 +95,9 @@ export default function Tests() {
   }
 
   const userRole = user?.role || 'teacher';
-  const userId = user?.id;
 
-  // Filter tests based on user role and filters
+  // Filter tests based on filters; the server only returns a teacher's own tests
   const filteredTests = (tests || []).filter((test: Test) => {
-    // Role-based filtering - for teachers, only show tests for their courses
-    if (userRole === 'teacher') {
-      const course = courses?.find((c: Course) => c.id === test.courseId);
-      if (course && course.teacherId !== userId) {
-        return false;
-      }
-    }
-    
     const course = courses?.find((c: Course) => c.id === test.courseId);
     
     const matchesSearch = test.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -161,13 +152,11 @@ export default function Tests() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Courses</SelectItem>
-                  {courses
-                    ?.filter((course: Course) => userRole === 'super_admin' || course.teacherId === userId)
-                    .map((course: Course) => (
-                      <SelectItem key={course.id} value={course.id}>
-                        {course.title}
-                      </SelectItem>
-                    ))}
+                  {courses?.map((course: Course) => (
+                    <SelectItem key={course.id} value={course.id}>
+                      {course.title}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
@@ -106,13 +106,11 @@ export default function Timetable() {
   }
 
   const userRole = user?.role || 'teacher';
-  const userId = user?.id;
 
   // Convert classes and tests to calendar events
   const calendarEvents: CalendarEvent[] = [
     ...(classes || [])
       .filter((classItem: Class) => {
-        if (userRole === 'teacher' && classItem.teacherId !== userId) return false;
         if (teacherFilter !== "all" && classItem.teacherId !== teacherFilter) return false;
         if (courseFilter !== "all" && classItem.courseId !== courseFilter) return false;
         return true;
@@ -132,8 +130,6 @@ export default function Timetable() {
       })),
     ...(tests || [])
       .filter((test: Test) => {
-        const course = courses?.find((c: Course) => c.id === test.courseId);
-        if (userRole === 'teacher' && course?.teacherId !== userId) return false;
         if (courseFilter !== "all" && test.courseId !== courseFilter) return false;
         return true;
       })
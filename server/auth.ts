@@ -1,7 +1,24 @@
-import session from "express-session";
-import type { Express, RequestHandler } from "express";
+import session, { type SessionData } from "express-session";
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
 import connectPg from "connect-pg-simple";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
 import { storage } from "./storage";
+import {
+  loginSchema,
+  registerUserSchema,
+  type User,
+  type SafeUser,
+} from "@shared/schema";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
 
 // --- Extend express-session type so `req.session.user` can include an id ---
 declare module "express-session" {
@@ -17,6 +34,13 @@ declare module "express-session" {
   }
 }
 
+// isAuthenticated and requirePermission copy the session's user to req.user
+declare global {
+  namespace Express {
+    interface User extends NonNullable<SessionData["user"]> {}
+  }
+}
+
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
@@ -39,9 +63,28 @@ export function getSession() {
   });
 }
 
-export async function setupAuth(app: Express) {
+// Creates the first super admin from ADMIN_EMAIL / ADMIN_PASSWORD so a fresh
+// deployment has someone who can register the remaining users.
+async function ensureBootstrapAdmin() {
+  const email = process.env.ADMIN_EMAIL;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!email || !password) return;
+
+  if (await storage.getUserByEmail(email)) return;
+
+  await storage.createUser({
+    email,
+    passwordHash: await hashPassword(password),
+    firstName: "Admin",
+    role: "super_admin",
+  });
+}
+
+export async function setupAuth(app: Express): Promise<RequestHandler> {
+  const sessionMiddleware = getSession();
   app.set("trust proxy", 1);
-  app.use(getSession());
+  app.use(sessionMiddleware);
+  await ensureBootstrapAdmin();
 
   // Simple authentication middleware for development
   app.use((req, res, next) => {
@@ -56,9 +99,11 @@ export async function setupAuth(app: Express) {
     }
     next();
   });
+
+  return sessionMiddleware;
 }
 
-export function isAuthenticated(req: any, res: any, next: any) {
+export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
   if (req.session.user) {
     req.user = req.session.user;
     next();
@@ -67,34 +112,110 @@ export function isAuthenticated(req: any, res: any, next: any) {
   }
 }
 
-export async function login(req: any, res: any) {
-  try {
-    const { email, password } = req.body;
+// Password hashes are stored as "<salt hex>:<derived key hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const derivedKey = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString("hex")}:${derivedKey.toString("hex")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  storedHash: string,
+): Promise<boolean> {
+  const [saltHex, keyHex] = storedHash.split(":");
+  if (!saltHex || !keyHex) return false;
+
+  const storedKey = Buffer.from(keyHex, "hex");
+  const derivedKey = await scryptAsync(
+    password,
+    Buffer.from(saltHex, "hex"),
+    storedKey.length,
+  );
+  return (
+    storedKey.length === derivedKey.length &&
+    timingSafeEqual(storedKey, derivedKey)
+  );
+}
+
+// Used when no user matches so failed lookups take as long as failed passwords
+const dummyPasswordHash = hashPassword(randomBytes(16).toString("hex"));
 
-    if (process.env.NODE_ENV === "development") {
+export function sanitizeUser(user: User): SafeUser {
+  const { passwordHash: _passwordHash, ...safeUser } = user;
+  return safeUser;
+}
+
+function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+export async function login(req: Request, res: Response) {
+  try {
+    if (process.env.NODE_ENV === "development" && !req.body?.password) {
       // storage.upsertUser type likely didn't have "id", so extend it here
       const user = await storage.upsertUser({
         id: "dev-user",
-        email: email || "dev@example.com",
+        email: req.body?.email || "dev@example.com",
         firstName: "Development",
         lastName: "User",
         role: "super_admin",
       } as any); // 👈 if your storage type still doesn't allow "id"
 
-      req.session.user = user;
-      res.json({ user });
-    } else {
-      res
-        .status(501)
-        .json({ message: "Authentication not implemented for production" });
+      req.session.user = sanitizeUser(user);
+      return res.json({ user: sanitizeUser(user) });
+    }
+
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Email and password are required" });
     }
+
+    const { email, password } = parsed.data;
+    const user = await storage.getUserByEmail(email);
+    const passwordMatches = await verifyPassword(
+      password,
+      user?.passwordHash ?? (await dummyPasswordHash),
+    );
+
+    if (!user || !user.passwordHash || !passwordMatches) {
+      return res.status(401).json({ message: "Invalid email or password" });
+    }
+
+    await regenerateSession(req);
+    req.session.user = sanitizeUser(user);
+    res.json({ user: sanitizeUser(user) });
   } catch (error) {
     res.status(500).json({ message: "Login failed" });
   }
 }
 
-export async function logout(req: any, res: any) {
-  req.session.destroy((err: any) => {
+export async function register(req: Request, res: Response) {
+  try {
+    const parsed = registerUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid user data" });
+    }
+
+    const { password, ...userData } = parsed.data;
+    if (await storage.getUserByEmail(userData.email)) {
+      return res.status(409).json({ message: "A user with this email already exists" });
+    }
+
+    const user = await storage.createUser({
+      ...userData,
+      passwordHash: await hashPassword(password),
+    });
+    res.status(201).json(sanitizeUser(user));
+  } catch (error) {
+    res.status(500).json({ message: "Failed to register user" });
+  }
+}
+
+export async function logout(req: Request, res: Response) {
+  req.session.destroy((err) => {
     if (err) {
       res.status(500).json({ message: "Logout failed" });
     } else {
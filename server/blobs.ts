@@ -0,0 +1,46 @@
+import fs from "fs";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { fileStorage } from "./fileStorage";
+import type { StoredBlob } from "@shared/schema";
+
+// Unused content is kept for a while so an upload that has just found it can
+// still reference it
+const UNUSED_BLOB_GRACE_MS = 60 * 60 * 1000;
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+// Stores the content of a local file unless identical content is already
+// stored. The caller references the returned blob from a file or version row.
+export async function storeBlob(filePath: string, contentType: string): Promise<StoredBlob> {
+  const hash = await hashFile(filePath);
+  const existing = await storage.touchBlob(hash);
+  if (existing) return existing;
+
+  const { size } = await fs.promises.stat(filePath);
+  const storageKey = `blobs/${hash.slice(0, 2)}/${hash}`;
+  await fileStorage.put(storageKey, fs.createReadStream(filePath), { contentType, size });
+  return await storage.createBlob({ hash, storageKey, size });
+}
+
+async function deleteUnusedBlobs(): Promise<void> {
+  const unused = await storage.deleteUnusedBlobs(new Date(Date.now() - UNUSED_BLOB_GRACE_MS));
+  for (const blob of unused) {
+    await fileStorage.delete(blob.storageKey);
+  }
+}
+
+export function startBlobCleanup(): void {
+  const run = () =>
+    deleteUnusedBlobs().catch((error) => {
+      console.error("Error deleting unused blobs:", error);
+    });
+  run();
+  setInterval(run, 60 * 60 * 1000).unref();
+}
@@ -0,0 +1,215 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import type { SessionData } from "express-session";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { canAccessChannel } from "./permissions";
+
+type SessionUser = NonNullable<SessionData["user"]>;
+
+// Every open socket per user, so a user signed in on several tabs receives
+// each message on all of them
+const connections = new Map<string, Set<WebSocket>>();
+
+// When each user who has connected since startup was last seen online
+const lastSeen = new Map<string, Date>();
+
+interface PresenceEntry {
+  userId: string;
+  online: boolean;
+  lastSeen: string | null;
+}
+
+function presenceOf(userId: string): PresenceEntry {
+  return {
+    userId,
+    online: connections.has(userId),
+    lastSeen: lastSeen.get(userId)?.toISOString() ?? null,
+  };
+}
+
+// Returns true when this is the user's first open socket
+function addConnection(userId: string, ws: WebSocket): boolean {
+  const sockets = connections.get(userId) ?? new Set<WebSocket>();
+  sockets.add(ws);
+  connections.set(userId, sockets);
+  return sockets.size === 1;
+}
+
+// Returns true when the user has no open sockets left
+function removeConnection(userId: string, ws: WebSocket): boolean {
+  const sockets = connections.get(userId);
+  if (!sockets) return false;
+  sockets.delete(ws);
+  if (sockets.size === 0) {
+    connections.delete(userId);
+    lastSeen.set(userId, new Date());
+    return true;
+  }
+  return false;
+}
+
+export function sendToUser(userId: string, payload: unknown) {
+  const sockets = connections.get(userId);
+  if (!sockets) return;
+
+  const data = JSON.stringify(payload);
+  sockets.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(data);
+    }
+  });
+}
+
+function broadcast(payload: unknown) {
+  connections.forEach((_sockets, userId) => sendToUser(userId, payload));
+}
+
+// Runs the express session middleware against the upgrade request so the
+// socket can be tied to the signed-in user
+function loadSessionUser(
+  sessionMiddleware: RequestHandler,
+  req: IncomingMessage,
+): Promise<SessionUser | undefined> {
+  return new Promise((resolve, reject) => {
+    sessionMiddleware(req as Request, {} as Response, (err?: unknown) => {
+      if (err) return reject(err);
+      resolve((req as Request).session?.user);
+    });
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+async function handleMessage(user: SessionUser, data: string) {
+  const message = JSON.parse(data);
+
+  if (message.type === "chat") {
+    if (!message.receiverId || !message.content?.trim()) return;
+
+    const chatMessage = await storage.createChatMessage({
+      senderId: user.id,
+      receiverId: message.receiverId,
+      message: message.content.trim(),
+      attachmentUrl: message.attachmentUrl || null,
+    });
+
+    const payload = { type: "chat", data: chatMessage };
+    sendToUser(user.id, payload);
+    if (message.receiverId !== user.id) {
+      sendToUser(message.receiverId, payload);
+    }
+  }
+
+  if (message.type === "read") {
+    let read;
+    if (message.messageId) {
+      const updated = await storage.markMessageAsRead(message.messageId, user.id);
+      read = updated ? [updated] : [];
+    } else if (message.peerId) {
+      read = await storage.markConversationAsRead(user.id, message.peerId);
+    } else {
+      return;
+    }
+    if (read.length === 0) return;
+
+    // Tell each sender their messages were read, and the reader's other tabs
+    // so their unread badges clear too
+    const bySender = new Map<string, string[]>();
+    read.forEach((readMessage) => {
+      if (!readMessage.senderId) return;
+      const ids = bySender.get(readMessage.senderId) ?? [];
+      ids.push(readMessage.id);
+      bySender.set(readMessage.senderId, ids);
+    });
+    bySender.forEach((messageIds, senderId) => {
+      const payload = { type: "read", data: { readerId: user.id, senderId, messageIds } };
+      sendToUser(senderId, payload);
+      sendToUser(user.id, payload);
+    });
+  }
+
+  if (message.type === "channel_message") {
+    if (!message.channelId || !message.content?.trim()) return;
+    if (!(await canAccessChannel(user, message.channelId))) return;
+
+    const channelMessage = await storage.createChatChannelMessage({
+      channelId: message.channelId,
+      senderId: user.id,
+      message: message.content.trim(),
+      attachmentUrl: message.attachmentUrl || null,
+    });
+
+    // Fan out to signed-in members only, plus the sender (an admin viewing a
+    // channel they are not a member of)
+    const members = await storage.getChatChannelMembers(message.channelId);
+    const recipients = new Set(
+      members.map((member) => member.userId).filter((id): id is string => !!id)
+    );
+    recipients.add(user.id);
+    const payload = { type: "channel_message", data: channelMessage };
+    recipients.forEach((userId) => sendToUser(userId, payload));
+  }
+
+  if (message.type === "typing") {
+    if (!message.receiverId || message.receiverId === user.id) return;
+    sendToUser(message.receiverId, {
+      type: "typing",
+      data: { userId: user.id, isTyping: !!message.isTyping },
+    });
+  }
+}
+
+export function setupChatServer(httpServer: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    // Other upgrade requests (e.g. the Vite HMR socket) are handled elsewhere
+    if (pathname !== "/ws") return;
+
+    try {
+      const user = await loadSessionUser(sessionMiddleware, req);
+      if (!user) {
+        return rejectUpgrade(socket, 401, "Unauthorized");
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit("connection", ws, req, user);
+      });
+    } catch (error) {
+      console.error("Error authenticating WebSocket upgrade:", error);
+      rejectUpgrade(socket, 500, "Internal Server Error");
+    }
+  });
+
+  wss.on("connection", (ws: WebSocket, _req: IncomingMessage, user: SessionUser) => {
+    if (addConnection(user.id, ws)) {
+      broadcast({ type: "presence", data: [presenceOf(user.id)] });
+    }
+
+    // Give the new socket everyone's current presence
+    const snapshot = Array.from(new Set([...connections.keys(), ...lastSeen.keys()])).map(presenceOf);
+    ws.send(JSON.stringify({ type: "presence", data: snapshot }));
+
+    ws.on("message", async (data) => {
+      try {
+        await handleMessage(user, data.toString());
+      } catch (error) {
+        console.error("Error handling WebSocket message:", error);
+      }
+    });
+
+    ws.on("close", () => {
+      if (removeConnection(user.id, ws)) {
+        broadcast({ type: "presence", data: [presenceOf(user.id)] });
+      }
+    });
+  });
+
+  return wss;
+}
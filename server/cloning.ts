@@ -0,0 +1,262 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { storage, type CourseClonePlan } from "./storage";
+import { fileStorage } from "./fileStorage";
+import { queueFileScan } from "./scanning";
+import { checkStorageQuota } from "./quotas";
+import type { Course, CourseCloneOptions, CourseSection, FileFolder } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CourseCloneReport = {
+  course: Course;
+  // How far the class schedule and release dates were moved
+  shiftedDays: number;
+  copied: {
+    classes: number;
+    tests: number;
+    folders: number;
+    files: number;
+    sections: number;
+    lessons: number;
+    prerequisites: number;
+  };
+  // Files left out of the copy, and why
+  skippedFiles: { id: string; name: string; reason: string }[];
+  // Copied lessons whose file was skipped, left without one until it is
+  // replaced in the curriculum
+  lessonsWithoutFile: { id: string; title: string }[];
+};
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function shiftDate(date: Date | null, days: number): Date | null {
+  return date ? new Date(date.getTime() + days * DAY_MS) : null;
+}
+
+// Parents before their subfolders
+function foldersInOrder(folders: FileFolder[]): FileFolder[] {
+  const ordered: FileFolder[] = [];
+  const ids = new Set(folders.map((folder) => folder.id));
+  const visit = (parentId: string | null) => {
+    for (const folder of folders) {
+      const parent = folder.parentId && ids.has(folder.parentId) ? folder.parentId : null;
+      if (parent === parentId) {
+        ordered.push(folder);
+        visit(folder.id);
+      }
+    }
+  };
+  visit(null);
+  return ordered;
+}
+
+// Copies a course for a new batch: its classes, moved so the first one falls
+// on `startDate` at the same time of day, its tests, files and folders, its
+// curriculum and its prerequisites. Files share their deduplicated content
+// with the originals. The copy starts as a draft with no students.
+export async function cloneCourse(
+  source: Course,
+  options: CourseCloneOptions,
+  clonedBy: string,
+): Promise<CourseCloneReport> {
+  const [sourceClasses, sourceTests, sourceFolders, courseFiles, sourceSections, sourceLessons, links] =
+    await Promise.all([
+      storage.getClassesByCourse(source.id),
+      storage.getTestsByCourse(source.id),
+      storage.getFileFolders(source.id),
+      storage.getFilesByCourse(source.id),
+      storage.getCourseSections(source.id),
+      storage.getLessonsByCourse(source.id),
+      storage.getCoursePrerequisites(),
+    ]);
+  // Files uploaded to a class are stored without a course
+  const classFiles = (
+    await Promise.all(sourceClasses.map((classData) => storage.getFilesByClass(classData.id)))
+  ).flat();
+  const sourceFiles = [
+    ...courseFiles,
+    ...classFiles.filter((file) => !courseFiles.some((courseFile) => courseFile.id === file.id)),
+  ];
+  // The copy requires the same courses as the original
+  const prerequisiteIds = links.filter((link) => link.courseId === source.id).map((link) => link.prerequisiteId);
+
+  const scheduled = sourceClasses
+    .map((classData) => classData.scheduledAt)
+    .filter((date): date is Date => !!date)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const shiftedDays =
+    options.startDate && scheduled.length > 0
+      ? Math.round((startOfDay(options.startDate) - startOfDay(scheduled[0])) / DAY_MS)
+      : 0;
+
+  const courseId = randomUUID();
+  const teacherId = options.teacherId ?? source.teacherId;
+  const newId = <T extends { id: string }>(items: T[]) => new Map(items.map((item) => [item.id, randomUUID()]));
+  const classIds = newId(sourceClasses);
+  const testIds = newId(sourceTests);
+  const folderIds = newId(sourceFolders);
+  const sectionIds = newId(sourceSections);
+  const lessonIds = newId(sourceLessons);
+  const fileIds = new Map<string, string>();
+  const mapped = (ids: Map<string, string>, id: string | null) => (id ? ids.get(id) ?? null : null);
+
+  // Content stored before deduplication belongs to one file, so the copy
+  // needs its own. It is written before the transaction and removed again if
+  // the transaction fails.
+  const skippedFiles: CourseCloneReport["skippedFiles"] = [];
+  const copiedKeys: string[] = [];
+  const planFiles: CourseClonePlan["files"] = [];
+  await checkStorageQuota(
+    clonedBy,
+    null,
+    sourceFiles.reduce((total, file) => total + (file.storageKey ? file.size ?? 0 : 0), 0),
+  );
+  try {
+    for (const file of sourceFiles) {
+      if (!file.storageKey) {
+        skippedFiles.push({ id: file.id, name: file.name, reason: "The file has no stored content" });
+        continue;
+      }
+      const id = randomUUID();
+      let storageKey = file.storageKey;
+      if (!file.contentHash) {
+        storageKey = `files/${id}${path.extname(file.name).toLowerCase()}`;
+        try {
+          await fileStorage.put(storageKey, await fileStorage.get(file.storageKey), {
+            contentType: file.mimeType ?? undefined,
+            size: file.size ?? undefined,
+          });
+        } catch (error) {
+          console.error(`Error copying content of file ${file.id}:`, error);
+          skippedFiles.push({ id: file.id, name: file.name, reason: "The file's content could not be copied" });
+          continue;
+        }
+        copiedKeys.push(storageKey);
+      }
+      fileIds.set(file.id, id);
+      planFiles.push({
+        id,
+        name: file.name,
+        url: `/api/files/${id}/download`,
+        type: file.type,
+        mimeType: file.mimeType,
+        size: file.size,
+        storageKey,
+        contentHash: file.contentHash,
+        courseId: file.courseId ? courseId : null,
+        classId: mapped(classIds, file.classId),
+        folderId: mapped(folderIds, file.folderId),
+        uploadedBy: clonedBy,
+      });
+    }
+
+    const releaseRule = (
+      item: Pick<
+        CourseSection,
+        "releaseRule" | "releaseAt" | "releaseDays" | "releaseAfterLessonId" | "releaseAfterSectionId"
+      >,
+    ) => ({
+      releaseRule: item.releaseRule,
+      releaseAt: shiftDate(item.releaseAt, shiftedDays),
+      releaseDays: item.releaseDays,
+      releaseAfterLessonId: mapped(lessonIds, item.releaseAfterLessonId),
+      releaseAfterSectionId: mapped(sectionIds, item.releaseAfterSectionId),
+    });
+
+    const course = await storage.cloneCourse({
+      course: {
+        id: courseId,
+        title: options.title ?? `${source.title} (Copy)`,
+        description: source.description,
+        teacherId,
+        bannerUrl: source.bannerUrl,
+        price: source.price,
+        discount: source.discount,
+        duration: source.duration,
+        tags: source.tags,
+        status: "draft",
+      },
+      classes: sourceClasses.map((classData) => ({
+        id: classIds.get(classData.id)!,
+        title: classData.title,
+        courseId,
+        // Classes taught by the course's teacher go to the copy's teacher
+        teacherId: classData.teacherId === source.teacherId ? teacherId : classData.teacherId,
+        scheduledAt: shiftDate(classData.scheduledAt, shiftedDays),
+        duration: classData.duration,
+        materialsUrl: classData.materialsUrl,
+        status: "scheduled",
+      })),
+      tests: sourceTests.map((test) => ({
+        id: testIds.get(test.id)!,
+        title: test.title,
+        courseId,
+        classId: mapped(classIds, test.classId),
+        duration: test.duration,
+        passingMarks: test.passingMarks,
+        totalMarks: test.totalMarks,
+        status: test.status,
+      })),
+      folders: foldersInOrder(sourceFolders).map((folder) => ({
+        id: folderIds.get(folder.id)!,
+        name: folder.name,
+        courseId,
+        parentId: mapped(folderIds, folder.parentId),
+        createdBy: clonedBy,
+      })),
+      files: planFiles,
+      sections: sourceSections.map((section) => ({
+        id: sectionIds.get(section.id)!,
+        courseId,
+        title: section.title,
+        position: section.position,
+        ...releaseRule(section),
+      })),
+      lessons: sourceLessons.map((lesson) => ({
+        id: lessonIds.get(lesson.id)!,
+        courseId,
+        sectionId: sectionIds.get(lesson.sectionId)!,
+        title: lesson.title,
+        kind: lesson.kind,
+        fileId: mapped(fileIds, lesson.fileId),
+        classId: mapped(classIds, lesson.classId),
+        testId: mapped(testIds, lesson.testId),
+        position: lesson.position,
+        ...releaseRule(lesson),
+      })),
+      prerequisiteIds,
+      // Recorded in the copy's status history
+      history: { changedBy: clonedBy, comment: `Copied from ${source.title}` },
+    });
+
+    const lessonsWithoutFile = sourceLessons
+      .filter((lesson) => lesson.fileId && !fileIds.has(lesson.fileId))
+      .map((lesson) => ({ id: lessonIds.get(lesson.id)!, title: lesson.title }));
+
+    // Copies are scanned like any new file before they can be downloaded
+    planFiles.forEach((file) => queueFileScan({ id: file.id, currentVersion: 1 }));
+    return {
+      course,
+      shiftedDays,
+      copied: {
+        classes: sourceClasses.length,
+        tests: sourceTests.length,
+        folders: sourceFolders.length,
+        files: planFiles.length,
+        sections: sourceSections.length,
+        lessons: sourceLessons.length,
+        prerequisites: prerequisiteIds.length,
+      },
+      skippedFiles,
+      lessonsWithoutFile,
+    };
+  } catch (error) {
+    for (const key of copiedKeys) {
+      await fileStorage.delete(key).catch(() => undefined);
+    }
+    throw error;
+  }
+}
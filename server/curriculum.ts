@@ -0,0 +1,77 @@
+import { storage } from "./storage";
+import { UserFacingError } from "./errors";
+import { assertNoReleaseCycle } from "./release";
+import type { CourseOutlineOrder, Lesson } from "@shared/schema";
+
+type LessonLink = Pick<Lesson, "fileId" | "classId" | "testId">;
+
+// Checks that a lesson links to content of its kind from the same course, and
+// returns the link with the fields for other kinds cleared
+export async function resolveLessonContent(
+  courseId: string,
+  lesson: Pick<Lesson, "kind"> & Partial<LessonLink>,
+): Promise<LessonLink> {
+  switch (lesson.kind) {
+    case "video":
+    case "pdf": {
+      const file = lesson.fileId ? await storage.getFile(lesson.fileId) : undefined;
+      if (!file || file.courseId !== courseId) {
+        throw new UserFacingError("Choose a file from this course");
+      }
+      if (file.type !== lesson.kind) {
+        throw new UserFacingError(lesson.kind === "video" ? "The file is not a video" : "The file is not a PDF");
+      }
+      return { fileId: file.id, classId: null, testId: null };
+    }
+    case "class": {
+      const classData = lesson.classId ? await storage.getClass(lesson.classId) : undefined;
+      if (!classData || classData.courseId !== courseId) {
+        throw new UserFacingError("Choose a class from this course");
+      }
+      return { fileId: null, classId: classData.id, testId: null };
+    }
+    case "test": {
+      const test = lesson.testId ? await storage.getTest(lesson.testId) : undefined;
+      if (!test || test.courseId !== courseId) {
+        throw new UserFacingError("Choose a test from this course");
+      }
+      return { fileId: null, classId: null, testId: test.id };
+    }
+    default:
+      throw new UserFacingError("Unknown lesson type");
+  }
+}
+
+function sameIds(given: string[], expected: string[]): boolean {
+  const unique = new Set(given);
+  return unique.size === given.length && unique.size === expected.length && expected.every((id) => unique.has(id));
+}
+
+// An order must list every section and every lesson of the course once, so
+// nothing is dropped by a client working from a stale outline. Moving a lesson
+// must not leave it waiting for its own section.
+export async function checkOutlineOrder(courseId: string, order: CourseOutlineOrder): Promise<void> {
+  const [outline, courseLessons] = await Promise.all([
+    storage.getCourseOutline(courseId),
+    storage.getLessonsByCourse(courseId),
+  ]);
+  const sectionsMatch = sameIds(
+    order.sections.map((section) => section.id),
+    outline.map((section) => section.id),
+  );
+  const lessonsMatch = sameIds(
+    order.sections.flatMap((section) => section.lessonIds),
+    courseLessons.map((lesson) => lesson.id),
+  );
+  if (!sectionsMatch || !lessonsMatch) {
+    throw new UserFacingError("The curriculum has changed since it was loaded; reload and try again", 409);
+  }
+
+  const sectionOf = new Map(
+    order.sections.flatMap((section) => section.lessonIds.map((lessonId) => [lessonId, section.id])),
+  );
+  assertNoReleaseCycle(
+    outline,
+    courseLessons.map((lesson) => ({ ...lesson, sectionId: sectionOf.get(lesson.id) ?? lesson.sectionId })),
+  );
+}
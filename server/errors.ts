@@ -0,0 +1,6 @@
+// A refused request. Routes send the message to the user with `status`.
+export class UserFacingError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
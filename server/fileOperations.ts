@@ -0,0 +1,167 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { once } from "events";
+import type { Response } from "express";
+import archiver from "archiver";
+import { storage } from "./storage";
+import { fileStorage } from "./fileStorage";
+import { queueFileScan } from "./scanning";
+import type { File, FileFolder } from "@shared/schema";
+
+// File and folder operations shared by the single-item and bulk routes
+
+export async function deleteFileWithContent(file: File): Promise<void> {
+  // Deduplicated content is released by deleteFile and removed once no file
+  // uses it. Content stored before deduplication belongs to this file alone,
+  // though versions can share it after a rollback; delete each key once.
+  const versions = await storage.getFileVersions(file.id);
+  const storageKeys = new Set(
+    [
+      file.contentHash ? null : file.storageKey,
+      file.thumbnailKey,
+      file.previewKey,
+      file.posterKey,
+      ...versions.map((version) => (version.contentHash ? null : version.storageKey)),
+    ]
+      .filter((key): key is string => !!key)
+  );
+  await storage.deleteFile(file.id);
+  for (const key of Array.from(storageKeys)) {
+    await fileStorage.delete(key);
+  }
+  if (file.hlsKey) {
+    await fileStorage.deletePrefix(file.hlsKey);
+  }
+}
+
+export async function deleteFolderWithContent(folder: FileFolder): Promise<void> {
+  const folderIds = await storage.getFolderSubtreeIds(folder.id);
+  for (const file of await storage.getFilesInFolders(folderIds)) {
+    await deleteFileWithContent(file);
+  }
+  await storage.deleteFileFolder(folder.id);
+}
+
+export type FolderTarget = { folderId: string | null; courseId: string };
+
+// A copy is a new file starting a fresh history. It shares deduplicated
+// content; content stored before deduplication is copied.
+export async function copyFile(file: File, target: FolderTarget, copiedBy: string): Promise<File | null> {
+  if (!file.storageKey) return null;
+
+  const id = randomUUID();
+  let storageKey = file.storageKey;
+  if (!file.contentHash) {
+    storageKey = `files/${id}${path.extname(file.name).toLowerCase()}`;
+    await fileStorage.put(storageKey, await fileStorage.get(file.storageKey), {
+      contentType: file.mimeType ?? undefined,
+      size: file.size ?? undefined,
+    });
+  }
+
+  const copy = await storage.createFile({
+    id,
+    name: file.name,
+    url: `/api/files/${id}/download`,
+    type: file.type,
+    mimeType: file.mimeType,
+    size: file.size,
+    storageKey,
+    contentHash: file.contentHash,
+    courseId: target.courseId,
+    classId: target.courseId === file.courseId ? file.classId : null,
+    folderId: target.folderId,
+    uploadedBy: copiedBy,
+  });
+  queueFileScan(copy);
+  return copy;
+}
+
+export async function copyFolder(folder: FileFolder, target: FolderTarget, copiedBy: string): Promise<FileFolder> {
+  // Read the children before creating the copy, which may land among them
+  const children = (await storage.getFileFolders(folder.courseId)).filter(
+    (child) => child.parentId === folder.id,
+  );
+  const copy = await storage.createFileFolder({
+    name: folder.name,
+    courseId: target.courseId,
+    parentId: target.folderId,
+    createdBy: copiedBy,
+  });
+
+  for (const file of await storage.getFilesInFolders([folder.id])) {
+    await copyFile(file, { folderId: copy.id, courseId: target.courseId }, copiedBy);
+  }
+  for (const child of children) {
+    await copyFolder(child, { folderId: copy.id, courseId: target.courseId }, copiedBy);
+  }
+  return copy;
+}
+
+// Whether `folderId` is `ancestorId` or somewhere below it
+export async function isFolderWithin(folderId: string, ancestorId: string): Promise<boolean> {
+  return (await storage.getFolderSubtreeIds(ancestorId)).includes(folderId);
+}
+
+export type ZipEntry = { file: File; path: string };
+
+// Lists the files to put in a zip, with paths that mirror the folder tree
+export async function collectZipEntries(files: File[], folders: FileFolder[]): Promise<ZipEntry[]> {
+  const entries: ZipEntry[] = files.map((file) => ({ file, path: file.name }));
+
+  for (const folder of folders) {
+    const courseFolders = await storage.getFileFolders(folder.courseId);
+    const byId = new Map(courseFolders.map((item) => [item.id, item]));
+    const subtreeIds = await storage.getFolderSubtreeIds(folder.id);
+
+    const folderPath = (id: string): string => {
+      const item = byId.get(id)!;
+      return item.id === folder.id || !item.parentId
+        ? item.name
+        : `${folderPath(item.parentId)}/${item.name}`;
+    };
+
+    for (const file of await storage.getFilesInFolders(subtreeIds)) {
+      entries.push({ file, path: `${folderPath(file.folderId!)}/${file.name}` });
+    }
+  }
+
+  // Zip tools overwrite entries with the same path, so number duplicates.
+  // Files that have not passed their malware scan are left out.
+  const seen = new Map<string, number>();
+  return entries.filter((entry) => entry.file.scanStatus === "clean").map((entry) => {
+    const count = seen.get(entry.path) ?? 0;
+    seen.set(entry.path, count + 1);
+    if (count === 0) return entry;
+    const ext = path.extname(entry.path);
+    return { ...entry, path: `${entry.path.slice(0, entry.path.length - ext.length)} (${count})${ext}` };
+  });
+}
+
+export async function streamZip(res: Response, entries: ZipEntry[], name: string): Promise<void> {
+  const archive = archiver("zip", { zlib: { level: 6 } });
+  // The caller reports the error; the partial download can only be cut off
+  archive.on("error", (error) => res.destroy(error));
+
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Cache-Control", "private, no-store");
+  res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(name)}`);
+  archive.pipe(res);
+
+  // Open one file at a time rather than every stream up front. once() rejects
+  // when the archive emits an error instead of the entry.
+  try {
+    for (const entry of entries) {
+      if (!entry.file.storageKey) continue;
+      const content = await fileStorage.get(entry.file.storageKey);
+      const added = once(archive, "entry");
+      archive.append(content, { name: entry.path });
+      await added;
+    }
+    await archive.finalize();
+  } catch (error) {
+    archive.abort();
+    res.destroy(error as Error);
+    throw error;
+  }
+}
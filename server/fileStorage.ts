@@ -0,0 +1,201 @@
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { Readable } from "stream";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+
+// Where uploaded file contents live. Rows in `files` only keep the key.
+export interface StorageDriver {
+  put(
+    key: string,
+    body: Readable,
+    options: { contentType?: string; size?: number },
+  ): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  // Removes every key under `prefix/`, e.g. all segments of a video
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+export class LocalDiskDriver implements StorageDriver {
+  constructor(private readonly rootDir: string) {}
+
+  // Keys are generated by the server, but never let one escape the root
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.rootDir, key);
+    if (!fullPath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    const fullPath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await pipeline(body, fs.createWriteStream(fullPath));
+  }
+
+  async get(key: string): Promise<Readable> {
+    const fullPath = this.resolve(key);
+    await fs.promises.access(fullPath);
+    return fs.createReadStream(fullPath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.promises.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+}
+
+// Works with AWS S3 and S3-compatible servers such as MinIO
+export class S3Driver implements StorageDriver {
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucket: string,
+    options: {
+      region: string;
+      endpoint?: string;
+      accessKeyId?: string;
+      secretAccessKey?: string;
+    },
+  ) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      // MinIO and most self-hosted servers only support path-style URLs
+      forcePathStyle: !!options.endpoint,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  async put(
+    key: string,
+    body: Readable,
+    options: { contentType?: string; size?: number },
+  ): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options.contentType,
+        ContentLength: options.size,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Readable> {
+    const result = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+    return result.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    let continuationToken: string | undefined;
+    do {
+      const listed = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${prefix}/`,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      const objects = (listed.Contents ?? []).map((object) => ({ Key: object.Key! }));
+      if (objects.length > 0) {
+        await this.client.send(
+          new DeleteObjectsCommand({ Bucket: this.bucket, Delete: { Objects: objects } }),
+        );
+      }
+      continuationToken = listed.NextContinuationToken;
+    } while (continuationToken);
+  }
+}
+
+export function createStorageDriver(): StorageDriver {
+  const driver = process.env.FILE_STORAGE_DRIVER || "local";
+
+  if (driver === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when FILE_STORAGE_DRIVER is s3");
+    }
+    return new S3Driver(process.env.S3_BUCKET, {
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  if (driver === "local") {
+    return new LocalDiskDriver(process.env.UPLOAD_DIR || "uploads");
+  }
+
+  throw new Error(`Unknown FILE_STORAGE_DRIVER: ${driver}`);
+}
+
+export const fileStorage = createStorageDriver();
+
+// Maps an upload to the categories the Files page knows about
+export function detectFileType(mimeType: string, fileName: string): string {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+
+  if (mimeType === "application/pdf" || extension === "pdf") return "pdf";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("image/")) return "image";
+  if (["doc", "docx", "odt", "rtf", "txt"].includes(extension)) return "doc";
+  if (["ppt", "pptx", "odp", "key"].includes(extension)) return "ppt";
+  if (["zip", "rar", "7z", "tar", "gz"].includes(extension)) return "archive";
+  return "other";
+}
+
+// Types browsers may show in the page. The upload's own mimetype comes from
+// the browser, so what is served is decided by the file's extension instead.
+const inlineContentTypes: Record<string, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+};
+
+// The Content-Type a download is served with, and whether it may be shown
+// inline. Everything else is an application/octet-stream attachment.
+export function servedContentType(fileName: string): { contentType: string; inline: boolean } {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  const contentType = inlineContentTypes[extension];
+  return contentType
+    ? { contentType, inline: true }
+    : { contentType: "application/octet-stream", inline: false };
+}
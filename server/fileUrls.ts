@@ -0,0 +1,113 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Downloads are only served through short-lived signed links. The signature
+// covers what is downloaded, the expiry and who the link was issued to, so
+// access can be re-checked for that person when the link is used.
+const FILE_URL_TTL_SECONDS = parseInt(process.env.FILE_URL_TTL_SECONDS || "300", 10);
+
+export type FileUrlSubject =
+  | { kind: "user"; id: string }
+  | { kind: "student"; id: string };
+
+function secret(): string {
+  const key = process.env.FILE_URL_SECRET || process.env.SESSION_SECRET;
+  if (!key) {
+    throw new Error("FILE_URL_SECRET or SESSION_SECRET must be set to sign file URLs");
+  }
+  return key;
+}
+
+function sign(resource: string, expires: number, subject: string): string {
+  return createHmac("sha256", secret())
+    .update(`${resource}:${expires}:${subject}`)
+    .digest("base64url");
+}
+
+function signedParams(resource: string, subject: FileUrlSubject) {
+  const expires = Math.floor(Date.now() / 1000) + FILE_URL_TTL_SECONDS;
+  const sub = `${subject.kind}:${subject.id}`;
+  const params = new URLSearchParams({
+    expires: String(expires),
+    sub,
+    signature: sign(resource, expires, sub),
+  });
+  return { params, expiresAt: new Date(expires * 1000) };
+}
+
+// Returns who the link was issued to, or null if it is forged or expired
+function verify(resource: string, query: Record<string, unknown>): FileUrlSubject | null {
+  const { expires, sub, signature } = query;
+  if (typeof expires !== "string" || typeof sub !== "string" || typeof signature !== "string") {
+    return null;
+  }
+
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(resource, expiresAt, sub));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const [kind, id] = sub.split(":");
+  if ((kind !== "user" && kind !== "student") || !id) return null;
+  return { kind, id };
+}
+
+export function createSignedFileUrl(
+  fileId: string,
+  subject: FileUrlSubject,
+  options: { inline?: boolean; version?: number } = {},
+): { url: string; expiresAt: Date } {
+  const version = options.version ? String(options.version) : "";
+  const inline = options.inline ? "1" : "";
+  // Signed too, so a download link cannot be turned into an inline one
+  const { params, expiresAt } = signedParams(`file:${fileId}:${version}:${inline}`, subject);
+  // Without a version the link follows the file to its current version
+  if (version) params.set("version", version);
+  if (inline) params.set("inline", inline);
+
+  return { url: `/api/files/${fileId}/download?${params}`, expiresAt };
+}
+
+export function verifySignedFileUrl(
+  fileId: string,
+  query: Record<string, unknown>,
+): FileUrlSubject | null {
+  const { version = "", inline = "" } = query;
+  if (typeof version !== "string" || typeof inline !== "string") return null;
+  return verify(`file:${fileId}:${version}:${inline}`, query);
+}
+
+export type ZipSelection = { fileIds: string[]; folderIds: string[] };
+
+export function createSignedZipUrl(
+  selection: ZipSelection,
+  subject: FileUrlSubject,
+): { url: string; expiresAt: Date } {
+  const files = selection.fileIds.join(",");
+  const folders = selection.folderIds.join(",");
+  const { params, expiresAt } = signedParams(`zip:${files}:${folders}`, subject);
+  params.set("files", files);
+  params.set("folders", folders);
+
+  return { url: `/api/files/zip?${params}`, expiresAt };
+}
+
+export function verifySignedZipUrl(
+  query: Record<string, unknown>,
+): (ZipSelection & { subject: FileUrlSubject }) | null {
+  const { files = "", folders = "" } = query;
+  if (typeof files !== "string" || typeof folders !== "string") return null;
+
+  const subject = verify(`zip:${files}:${folders}`, query);
+  if (!subject) return null;
+  return {
+    subject,
+    fileIds: files ? files.split(",") : [],
+    folderIds: folders ? folders.split(",") : [],
+  };
+}
@@ -0,0 +1,35 @@
+// In-process background work. Jobs run in the order they were queued, a few
+// at a time, and a job already waiting under the same key is not queued twice.
+// Anything that must survive a restart keeps its state in the database and is
+// queued again on startup.
+export class JobQueue {
+  private readonly waiting = new Map<string, () => Promise<void>>();
+  private running = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly concurrency = 1,
+  ) {}
+
+  enqueue(key: string, run: () => Promise<void>): void {
+    if (this.waiting.has(key)) return;
+    this.waiting.set(key, run);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.waiting.size > 0) {
+      const [key, run] = this.waiting.entries().next().value!;
+      this.waiting.delete(key);
+      this.running++;
+      run()
+        .catch((error) => {
+          console.error(`${this.name} job ${key} failed:`, error);
+        })
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+}
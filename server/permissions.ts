@@ -0,0 +1,195 @@
+import type { Request, Response, NextFunction } from "express";
+import type { Class, Course, CourseStaffRole, File, FileFolder, Role, Student } from "@shared/schema";
+import { storage } from "./storage";
+import { isFileReleased } from "./release";
+
+export type SessionUser = { id: string; role?: Role | null };
+
+// Which roles may perform each action. super_admin is allowed everything and
+// is therefore not listed.
+export const permissions = {
+  "users:register": [],
+
+  "courses:read": ["teacher", "sales", "support"],
+  "courses:write": ["teacher"],
+  "courses:delete": ["teacher"],
+  "courses:review": ["teacher", "support"],
+  "courses:approve": [],
+  "paths:write": [],
+
+  "classes:read": ["teacher", "support"],
+  "classes:write": ["teacher"],
+
+  "tests:read": ["teacher", "support"],
+  "tests:write": ["teacher"],
+
+  "students:read": ["teacher", "sales", "support"],
+  "students:write": ["support"],
+  "progress:write": ["teacher", "support"],
+  "reviews:write": ["support"],
+  "reviews:moderate": ["support"],
+
+  "coupons:read": ["sales"],
+  "coupons:write": ["sales"],
+
+  "campaigns:read": ["sales"],
+  "campaigns:write": ["sales"],
+
+  "files:read": ["teacher"],
+  "files:write": ["teacher"],
+  "quotas:write": [],
+
+  "analytics:read": ["teacher", "sales", "support"],
+
+  "teachers:read": ["teacher", "sales", "support"],
+
+  "chat:use": ["teacher", "sales", "support"],
+  "chat:channels:write": ["teacher"],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof permissions;
+
+// What each role on a course's staff may do in that course. Teachers act in
+// a course only through their staff role there.
+export const courseStaffPermissions = {
+  "course:read": ["lead", "co_teacher", "ta"],
+  "course:write": ["lead"],
+  "curriculum:write": ["lead", "co_teacher"],
+  "classes:write": ["lead", "co_teacher"],
+  "tests:write": ["lead", "co_teacher"],
+  "files:write": ["lead", "co_teacher", "ta"],
+  "progress:write": ["lead", "co_teacher", "ta"],
+} satisfies Record<string, CourseStaffRole[]>;
+
+export type CoursePermission = keyof typeof courseStaffPermissions;
+
+export function hasPermission(
+  role: Role | null | undefined,
+  permission: Permission,
+): boolean {
+  if (!role) return false;
+  if (role === "super_admin") return true;
+  return (permissions[permission] as Role[]).includes(role);
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.session.user;
+    if (!user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasPermission(user.role, permission)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    req.user = user;
+    next();
+  };
+}
+
+// Teachers may only change courses they lead; everyone else who holds the
+// write permission may change any course.
+export function canManageCourse(
+  user: SessionUser,
+  course: { teacherId?: Course["teacherId"] },
+): boolean {
+  if (user.role !== "teacher") return true;
+  return course.teacherId === user.id;
+}
+
+// The user's role on the course's staff, if any
+export async function getCourseStaffRole(
+  userId: string,
+  course: Pick<Course, "id" | "teacherId">,
+): Promise<CourseStaffRole | null> {
+  if (course.teacherId === userId) return "lead";
+  const member = await storage.getCourseStaffMember(course.id, userId);
+  return (member?.role as CourseStaffRole | undefined) ?? null;
+}
+
+// Teachers act in a course as its staff role allows; everyone else who holds
+// the matching global permission may act in any course.
+export async function canActInCourse(
+  user: SessionUser,
+  course: Pick<Course, "id" | "teacherId">,
+  permission: CoursePermission,
+): Promise<boolean> {
+  if (user.role !== "teacher") return true;
+  const role = await getCourseStaffRole(user.id, course);
+  return !!role && (courseStaffPermissions[permission] as CourseStaffRole[]).includes(role);
+}
+
+export async function canManageCourseById(
+  user: SessionUser,
+  courseId: string | null | undefined,
+  permission: CoursePermission = "course:write",
+): Promise<boolean> {
+  if (user.role !== "teacher") return true;
+  if (!courseId) return false;
+  const course = await storage.getCourse(courseId);
+  return !!course && canActInCourse(user, course, permission);
+}
+
+// A teacher can see a class they run or any class in one of their courses
+export async function canAccessClass(
+  user: SessionUser,
+  classData: Class,
+): Promise<boolean> {
+  if (user.role !== "teacher") return true;
+  if (classData.teacherId === user.id) return true;
+  return canManageCourseById(user, classData.courseId, "course:read");
+}
+
+// Channel members can read and post; super_admin can see every channel
+export async function canAccessChannel(
+  user: SessionUser,
+  channelId: string,
+): Promise<boolean> {
+  if (user.role === "super_admin") return true;
+  return storage.isChatChannelMember(channelId, user.id);
+}
+
+// A file belongs to its course, or to the course of its class
+async function courseIdForFile(file: File): Promise<string | null> {
+  if (file.courseId) return file.courseId;
+  if (!file.classId) return null;
+  const classData = await storage.getClass(file.classId);
+  return classData?.courseId ?? null;
+}
+
+// super_admin can reach every file. Teachers can reach files they uploaded
+// and files attached to their courses or classes. Other staff roles cannot.
+export async function canAccessFile(
+  user: SessionUser,
+  file: File,
+): Promise<boolean> {
+  if (user.role === "super_admin") return true;
+  if (user.role !== "teacher") return false;
+  if (file.uploadedBy === user.id) return true;
+  if (file.classId) {
+    const classData = await storage.getClass(file.classId);
+    if (classData && (await canAccessClass(user, classData))) return true;
+  }
+  return !!file.courseId && canManageCourseById(user, file.courseId, "files:write");
+}
+
+// Folders follow their course: super_admin and the course's staff
+export async function canAccessFolder(
+  user: SessionUser,
+  folder: FileFolder,
+): Promise<boolean> {
+  if (user.role === "super_admin") return true;
+  if (user.role !== "teacher") return false;
+  return canManageCourseById(user, folder.courseId, "files:write");
+}
+
+// Active students can reach the files of courses they are enrolled in, once
+// a lesson using the file has been released to them
+export async function canStudentAccessFile(
+  student: Student,
+  file: File,
+): Promise<boolean> {
+  if (student.status !== "active") return false;
+  const courseId = await courseIdForFile(file);
+  if (!courseId || !(student.enrolledCourses ?? []).includes(courseId)) return false;
+  return isFileReleased(student, file);
+}
@@ -0,0 +1,142 @@
+import { storage } from "./storage";
+import { UserFacingError } from "./errors";
+import type { Course, CoursePrerequisite } from "@shared/schema";
+
+type CourseSummary = Pick<Course, "id" | "title" | "status">;
+
+// A course with everything it requires, directly or not, and everything that
+// requires it
+export type DependencyGraph = {
+  courseId: string;
+  courses: CourseSummary[];
+  // `courseId` requires `prerequisiteId`
+  links: Pick<CoursePrerequisite, "courseId" | "prerequisiteId">[];
+};
+
+type Link = Pick<CoursePrerequisite, "courseId" | "prerequisiteId">;
+
+function adjacency(links: Link[], from: keyof Link, to: keyof Link): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  for (const link of links) {
+    map.set(link[from], [...(map.get(link[from]) ?? []), link[to]]);
+  }
+  return map;
+}
+
+// Every course reachable from `start` through `edges`, not counting `start`
+function reachable(start: string, edges: Map<string, string[]>): Set<string> {
+  const seen = new Set<string>();
+  const stack = [...(edges.get(start) ?? [])];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id) || id === start) continue;
+    seen.add(id);
+    stack.push(...(edges.get(id) ?? []));
+  }
+  return seen;
+}
+
+function summary(course: Course): CourseSummary {
+  return { id: course.id, title: course.title, status: course.status };
+}
+
+// Checks that the courses exist and that requiring them would not make the
+// course require itself, directly or through other courses
+export async function checkPrerequisites(course: Course, prerequisiteIds: string[]): Promise<void> {
+  if (prerequisiteIds.includes(course.id)) {
+    throw new UserFacingError("A course cannot require itself");
+  }
+  const [allCourses, links] = await Promise.all([storage.getCourses(), storage.getCoursePrerequisites()]);
+  const titles = new Map(allCourses.map((item) => [item.id, item.title]));
+  if (prerequisiteIds.some((id) => !titles.has(id))) {
+    throw new UserFacingError("Some of the required courses were not found");
+  }
+
+  const requires = adjacency(
+    [
+      ...links.filter((link) => link.courseId !== course.id),
+      ...prerequisiteIds.map((prerequisiteId) => ({ courseId: course.id, prerequisiteId })),
+    ],
+    "courseId",
+    "prerequisiteId",
+  );
+  // Depth-first search for a chain of requirements leading back to the course
+  const path: string[] = [];
+  const visited = new Set<string>();
+  const findCycle = (id: string): boolean => {
+    path.push(id);
+    for (const next of requires.get(id) ?? []) {
+      if (next === course.id) return true;
+      if (!visited.has(next)) {
+        visited.add(next);
+        if (findCycle(next)) return true;
+      }
+    }
+    path.pop();
+    return false;
+  };
+  if (findCycle(course.id)) {
+    const chain = [...path, course.id].map((id) => `"${titles.get(id)}"`).join(" requires ");
+    throw new UserFacingError(`Courses cannot require each other in a circle: ${chain}`);
+  }
+}
+
+// Refuses enrollment in any of `courseIds` whose prerequisites the student
+// has not completed. New students have completed nothing.
+export async function checkEnrollmentPrerequisites(studentId: string | null, courseIds: string[]): Promise<void> {
+  if (courseIds.length === 0) return;
+  const links = (await storage.getCoursePrerequisites()).filter((link) => courseIds.includes(link.courseId));
+  if (links.length === 0) return;
+
+  const completions = studentId ? await storage.getCourseCompletions({ studentIds: [studentId] }) : [];
+  const completed = new Set(completions.map((completion) => completion.courseId));
+  const missing = links.filter((link) => !completed.has(link.prerequisiteId));
+  if (missing.length === 0) return;
+
+  const allCourses = await storage.getCourses();
+  const title = (id: string) => `"${allCourses.find((item) => item.id === id)?.title ?? "Unknown course"}"`;
+  const byCourse = adjacency(missing, "courseId", "prerequisiteId");
+  const reasons = Array.from(byCourse.entries()).map(
+    ([courseId, prerequisiteIds]) => `${title(courseId)} requires completing ${prerequisiteIds.map(title).join(", ")}`,
+  );
+  throw new UserFacingError(`${reasons.join("; ")} first`, 409);
+}
+
+export async function getDependencyGraph(course: Course): Promise<DependencyGraph> {
+  const [allCourses, links] = await Promise.all([storage.getCourses(), storage.getCoursePrerequisites()]);
+  const ancestors = reachable(course.id, adjacency(links, "courseId", "prerequisiteId"));
+  const descendants = reachable(course.id, adjacency(links, "prerequisiteId", "courseId"));
+  const upstream = new Set([course.id, ...Array.from(ancestors)]);
+  const downstream = new Set([course.id, ...Array.from(descendants)]);
+
+  return {
+    courseId: course.id,
+    courses: allCourses.filter((item) => upstream.has(item.id) || downstream.has(item.id)).map(summary),
+    links: links
+      .filter(
+        (link) =>
+          (upstream.has(link.courseId) && upstream.has(link.prerequisiteId)) ||
+          (downstream.has(link.courseId) && downstream.has(link.prerequisiteId)),
+      )
+      .map(({ courseId, prerequisiteId }) => ({ courseId, prerequisiteId })),
+  };
+}
+
+// A learning path takes every course after the ones it requires
+export async function checkPathOrder(courseIds: string[]): Promise<void> {
+  const [allCourses, links] = await Promise.all([storage.getCourses(), storage.getCoursePrerequisites()]);
+  const titles = new Map(allCourses.map((item) => [item.id, item.title]));
+  if (courseIds.some((id) => !titles.has(id))) {
+    throw new UserFacingError("Some of the courses were not found");
+  }
+  const position = new Map(courseIds.map((id, index) => [id, index]));
+  for (const link of links) {
+    const course = position.get(link.courseId);
+    const prerequisite = position.get(link.prerequisiteId);
+    if (course !== undefined && prerequisite !== undefined && prerequisite > course) {
+      throw new UserFacingError(
+        `"${titles.get(link.courseId)}" has to come after "${titles.get(link.prerequisiteId)}", which it requires`,
+      );
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import sharp from "sharp";
+import { storage } from "./storage";
+import { fileStorage } from "./fileStorage";
+import { JobQueue } from "./jobs";
+import type { File } from "@shared/schema";
+
+const execFileAsync = promisify(execFile);
+
+// PDFs are rendered with poppler's pdftoppm, which must be installed locally
+const PDFTOPPM_PATH = process.env.PDFTOPPM_PATH || "pdftoppm";
+const THUMBNAIL_SIZE = 320;
+const PREVIEW_SIZE = 1280;
+// Larger images are not decoded for previews
+const MAX_PREVIEW_SOURCE_BYTES = 50 * 1024 * 1024;
+
+const previewQueue = new JobQueue("Preview");
+
+export function queueFilePreview(fileId: string): void {
+  previewQueue.enqueue(fileId, () => generateFilePreview(fileId));
+}
+
+// Picks up files that were waiting when the server last stopped. Files still
+// waiting for their malware scan are queued once they pass.
+export function startPreviewWorker(): void {
+  storage
+    .getFilesByPreviewStatus("pending")
+    .then((pending) =>
+      pending.filter((file) => file.scanStatus === "clean").forEach((file) => queueFilePreview(file.id)),
+    )
+    .catch((error) => {
+      console.error("Error queueing pending previews:", error);
+    });
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+async function renderPdfFirstPage(file: File): Promise<Buffer> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pdf-preview-"));
+  try {
+    const pdfPath = path.join(workDir, "source.pdf");
+    await pipeline(await fileStorage.get(file.storageKey!), fs.createWriteStream(pdfPath));
+    await execFileAsync(
+      PDFTOPPM_PATH,
+      ["-png", "-f", "1", "-l", "1", "-singlefile", "-scale-to", String(PREVIEW_SIZE), pdfPath, path.join(workDir, "page")],
+      { timeout: 60_000 },
+    );
+    return await fs.promises.readFile(path.join(workDir, "page.png"));
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Source image for the previews, or null if the file type has none
+async function previewSource(file: File): Promise<Buffer | null> {
+  if (file.type === "image" && (file.size ?? 0) <= MAX_PREVIEW_SOURCE_BYTES) {
+    return await readAll(await fileStorage.get(file.storageKey!));
+  }
+  if (file.type === "pdf") {
+    return await renderPdfFirstPage(file);
+  }
+  return null;
+}
+
+async function putImage(key: string, image: Buffer): Promise<void> {
+  await fileStorage.put(key, Readable.from(image), {
+    contentType: "image/webp",
+    size: image.length,
+  });
+}
+
+async function generateFilePreview(fileId: string): Promise<void> {
+  const file = await storage.getFile(fileId);
+  if (!file || !file.storageKey || file.scanStatus !== "clean") return;
+
+  // Previews of earlier content are replaced, then removed
+  const staleKeys = [file.thumbnailKey, file.previewKey].filter((key): key is string => !!key);
+
+  try {
+    const source = await previewSource(file);
+    if (!source) {
+      await storage.updateFilePreview(file.id, {
+        previewStatus: "unsupported",
+        thumbnailKey: null,
+        previewKey: null,
+      });
+    } else {
+      const image = sharp(source, { limitInputPixels: 100_000_000 }).rotate();
+      const [thumbnail, preview] = await Promise.all([
+        image.clone().resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true }).webp().toBuffer(),
+        image.clone().resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: "inside", withoutEnlargement: true }).webp().toBuffer(),
+      ]);
+
+      const prefix = `previews/${file.id}/${randomUUID()}`;
+      await putImage(`${prefix}-thumbnail.webp`, thumbnail);
+      await putImage(`${prefix}-preview.webp`, preview);
+      await storage.updateFilePreview(file.id, {
+        previewStatus: "ready",
+        thumbnailKey: `${prefix}-thumbnail.webp`,
+        previewKey: `${prefix}-preview.webp`,
+      });
+    }
+  } catch (error) {
+    console.error(`Error generating preview for file ${file.id}:`, error);
+    await storage.updateFilePreview(file.id, {
+      previewStatus: "failed",
+      thumbnailKey: null,
+      previewKey: null,
+    });
+  }
+
+  for (const key of staleKeys) {
+    await fileStorage.delete(key).catch(() => {});
+  }
+}
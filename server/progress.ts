@@ -0,0 +1,133 @@
+import { storage } from "./storage";
+import { sendToUser } from "./chat";
+import type { Lesson, LessonProgress, LessonProgressUpdate, Student } from "@shared/schema";
+
+// Watching this much of a video completes its lesson
+export const VIDEO_COMPLETION_PERCENT = 90;
+
+// One student's progress through one course they are enrolled in
+export type CourseProgress = {
+  studentId: string;
+  courseId: string;
+  totalLessons: number;
+  startedLessons: number;
+  completedLessons: number;
+  percent: number;
+  // When the student first completed every lesson
+  completedAt: Date | null;
+};
+
+// Progress of each student through each of their courses, optionally only
+// the courses in `courseIds`
+export async function getEnrollmentProgress(
+  enrolled: Student[],
+  courseIds?: string[],
+): Promise<CourseProgress[]> {
+  const enrollments = enrolled.flatMap((student) =>
+    (student.enrolledCourses ?? [])
+      .filter((courseId) => !courseIds || courseIds.includes(courseId))
+      .map((courseId) => ({ studentId: student.id, courseId })),
+  );
+  if (enrollments.length === 0) return [];
+
+  const studentIds = Array.from(new Set(enrollments.map((enrollment) => enrollment.studentId)));
+  const enrolledCourseIds = Array.from(new Set(enrollments.map((enrollment) => enrollment.courseId)));
+  const [counts, lessonCounts, completions] = await Promise.all([
+    storage.getLessonProgressCounts({ studentIds, courseIds: enrolledCourseIds }),
+    storage.getLessonCountsByCourse(enrolledCourseIds),
+    storage.getCourseCompletions({ studentIds, courseIds: enrolledCourseIds }),
+  ]);
+  const key = (studentId: string, courseId: string) => `${studentId}:${courseId}`;
+  const countsByKey = new Map(counts.map((row) => [key(row.studentId, row.courseId), row]));
+  const totals = new Map(lessonCounts.map((row) => [row.courseId, row.lessonCount]));
+  const completedAt = new Map(completions.map((row) => [key(row.studentId, row.courseId), row.completedAt]));
+
+  return enrollments.map(({ studentId, courseId }) => {
+    const totalLessons = totals.get(courseId) ?? 0;
+    const row = countsByKey.get(key(studentId, courseId));
+    const completedLessons = row?.completedLessons ?? 0;
+    return {
+      studentId,
+      courseId,
+      totalLessons,
+      startedLessons: row?.startedLessons ?? 0,
+      completedLessons,
+      percent: totalLessons ? Math.round((completedLessons / totalLessons) * 100) : 0,
+      completedAt: completedAt.get(key(studentId, courseId)) ?? null,
+    };
+  });
+}
+
+export type LessonProgressResult = {
+  progress: LessonProgress;
+  course: CourseProgress;
+  // True only for the report that completed the course
+  courseCompleted: boolean;
+};
+
+// Tells the course's teachers on their open sockets, so their progress views
+// refresh and they see who finished
+async function announceCourseCompletion(student: Student, courseId: string, completedAt: Date | null) {
+  const [course, staff] = await Promise.all([storage.getCourse(courseId), storage.getCourseStaff(courseId)]);
+  if (!course) return;
+  const payload = {
+    type: "course_completed",
+    data: { studentId: student.id, studentName: student.name, courseId, courseTitle: course.title, completedAt },
+  };
+  const recipients = new Set(staff.map((member) => member.userId));
+  if (course.teacherId) recipients.add(course.teacherId);
+  recipients.forEach((userId) => sendToUser(userId, payload));
+}
+
+// Records a progress report for a lesson the student is enrolled in, and
+// records the course completion when it was the last lesson left
+export async function recordLessonProgress(
+  student: Student,
+  lesson: Lesson,
+  update: LessonProgressUpdate,
+): Promise<LessonProgressResult> {
+  const existing = await storage.getLessonProgress(student.id, lesson.id);
+  const percentWatched = Math.max(existing?.percentWatched ?? 0, update.percentWatched ?? 0);
+  let completedAt: Date | null = existing?.completedAt ?? null;
+  if (update.completed === false) {
+    completedAt = null;
+  } else if (
+    !completedAt &&
+    (update.completed || (lesson.kind === "video" && percentWatched >= VIDEO_COMPLETION_PERCENT))
+  ) {
+    completedAt = new Date();
+  }
+
+  const progress = await storage.saveLessonProgress({
+    studentId: student.id,
+    lessonId: lesson.id,
+    courseId: lesson.courseId,
+    percentWatched,
+    completedAt,
+  });
+
+  const [course] = await getEnrollmentProgress([student], [lesson.courseId]);
+  let courseCompleted = false;
+  if (course.totalLessons > 0 && course.completedLessons === course.totalLessons) {
+    const completion = await storage.createCourseCompletion(student.id, lesson.courseId);
+    if (completion) {
+      course.completedAt = completion.completedAt;
+      courseCompleted = true;
+      await announceCourseCompletion(student, lesson.courseId, completion.completedAt);
+    }
+  }
+  return { progress, course, courseCompleted };
+}
+
+// Course completions in each of the last `months` calendar months, oldest first
+export async function getMonthlyCompletions(months: number, courseIds?: string[]): Promise<number[]> {
+  const now = new Date();
+  const monthKeys = Array.from({ length: months }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - (months - 1 - index), 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+  });
+  const since = new Date(now.getFullYear(), now.getMonth() - (months - 1), 1);
+  const rows = await storage.countCourseCompletionsByMonth(since, courseIds);
+  const byMonth = new Map(rows.map((row) => [row.month, row.completions]));
+  return monthKeys.map((month) => byMonth.get(month) ?? 0);
+}
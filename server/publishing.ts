@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import { UserFacingError } from "./errors";
+import type { Permission, SessionUser } from "./permissions";
+import type { Course, CourseStatus } from "@shared/schema";
+
+type CourseTransition = {
+  from: CourseStatus;
+  to: CourseStatus;
+  permission: Permission;
+  // Sending a course back has to say what needs to change
+  requiresComment?: boolean;
+  done: string;
+};
+
+// The publishing state machine. Teachers submit their courses for review and
+// archive or restore them; approving and sending back need courses:approve.
+export const courseTransitions = {
+  submit: { from: "draft", to: "in_review", permission: "courses:write", done: "submitted for review" },
+  withdraw: { from: "in_review", to: "draft", permission: "courses:write", done: "withdrawn from review" },
+  approve: { from: "in_review", to: "published", permission: "courses:approve", done: "approved" },
+  reject: {
+    from: "in_review",
+    to: "draft",
+    permission: "courses:approve",
+    requiresComment: true,
+    done: "sent back",
+  },
+  archive: { from: "published", to: "archived", permission: "courses:write", done: "archived" },
+  restore: { from: "archived", to: "draft", permission: "courses:write", done: "restored" },
+} satisfies Record<string, CourseTransition>;
+
+export type CourseAction = keyof typeof courseTransitions;
+
+export const courseActions = Object.keys(courseTransitions) as CourseAction[];
+
+const statusLabels: Record<CourseStatus, string> = {
+  draft: "a draft",
+  in_review: "in review",
+  published: "published",
+  archived: "archived",
+};
+
+export function courseStatus(course: Pick<Course, "status">): CourseStatus {
+  return (course.status ?? "draft") as CourseStatus;
+}
+
+// Applies `action` to the course and records who did it
+export async function transitionCourse(
+  user: SessionUser,
+  course: Course,
+  action: CourseAction,
+  comment?: string,
+): Promise<Course> {
+  const transition: CourseTransition = courseTransitions[action];
+  const current = courseStatus(course);
+  if (current !== transition.from) {
+    throw new UserFacingError(`The course is ${statusLabels[current]} and cannot be ${transition.done}`, 409);
+  }
+  if (action === "submit") {
+    const [lessons] = await storage.getLessonCountsByCourse([course.id]);
+    if (!lessons?.lessonCount) {
+      throw new UserFacingError("Add at least one lesson to the curriculum before submitting the course", 409);
+    }
+  }
+
+  const updated = await storage.changeCourseStatus(course.id, transition.from, transition.to, user.id, comment);
+  if (!updated) {
+    throw new UserFacingError("The course status changed in the meantime; reload and try again", 409);
+  }
+  return updated;
+}
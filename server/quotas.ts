@@ -0,0 +1,138 @@
+import { storage } from "./storage";
+import { UserFacingError } from "./errors";
+import type { SessionUser } from "./permissions";
+import type { Course, File, StorageQuota, User } from "@shared/schema";
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} bytes`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${parseFloat(value.toFixed(1))} ${units[unit]}`;
+}
+
+// A teacher's own quota, else the one for their role, else none
+async function userQuota(user: SessionUser): Promise<StorageQuota | undefined> {
+  return (
+    (await storage.getStorageQuota("teacher", user.id)) ??
+    (user.role ? await storage.getStorageQuota("role", user.role) : undefined)
+  );
+}
+
+async function usedBytes(usage: Promise<{ usedBytes: number }[]>): Promise<number> {
+  const [row] = await usage;
+  return row?.usedBytes ?? 0;
+}
+
+// Checks that `addedBytes` of new content fit both the uploader's quota and
+// the quota of the course it is stored in
+export async function checkStorageQuota(
+  uploadedBy: string,
+  courseId: string | null | undefined,
+  addedBytes: number,
+): Promise<void> {
+  const user = await storage.getUser(uploadedBy);
+  const quota = user ? await userQuota(user) : undefined;
+  if (quota) {
+    const used = await usedBytes(storage.getStorageUsageByUploader([uploadedBy]));
+    if (used + addedBytes > quota.limitBytes) {
+      throw new UserFacingError(
+        `This needs ${formatBytes(addedBytes)}, but only ${formatBytes(Math.max(0, quota.limitBytes - used))} ` +
+          `of your ${formatBytes(quota.limitBytes)} storage quota is left`,
+        413,
+      );
+    }
+  }
+
+  if (courseId) await checkCourseStorageQuota(courseId, addedBytes);
+}
+
+// Checks that `addedBytes` fit the quota of the course, for content that
+// keeps its uploader, e.g. files moved in from another course
+export async function checkCourseStorageQuota(courseId: string, addedBytes: number): Promise<void> {
+  const courseQuota = await storage.getStorageQuota("course", courseId);
+  if (courseQuota) {
+    const used = await usedBytes(storage.getStorageUsageByCourse([courseId]));
+    if (used + addedBytes > courseQuota.limitBytes) {
+      const course = await storage.getCourse(courseId);
+      throw new UserFacingError(
+        `This needs ${formatBytes(addedBytes)}, but only ${formatBytes(Math.max(0, courseQuota.limitBytes - used))} ` +
+          `of the ${formatBytes(courseQuota.limitBytes)} storage quota for ${course?.title ?? "this course"} is left`,
+        413,
+      );
+    }
+  }
+}
+
+// Checks that files moved into a course fit its quota. They keep their
+// uploader, so only the course's usage changes, and only for files coming
+// from another course.
+export async function checkMoveQuota(movedFiles: Pick<File, "id" | "courseId">[], courseId: string): Promise<void> {
+  const incoming = movedFiles.filter((file) => file.courseId !== courseId).map((file) => file.id);
+  const usage = await storage.getStorageUsageByFile(Array.from(new Set(incoming)));
+  await checkCourseStorageQuota(courseId, usage.reduce((total, entry) => total + entry.usedBytes, 0));
+}
+
+export type UsageEntry = { id: string; name: string; usedBytes: number; limitBytes: number | null };
+
+export type StorageUsageReport = {
+  user: { usedBytes: number; limitBytes: number | null };
+  courses: UsageEntry[];
+  // Only for super admins
+  teachers?: UsageEntry[];
+};
+
+function userName(user: User): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Unknown";
+}
+
+// The current user's usage and that of the courses they manage; super admins
+// also see every course and teacher
+export async function getStorageUsageReport(user: SessionUser): Promise<StorageUsageReport> {
+  const isAdmin = user.role === "super_admin";
+  const [quotas, courses] = await Promise.all([
+    storage.getStorageQuotas(),
+    isAdmin ? storage.getCourses() : storage.getCoursesByTeacher(user.id),
+  ]);
+  const limitFor = (scope: string, targetId: string) =>
+    quotas.find((quota) => quota.scope === scope && quota.targetId === targetId)?.limitBytes ?? null;
+
+  const [ownQuota, ownUsage, courseUsage] = await Promise.all([
+    userQuota(user),
+    usedBytes(storage.getStorageUsageByUploader([user.id])),
+    storage.getStorageUsageByCourse(courses.map((course) => course.id)),
+  ]);
+  const courseUsed = new Map(courseUsage.map((row) => [row.id, row.usedBytes]));
+
+  const report: StorageUsageReport = {
+    user: { usedBytes: ownUsage, limitBytes: ownQuota?.limitBytes ?? null },
+    courses: courses.map((course: Course) => ({
+      id: course.id,
+      name: course.title,
+      usedBytes: courseUsed.get(course.id) ?? 0,
+      limitBytes: limitFor("course", course.id),
+    })),
+  };
+
+  if (isAdmin) {
+    const teachers = await storage.getTeachers();
+    const teacherUsed = new Map(
+      (await storage.getStorageUsageByUploader(teachers.map((teacher) => teacher.id))).map((row) => [
+        row.id,
+        row.usedBytes,
+      ]),
+    );
+    report.teachers = teachers.map((teacher) => ({
+      id: teacher.id,
+      name: userName(teacher),
+      usedBytes: teacherUsed.get(teacher.id) ?? 0,
+      limitBytes: limitFor("teacher", teacher.id) ?? (teacher.role ? limitFor("role", teacher.role) : null),
+    }));
+  }
+
+  return report;
+}
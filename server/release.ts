@@ -0,0 +1,223 @@
+import { storage } from "./storage";
+import { UserFacingError } from "./errors";
+import type { CourseSection, File, Lesson, ReleaseRule, Student } from "@shared/schema";
+
+type Releasable = Pick<
+  CourseSection,
+  "releaseRule" | "releaseAt" | "releaseDays" | "releaseAfterLessonId" | "releaseAfterSectionId"
+>;
+
+export type ReleaseState = {
+  id: string;
+  title: string;
+  // Null while it waits for something to be completed
+  availableAt: Date | null;
+  available: boolean;
+  // The lesson or section that has to be completed first
+  waitingFor: string | null;
+};
+
+export type ReleaseSchedule = {
+  enrolledAt: Date;
+  // Lessons also say when the student completed them
+  sections: (ReleaseState & { lessons: (ReleaseState & { completedAt: Date | null })[] })[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function later(a: Date | null, b: Date | null): Date | null {
+  if (!a || !b) return null;
+  return a > b ? a : b;
+}
+
+// When each section and lesson of a course unlocks for a student who enrolled
+// at `enrolledAt` and completed the lessons in `completedLessons` (lesson id
+// to completion time). Lessons unlock no earlier than their section.
+export async function getReleaseSchedule(
+  courseId: string,
+  enrolledAt: Date,
+  completedLessons: Map<string, Date>,
+  now = new Date(),
+): Promise<ReleaseSchedule> {
+  const [sections, courseLessons] = await Promise.all([
+    storage.getCourseSections(courseId),
+    storage.getLessonsByCourse(courseId),
+  ]);
+  courseLessons.sort((a, b) => a.position - b.position);
+  const lessonsById = new Map(courseLessons.map((lesson) => [lesson.id, lesson]));
+  const sectionsById = new Map(sections.map((section) => [section.id, section]));
+
+  const ruleDate = (item: Releasable): { date: Date | null; waitingFor: string | null } => {
+    switch (item.releaseRule) {
+      case "date":
+        return { date: later(enrolledAt, item.releaseAt), waitingFor: null };
+      case "enrollment":
+        return { date: new Date(enrolledAt.getTime() + (item.releaseDays ?? 0) * DAY_MS), waitingFor: null };
+      case "completion": {
+        // A deleted prerequisite no longer holds anything back
+        const lesson = item.releaseAfterLessonId ? lessonsById.get(item.releaseAfterLessonId) : undefined;
+        if (lesson) {
+          const completedAt = completedLessons.get(lesson.id) ?? null;
+          return { date: later(enrolledAt, completedAt), waitingFor: completedAt ? null : lesson.title };
+        }
+        const section = item.releaseAfterSectionId ? sectionsById.get(item.releaseAfterSectionId) : undefined;
+        if (section) {
+          const completions = courseLessons
+            .filter((sectionLesson) => sectionLesson.sectionId === section.id)
+            .map((sectionLesson) => completedLessons.get(sectionLesson.id) ?? null);
+          const date = completions.reduce<Date | null>((latest, completedAt) => later(latest, completedAt), enrolledAt);
+          return { date, waitingFor: date ? null : section.title };
+        }
+        return { date: enrolledAt, waitingFor: null };
+      }
+      default:
+        return { date: enrolledAt, waitingFor: null };
+    }
+  };
+
+  const state = (item: { id: string; title: string }, date: Date | null, waitingFor: string | null): ReleaseState => ({
+    id: item.id,
+    title: item.title,
+    availableAt: date,
+    available: !!date && date <= now,
+    waitingFor,
+  });
+
+  return {
+    enrolledAt,
+    sections: sections.map((section) => {
+      const sectionRelease = ruleDate(section);
+      return {
+        ...state(section, sectionRelease.date, sectionRelease.waitingFor),
+        lessons: courseLessons
+          .filter((lesson) => lesson.sectionId === section.id)
+          .map((lesson) => {
+            const lessonRelease = ruleDate(lesson);
+            return {
+              ...state(
+                lesson,
+                later(sectionRelease.date, lessonRelease.date),
+                sectionRelease.waitingFor ?? lessonRelease.waitingFor,
+              ),
+              completedAt: completedLessons.get(lesson.id) ?? null,
+            };
+          }),
+      };
+    }),
+  };
+}
+
+// The schedule as it stands for an enrolled student
+export async function getStudentReleaseSchedule(student: Student, courseId: string): Promise<ReleaseSchedule> {
+  const [enrolledAt, progress] = await Promise.all([
+    storage.getEnrollmentDate(student, courseId),
+    storage.getLessonProgressByStudent(student.id),
+  ]);
+  const completedLessons = new Map(
+    progress
+      .filter((entry) => entry.courseId === courseId && entry.completedAt)
+      .map((entry) => [entry.lessonId, entry.completedAt!]),
+  );
+  return getReleaseSchedule(courseId, enrolledAt, completedLessons);
+}
+
+function findLesson(schedule: ReleaseSchedule, lessonId: string): ReleaseState | undefined {
+  return schedule.sections.flatMap((section) => section.lessons).find((lesson) => lesson.id === lessonId);
+}
+
+export async function isLessonReleased(student: Student, lesson: Lesson): Promise<boolean> {
+  const schedule = await getStudentReleaseSchedule(student, lesson.courseId);
+  return !!findLesson(schedule, lesson.id)?.available;
+}
+
+// A file used by lessons is released once one of those lessons is; files no
+// lesson uses are always available to enrolled students
+export async function isFileReleased(student: Student, file: File): Promise<boolean> {
+  const enrolled = student.enrolledCourses ?? [];
+  const fileLessons = (await storage.getLessonsByFile(file.id)).filter((lesson) =>
+    enrolled.includes(lesson.courseId),
+  );
+  if (fileLessons.length === 0) return true;
+
+  for (const courseId of Array.from(new Set(fileLessons.map((lesson) => lesson.courseId)))) {
+    const schedule = await getStudentReleaseSchedule(student, courseId);
+    if (fileLessons.some((lesson) => lesson.courseId === courseId && findLesson(schedule, lesson.id)?.available)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Checks that a rule's prerequisite is in the same course and would not make
+// the item wait for itself, and returns the rule with unused fields cleared
+export async function resolveReleaseRule(
+  courseId: string,
+  target: { type: "section" | "lesson"; id: string },
+  rule: ReleaseRule,
+): Promise<Required<ReleaseRule>> {
+  const resolved: Required<ReleaseRule> = {
+    releaseRule: rule.releaseRule,
+    releaseAt: rule.releaseRule === "date" ? rule.releaseAt ?? null : null,
+    releaseDays: rule.releaseRule === "enrollment" ? rule.releaseDays ?? null : null,
+    releaseAfterLessonId: rule.releaseRule === "completion" ? rule.releaseAfterLessonId ?? null : null,
+    releaseAfterSectionId: rule.releaseRule === "completion" ? rule.releaseAfterSectionId ?? null : null,
+  };
+  if (resolved.releaseRule !== "completion") return resolved;
+
+  const [sections, courseLessons] = await Promise.all([
+    storage.getCourseSections(courseId),
+    storage.getLessonsByCourse(courseId),
+  ]);
+  if (
+    (resolved.releaseAfterLessonId && !courseLessons.some((lesson) => lesson.id === resolved.releaseAfterLessonId)) ||
+    (resolved.releaseAfterSectionId && !sections.some((section) => section.id === resolved.releaseAfterSectionId))
+  ) {
+    throw new UserFacingError("Choose a lesson or section from this course");
+  }
+
+  assertNoReleaseCycle(
+    sections.map((section) => (target.type === "section" && section.id === target.id ? { ...section, ...resolved } : section)),
+    courseLessons.map((lesson) => (target.type === "lesson" && lesson.id === target.id ? { ...lesson, ...resolved } : lesson)),
+  );
+  return resolved;
+}
+
+// Throws if any section or lesson would wait for itself to be completed, for
+// example a lesson released after completing its own section
+export function assertNoReleaseCycle(
+  sections: (Releasable & Pick<CourseSection, "id" | "title">)[],
+  courseLessons: (Releasable & Pick<Lesson, "id" | "title" | "sectionId">)[],
+): void {
+  // Completing a section means completing every lesson in it
+  const prerequisites = (item: Releasable): string[] => {
+    if (item.releaseRule !== "completion") return [];
+    if (item.releaseAfterLessonId) return [`lesson:${item.releaseAfterLessonId}`];
+    return courseLessons
+      .filter((lesson) => lesson.sectionId === item.releaseAfterSectionId)
+      .map((lesson) => `lesson:${lesson.id}`);
+  };
+  const waitsFor = new Map<string, string[]>();
+  const titles = new Map<string, string>();
+  for (const section of sections) {
+    waitsFor.set(`section:${section.id}`, prerequisites(section));
+    titles.set(`section:${section.id}`, section.title);
+  }
+  for (const lesson of courseLessons) {
+    waitsFor.set(`lesson:${lesson.id}`, [`section:${lesson.sectionId}`, ...prerequisites(lesson)]);
+    titles.set(`lesson:${lesson.id}`, lesson.title);
+  }
+
+  const done = new Set<string>();
+  const visiting = new Set<string>();
+  const visit = (node: string) => {
+    if (done.has(node)) return;
+    if (visiting.has(node)) {
+      throw new UserFacingError(`"${titles.get(node)}" would wait for itself to be completed`);
+    }
+    visiting.add(node);
+    (waitsFor.get(node) ?? []).forEach(visit);
+    visiting.delete(node);
+    done.add(node);
+  };
+  Array.from(waitsFor.keys()).forEach(visit);
+}
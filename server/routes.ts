@@ -1,8 +1,84 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
+import fs from "fs";
+import { ZodError } from "zod";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated, login, logout } from "./auth";
+import { setupChatServer } from "./chat";
+import { UserFacingError } from "./errors";
+import { fileStorage, servedContentType } from "./fileStorage";
+import { startPreviewWorker } from "./previews";
+import { startTranscodeWorker } from "./transcoding";
+import { queueFileScan, startScanWorker, scanBlockReason } from "./scanning";
+import { checkStorageQuota, checkMoveQuota, getStorageUsageReport } from "./quotas";
+import { startBlobCleanup } from "./blobs";
+import { resolveLessonContent, checkOutlineOrder } from "./curriculum";
+import { getEnrollmentProgress, recordLessonProgress, getMonthlyCompletions } from "./progress";
+import {
+  getReleaseSchedule,
+  getStudentReleaseSchedule,
+  isLessonReleased,
+  resolveReleaseRule,
+} from "./release";
+import { courseActions, courseTransitions, transitionCourse } from "./publishing";
+import { cloneCourse } from "./cloning";
+import { getCourseStaffReport, setCourseStaffMember, removeCourseStaffMember } from "./staff";
+import {
+  checkPrerequisites,
+  checkEnrollmentPrerequisites,
+  checkPathOrder,
+  getDependencyGraph,
+} from "./prerequisites";
+import {
+  createSignedFileUrl,
+  verifySignedFileUrl,
+  createSignedZipUrl,
+  verifySignedZipUrl,
+  type FileUrlSubject,
+} from "./fileUrls";
+import {
+  deleteFileWithContent,
+  deleteFolderWithContent,
+  copyFile,
+  copyFolder,
+  isFolderWithin,
+  collectZipEntries,
+  streamZip,
+  type FolderTarget,
+} from "./fileOperations";
+import {
+  uploadSingleFile,
+  uploadLinkSchema,
+  checkUploadLinks,
+  storeUploadedFile,
+  storeFileVersion,
+  createStagingFile,
+  appendChunk,
+  finalizeUpload,
+  discardUploadSession,
+  uploadSessionExpiry,
+  startUploadCleanup,
+  withUploadLock,
+  MAX_RESUMABLE_UPLOAD_BYTES,
+} from "./uploads";
+import {
+  setupAuth,
+  isAuthenticated,
+  login,
+  logout,
+  register,
+  sanitizeUser,
+} from "./auth";
+import {
+  requirePermission,
+  canManageCourse,
+  canManageCourseById,
+  canActInCourse,
+  canAccessClass,
+  canAccessChannel,
+  canAccessFile,
+  canStudentAccessFile,
+  canAccessFolder,
+} from "./permissions";
 import { 
   insertCourseSchema,
   insertClassSchema,
@@ -10,21 +86,46 @@ import {
   insertStudentSchema,
   insertCouponSchema,
   insertCampaignSchema,
-  insertChatMessageSchema 
+  insertChatChannelSchema,
+  insertUploadSessionSchema,
+  insertFileFolderSchema,
+  insertStorageQuotaSchema,
+  insertCourseSectionSchema,
+  insertLessonSchema,
+  courseOutlineOrderSchema,
+  lessonProgressUpdateSchema,
+  releaseRuleSchema,
+  courseTransitionSchema,
+  courseCloneSchema,
+  insertCourseReviewCommentSchema,
+  courseStaffMemberSchema,
+  coursePrerequisitesSchema,
+  insertLearningPathSchema,
+  enrollmentSchema,
+  insertStudentReviewSchema,
+  reviewModerationSchema,
+  studentReviewStatuses,
+  roleEnum,
+  fileSelectionSchema,
+  fileMoveSchema,
+  type File,
+  type FileSelection,
+  type StudentReviewStatus,
 } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
-  await setupAuth(app);
+  const sessionMiddleware = await setupAuth(app);
 
   // Auth routes
   app.post('/api/auth/login', login);
   app.post('/api/auth/logout', logout);
-  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
+  app.post('/api/auth/register', requirePermission("users:register"), register);
+  app.get('/api/auth/user', isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user.id;
+      const userId = req.user!.id;
       const user = await storage.getUser(userId);
-      res.json(user);
+      res.json(user ? sanitizeUser(user) : null);
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -32,180 +133,1621 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Course routes
-  app.get("/api/courses", isAuthenticated, async (req, res) => {
+  app.get("/api/courses", requirePermission("courses:read"), async (req, res) => {
     try {
-      const courses = await storage.getCourses();
+      const courses = req.user!.role === "teacher"
+        ? await storage.getCoursesByTeacher(req.user!.id)
+        : await storage.getCourses();
       res.json(courses);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch courses" });
     }
   });
 
-  app.get("/api/courses/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/courses/:id", requirePermission("courses:read"), async (req, res) => {
     try {
       const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "course:read"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      res.json(course);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch course" });
+    }
+  });
+
+  app.post("/api/courses", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const courseData = insertCourseSchema.parse(req.body);
+      if (!canManageCourse(req.user!, courseData)) {
+        return res.status(403).json({ message: "Teachers can only create their own courses" });
+      }
+      const course = await storage.createCourse(courseData);
+      res.json(course);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid course data" });
+    }
+  });
+
+  app.put("/api/courses/:id", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const existing = await storage.getCourse(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      if (!canManageCourse(req.user!, existing)) {
+        return res.status(403).json({ message: "You can only update your own courses" });
+      }
+      if (req.body.status !== undefined) {
+        return res.status(400).json({ message: "Use the publishing actions to change a course's status" });
+      }
+      const courseData = insertCourseSchema.partial().parse(req.body);
+      if (courseData.teacherId !== undefined && !canManageCourse(req.user!, courseData)) {
+        return res.status(403).json({ message: "You cannot reassign this course" });
+      }
+      const course = await storage.updateCourse(req.params.id, courseData);
+      if (courseData.teacherId !== undefined && courseData.teacherId !== existing.teacherId) {
+        await storage.syncCourseChatChannels(course.id);
+      }
+      res.json(course);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update course" });
+    }
+  });
+
+  app.delete("/api/courses/:id", requirePermission("courses:delete"), async (req, res) => {
+    try {
+      const existing = await storage.getCourse(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      if (!canManageCourse(req.user!, existing)) {
+        return res.status(403).json({ message: "You can only delete your own courses" });
+      }
+      await storage.deleteCourse(req.params.id);
+      res.json({ message: "Course deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete course" });
+    }
+  });
+
+  // Copies the course with its classes, tests, files and curriculum as a new
+  // draft, and reports what was copied
+  app.post("/api/courses/:id/clone", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const source = await storage.getCourse(req.params.id);
+      if (!source || !canManageCourse(req.user!, source)) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const parsed = courseCloneSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid clone options" });
+      }
+      const options = parsed.data;
+      if (options.teacherId !== undefined && !canManageCourse(req.user!, options)) {
+        return res.status(403).json({ message: "Teachers can only create their own courses" });
+      }
+      res.status(201).json(await cloneCourse(source, options, req.user!.id));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error cloning course:", error);
+      res.status(500).json({ message: "Failed to clone course" });
+    }
+  });
+
+  // Publishing routes. Courses move draft -> in_review -> published ->
+  // archived, one action at a time, and every change is recorded.
+  for (const action of courseActions) {
+    const transition = courseTransitions[action];
+    app.post(`/api/courses/:id/${action}`, requirePermission(transition.permission), async (req, res) => {
+      try {
+        const course = await storage.getCourse(req.params.id);
+        if (!course || !canManageCourse(req.user!, course)) {
+          return res.status(404).json({ message: "Course not found" });
+        }
+        const { comment } = courseTransitionSchema.parse(req.body ?? {});
+        if ("requiresComment" in transition && transition.requiresComment && !comment) {
+          return res.status(400).json({ message: "Add a comment saying what needs to change" });
+        }
+        res.json(await transitionCourse(req.user!, course, action, comment));
+      } catch (error) {
+        if (error instanceof UserFacingError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        res.status(400).json({ message: "Failed to change course status" });
+      }
+    });
+  }
+
+  // Status changes, oldest first
+  app.get("/api/courses/:id/status-history", requirePermission("courses:read"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "course:read"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      res.json(await storage.getCourseStatusChanges(course.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch status history" });
+    }
+  });
+
+  app.get("/api/courses/:id/review-comments", requirePermission("courses:read"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "course:read"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      res.json(await storage.getCourseReviewComments(course.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch review comments" });
+    }
+  });
+
+  // Reviewers comment on any course; teachers reply on their own
+  app.post("/api/courses/:id/review-comments", requirePermission("courses:review"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "course:read"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const { body } = insertCourseReviewCommentSchema.parse(req.body);
+      res.json(await storage.createCourseReviewComment(course.id, req.user!.id, body));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid comment" });
+    }
+  });
+
+  // Staff routes. A course has one lead, its teacher, plus any number of
+  // co-teachers and TAs, each allowed what their role permits.
+  app.get("/api/courses/:id/staff", requirePermission("courses:read"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "course:read"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      res.json(await getCourseStaffReport(req.user!, course));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch course staff" });
+    }
+  });
+
+  // Adds a co-teacher or TA, or changes their role
+  app.put("/api/courses/:id/staff", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !canManageCourse(req.user!, course)) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const parsed = courseStaffMemberSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid staff member" });
+      }
+      await setCourseStaffMember(course, parsed.data, req.user!.id);
+      res.json(await getCourseStaffReport(req.user!, course));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating course staff:", error);
+      res.status(500).json({ message: "Failed to update course staff" });
+    }
+  });
+
+  app.delete("/api/courses/:id/staff/:userId", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !canManageCourse(req.user!, course)) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      await removeCourseStaffMember(course, req.params.userId);
+      res.json(await getCourseStaffReport(req.user!, course));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to remove staff member" });
+    }
+  });
+
+  // Prerequisite routes. A course can require other courses to be completed
+  // before students enroll in it; the requirements never go round in a circle.
+  app.get("/api/courses/:id/dependencies", requirePermission("courses:read"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "course:read"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      res.json(await getDependencyGraph(course));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch course dependencies" });
+    }
+  });
+
+  // Replaces the course's prerequisites. Students already enrolled keep their
+  // enrollment.
+  app.put("/api/courses/:id/prerequisites", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !canManageCourse(req.user!, course)) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const parsed = coursePrerequisitesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid prerequisites" });
+      }
+      await checkPrerequisites(course, parsed.data.prerequisiteIds);
+      await storage.setCoursePrerequisites(course.id, parsed.data.prerequisiteIds);
+      res.json(await getDependencyGraph(course));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating prerequisites:", error);
+      res.status(500).json({ message: "Failed to update prerequisites" });
+    }
+  });
+
+  // Learning paths bundle courses in the order they are taken
+  app.get("/api/learning-paths", requirePermission("courses:read"), async (req, res) => {
+    try {
+      res.json(await storage.getLearningPaths());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch learning paths" });
+    }
+  });
+
+  app.post("/api/learning-paths", requirePermission("paths:write"), async (req, res) => {
+    try {
+      const parsed = insertLearningPathSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid learning path data" });
+      }
+      await checkPathOrder(parsed.data.courseIds);
+      const path = await storage.createLearningPath(parsed.data, req.user!.id);
+      res.status(201).json(await storage.getLearningPath(path.id));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating learning path:", error);
+      res.status(500).json({ message: "Failed to create learning path" });
+    }
+  });
+
+  app.put("/api/learning-paths/:id", requirePermission("paths:write"), async (req, res) => {
+    try {
+      if (!(await storage.getLearningPath(req.params.id))) {
+        return res.status(404).json({ message: "Learning path not found" });
+      }
+      const parsed = insertLearningPathSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid learning path data" });
+      }
+      await checkPathOrder(parsed.data.courseIds);
+      await storage.updateLearningPath(req.params.id, parsed.data);
+      res.json(await storage.getLearningPath(req.params.id));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating learning path:", error);
+      res.status(500).json({ message: "Failed to update learning path" });
+    }
+  });
+
+  app.delete("/api/learning-paths/:id", requirePermission("paths:write"), async (req, res) => {
+    try {
+      if (!(await storage.getLearningPath(req.params.id))) {
+        return res.status(404).json({ message: "Learning path not found" });
+      }
+      await storage.deleteLearningPath(req.params.id);
+      res.json({ message: "Learning path deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete learning path" });
+    }
+  });
+
+  // Curriculum routes. A course's curriculum is ordered sections of lessons,
+  // each lesson linking to a video, PDF, class or test of the course.
+  app.get("/api/courses/:id/outline", requirePermission("courses:read"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "course:read"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      res.json(await storage.getCourseOutline(course.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch course outline" });
+    }
+  });
+
+  // Sets the order of every section and lesson, including moves between sections
+  app.put("/api/courses/:id/outline/order", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "curriculum:write"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const order = courseOutlineOrderSchema.parse(req.body);
+      await checkOutlineOrder(course.id, order);
+      await storage.reorderCourseOutline(course.id, order);
+      res.json(await storage.getCourseOutline(course.id));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid curriculum order" });
+    }
+  });
+
+  // Progress of each student enrolled in the course
+  app.get("/api/courses/:id/progress", requirePermission("courses:read"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "course:read"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const students = await storage.getStudentsByCourse(course.id);
+      const progress = await getEnrollmentProgress(students, [course.id]);
+      res.json(
+        progress.map((entry) => {
+          const student = students.find((item) => item.id === entry.studentId)!;
+          return { ...entry, student: { id: student.id, name: student.name, email: student.email } };
+        }),
+      );
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch course progress" });
+    }
+  });
+
+  // When each section and lesson unlocks, for an enrolled student with
+  // `studentId`, or for someone enrolling on `enrolledAt` (default now) who
+  // has not completed anything yet
+  app.get("/api/courses/:id/release-schedule", requirePermission("courses:read"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "course:read"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      if (typeof req.query.studentId === "string") {
+        const student = await storage.getStudent(req.query.studentId);
+        if (!student || !(student.enrolledCourses ?? []).includes(course.id)) {
+          return res.status(400).json({ message: "The student is not enrolled in this course" });
+        }
+        return res.json(await getStudentReleaseSchedule(student, course.id));
+      }
+      const enrolledAt = typeof req.query.enrolledAt === "string" ? new Date(req.query.enrolledAt) : new Date();
+      if (isNaN(enrolledAt.getTime())) {
+        return res.status(400).json({ message: "Invalid enrollment date" });
+      }
+      res.json(await getReleaseSchedule(course.id, enrolledAt, new Map()));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch release schedule" });
+    }
+  });
+
+  app.post("/api/courses/:id/sections", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course || !(await canActInCourse(req.user!, course, "curriculum:write"))) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const sectionData = insertCourseSectionSchema.parse(req.body);
+      const section = await storage.createCourseSection(course.id, sectionData);
+      res.status(201).json(section);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid section data" });
+    }
+  });
+
+  const getManagedSection = async (req: Request) => {
+    const section = await storage.getCourseSection(req.params.id);
+    if (!section || !(await canManageCourseById(req.user!, section.courseId, "curriculum:write"))) return undefined;
+    return section;
+  };
+
+  app.patch("/api/courses/sections/:id", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const section = await getManagedSection(req);
+      if (!section) {
+        return res.status(404).json({ message: "Section not found" });
+      }
+      const sectionData = insertCourseSectionSchema.partial().parse(req.body);
+      res.json(await storage.updateCourseSection(section.id, sectionData));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid section data" });
+    }
+  });
+
+  app.put("/api/courses/sections/:id/release", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const section = await getManagedSection(req);
+      if (!section) {
+        return res.status(404).json({ message: "Section not found" });
+      }
+      const rule = await resolveReleaseRule(
+        section.courseId,
+        { type: "section", id: section.id },
+        releaseRuleSchema.parse(req.body),
+      );
+      res.json(await storage.updateCourseSection(section.id, rule));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid release rule" });
+    }
+  });
+
+  // Deleting a section deletes its lessons; the linked content stays
+  app.delete("/api/courses/sections/:id", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const section = await getManagedSection(req);
+      if (!section) {
+        return res.status(404).json({ message: "Section not found" });
+      }
+      await storage.deleteCourseSection(section.id);
+      res.json({ message: "Section deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete section" });
+    }
+  });
+
+  app.post("/api/courses/sections/:id/lessons", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const section = await getManagedSection(req);
+      if (!section) {
+        return res.status(404).json({ message: "Section not found" });
+      }
+      const lessonData = insertLessonSchema.parse(req.body);
+      const link = await resolveLessonContent(section.courseId, lessonData);
+      const lesson = await storage.createLesson(section, { ...lessonData, ...link });
+      res.status(201).json(lesson);
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid lesson data" });
+    }
+  });
+
+  const getManagedLesson = async (req: Request) => {
+    const lesson = await storage.getLesson(req.params.id);
+    if (!lesson || !(await canManageCourseById(req.user!, lesson.courseId, "curriculum:write"))) return undefined;
+    return lesson;
+  };
+
+  // Renames a lesson or changes what it links to
+  app.patch("/api/courses/lessons/:id", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const lesson = await getManagedLesson(req);
+      if (!lesson) {
+        return res.status(404).json({ message: "Lesson not found" });
+      }
+      const lessonData = insertLessonSchema.partial().parse(req.body);
+      const relinks = ["kind", "fileId", "classId", "testId"].some(
+        (field) => lessonData[field as keyof typeof lessonData] !== undefined,
+      );
+      if (relinks) {
+        Object.assign(
+          lessonData,
+          await resolveLessonContent(lesson.courseId, {
+            kind: lessonData.kind ?? lesson.kind,
+            fileId: lessonData.fileId !== undefined ? lessonData.fileId : lesson.fileId,
+            classId: lessonData.classId !== undefined ? lessonData.classId : lesson.classId,
+            testId: lessonData.testId !== undefined ? lessonData.testId : lesson.testId,
+          }),
+        );
+      }
+      res.json(await storage.updateLesson(lesson.id, lessonData));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid lesson data" });
+    }
+  });
+
+  app.put("/api/courses/lessons/:id/release", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const lesson = await getManagedLesson(req);
+      if (!lesson) {
+        return res.status(404).json({ message: "Lesson not found" });
+      }
+      const rule = await resolveReleaseRule(
+        lesson.courseId,
+        { type: "lesson", id: lesson.id },
+        releaseRuleSchema.parse(req.body),
+      );
+      res.json(await storage.updateLesson(lesson.id, rule));
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid release rule" });
+    }
+  });
+
+  app.delete("/api/courses/lessons/:id", requirePermission("courses:write"), async (req, res) => {
+    try {
+      const lesson = await getManagedLesson(req);
+      if (!lesson) {
+        return res.status(404).json({ message: "Lesson not found" });
+      }
+      await storage.deleteLesson(lesson.id);
+      res.json({ message: "Lesson deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete lesson" });
+    }
+  });
+
+  // Class routes
+  app.get("/api/classes", requirePermission("classes:read"), async (req, res) => {
+    try {
+      const classes = req.user!.role === "teacher"
+        ? await storage.getClassesByTeacher(req.user!.id)
+        : await storage.getClasses();
+      res.json(classes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch classes" });
+    }
+  });
+
+  app.get("/api/classes/:id", requirePermission("classes:read"), async (req, res) => {
+    try {
+      const classData = await storage.getClass(req.params.id);
+      if (!classData || !(await canAccessClass(req.user!, classData))) {
+        return res.status(404).json({ message: "Class not found" });
+      }
+      res.json(classData);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch class" });
+    }
+  });
+
+  app.post("/api/classes", requirePermission("classes:write"), async (req, res) => {
+    try {
+      const classData = insertClassSchema.parse(req.body);
+      if (!(await canManageCourseById(req.user!, classData.courseId, "classes:write"))) {
+        return res.status(403).json({ message: "You can only add classes to your own courses" });
+      }
+      const newClass = await storage.createClass(classData);
+      res.json(newClass);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid class data" });
+    }
+  });
+
+  // Test routes
+  app.get("/api/tests", requirePermission("tests:read"), async (req, res) => {
+    try {
+      const tests = req.user!.role === "teacher"
+        ? await storage.getTestsByTeacher(req.user!.id)
+        : await storage.getTests();
+      res.json(tests);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tests" });
+    }
+  });
+
+  app.post("/api/tests", requirePermission("tests:write"), async (req, res) => {
+    try {
+      const testData = insertTestSchema.parse(req.body);
+      if (!(await canManageCourseById(req.user!, testData.courseId, "tests:write"))) {
+        return res.status(403).json({ message: "You can only add tests to your own courses" });
+      }
+      const test = await storage.createTest(testData);
+      res.json(test);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid test data" });
+    }
+  });
+
+  // Student routes
+  app.get("/api/students", requirePermission("students:read"), async (req, res) => {
+    try {
+      const students = await storage.getStudents();
+      res.json(students);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch students" });
+    }
+  });
+
+  // Course progress of every enrolled student; teachers get their own courses
+  app.get("/api/students/progress", requirePermission("students:read"), async (req, res) => {
+    try {
+      const courseIds = req.user!.role === "teacher"
+        ? (await storage.getCoursesByTeacher(req.user!.id)).map((course) => course.id)
+        : undefined;
+      const students = await storage.getStudents();
+      res.json(await getEnrollmentProgress(students, courseIds));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch student progress" });
+    }
+  });
+
+  // Records how far a student has got with a lesson. The response says
+  // whether this completed the course.
+  app.put(
+    "/api/students/:id/lessons/:lessonId/progress",
+    requirePermission("progress:write"),
+    async (req, res) => {
+      try {
+        const update = lessonProgressUpdateSchema.parse(req.body);
+        const [student, lesson] = await Promise.all([
+          storage.getStudent(req.params.id),
+          storage.getLesson(req.params.lessonId),
+        ]);
+        if (!student) {
+          return res.status(404).json({ message: "Student not found" });
+        }
+        if (!lesson || !(await canManageCourseById(req.user!, lesson.courseId, "progress:write"))) {
+          return res.status(404).json({ message: "Lesson not found" });
+        }
+        if (!(student.enrolledCourses ?? []).includes(lesson.courseId)) {
+          return res.status(400).json({ message: "The student is not enrolled in this course" });
+        }
+        if (!(await isLessonReleased(student, lesson))) {
+          return res.status(403).json({ message: "This lesson has not been released to the student yet" });
+        }
+        res.json(await recordLessonProgress(student, lesson, update));
+      } catch (error) {
+        res.status(400).json({ message: "Invalid progress data" });
+      }
+    },
+  );
+
+  app.post("/api/students", requirePermission("students:write"), async (req, res) => {
+    try {
+      const studentData = insertStudentSchema.parse(req.body);
+      await checkEnrollmentPrerequisites(null, studentData.enrolledCourses ?? []);
+      const student = await storage.createStudent(studentData);
+      for (const courseId of student.enrolledCourses ?? []) {
+        await storage.syncCourseChatChannels(courseId);
+      }
+      res.json(student);
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid student data" });
+    }
+  });
+
+  // Enrolls an existing student in one more course, once they have completed
+  // its prerequisites
+  app.post("/api/students/:id/enrollments", requirePermission("students:write"), async (req, res) => {
+    try {
+      const parsed = enrollmentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid enrollment data" });
+      }
+      const { courseId } = parsed.data;
+      const [student, course] = await Promise.all([storage.getStudent(req.params.id), storage.getCourse(courseId)]);
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const enrolledCourses = student.enrolledCourses ?? [];
+      if (enrolledCourses.includes(courseId)) {
+        return res.status(409).json({ message: "The student is already enrolled in this course" });
+      }
+      await checkEnrollmentPrerequisites(student.id, [courseId]);
+      const updated = await storage.updateStudent(student.id, { enrolledCourses: [...enrolledCourses, courseId] });
+      await storage.syncCourseChatChannels(courseId);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error enrolling student:", error);
+      res.status(500).json({ message: "Failed to enroll student" });
+    }
+  });
+
+  // Review routes. Support staff record a student's rating and review of a
+  // course they are enrolled in; reviews count once a moderator approves them.
+  app.put("/api/students/:id/courses/:courseId/review", requirePermission("reviews:write"), async (req, res) => {
+    try {
+      const [student, course] = await Promise.all([
+        storage.getStudent(req.params.id),
+        storage.getCourse(req.params.courseId),
+      ]);
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
       if (!course) {
         return res.status(404).json({ message: "Course not found" });
       }
-      res.json(course);
+      if (!(student.enrolledCourses ?? []).includes(course.id)) {
+        return res.status(400).json({ message: "The student is not enrolled in this course" });
+      }
+      const parsed = insertStudentReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Give a rating from 1 to 5" });
+      }
+      res.json(await storage.saveStudentReview(student.id, course.id, parsed.data, req.user!.id));
+    } catch (error) {
+      console.error("Error saving review:", error);
+      res.status(500).json({ message: "Failed to save review" });
+    }
+  });
+
+  // The moderation queue: pending reviews unless `status` says otherwise
+  app.get("/api/reviews", requirePermission("reviews:moderate"), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : "pending";
+      if (!(studentReviewStatuses as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: "Invalid review status" });
+      }
+      res.json(await storage.getStudentReviews({ status: status as StudentReviewStatus }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.post("/api/reviews/:id/moderate", requirePermission("reviews:moderate"), async (req, res) => {
+    try {
+      const review = await storage.getStudentReview(req.params.id);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      if (review.submittedBy === req.user!.id) {
+        return res.status(403).json({ message: "Another moderator has to review a review you entered" });
+      }
+      const parsed = reviewModerationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid moderation decision" });
+      }
+      res.json(await storage.moderateStudentReview(req.params.id, parsed.data, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to moderate review" });
+    }
+  });
+
+  // Average approved rating of every course that has one
+  app.get("/api/course-ratings", requirePermission("courses:read"), async (req, res) => {
+    try {
+      res.json(await storage.getCourseRatings());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch course ratings" });
+    }
+  });
+
+  // Average approved rating over the courses each teacher leads
+  app.get("/api/teacher-ratings", requirePermission("teachers:read"), async (req, res) => {
+    try {
+      res.json(await storage.getTeacherRatings());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch teacher ratings" });
+    }
+  });
+
+  // Coupon routes
+  app.get("/api/coupons", requirePermission("coupons:read"), async (req, res) => {
+    try {
+      const coupons = await storage.getCoupons();
+      res.json(coupons);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch coupons" });
+    }
+  });
+
+  app.post("/api/coupons", requirePermission("coupons:write"), async (req, res) => {
+    try {
+      const couponData = insertCouponSchema.parse(req.body);
+      const coupon = await storage.createCoupon(couponData);
+      res.json(coupon);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid coupon data" });
+    }
+  });
+
+  // Campaign routes
+  app.get("/api/campaigns", requirePermission("campaigns:read"), async (req, res) => {
+    try {
+      const campaigns = await storage.getCampaigns();
+      res.json(campaigns);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch campaigns" });
+    }
+  });
+
+  app.post("/api/campaigns", requirePermission("campaigns:write"), async (req, res) => {
+    try {
+      const campaignData = insertCampaignSchema.parse(req.body);
+      const campaign = await storage.createCampaign(campaignData);
+      res.json(campaign);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid campaign data" });
+    }
+  });
+
+  // File routes
+  app.get("/api/files", requirePermission("files:read"), async (req, res) => {
+    try {
+      const files = req.user!.role === "teacher"
+        ? await storage.getFilesByTeacher(req.user!.id)
+        : await storage.getFiles();
+      res.json(files);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch files" });
+    }
+  });
+
+  app.post("/api/files", requirePermission("files:write"), uploadSingleFile, async (req, res) => {
+    const uploaded: Express.Multer.File | undefined = req.file;
+    if (!uploaded) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    try {
+      const links = uploadLinkSchema.parse({
+        courseId: req.body.courseId || null,
+        classId: req.body.classId || null,
+        folderId: req.body.folderId || null,
+      });
+      const linkError = await checkUploadLinks(req.user!, links);
+      if (linkError) {
+        return res.status(403).json({ message: linkError });
+      }
+
+      const file = await storeUploadedFile(
+        {
+          path: uploaded.path,
+          name: uploaded.originalname,
+          mimeType: uploaded.mimetype,
+          size: uploaded.size,
+        },
+        links,
+        req.user!.id,
+      );
+      res.status(201).json(file);
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error uploading file:", error);
+      res.status(500).json({ message: "Failed to upload file" });
+    } finally {
+      fs.promises.rm(uploaded.path, { force: true }).catch(() => {});
+    }
+  });
+
+  // File version routes. The file id stays the same across versions, so
+  // courses and classes linking to it always get the current content.
+  app.get("/api/files/:id/versions", requirePermission("files:read"), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || !(await canAccessFile(req.user!, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      res.json(await storage.getFileVersions(file.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch file versions" });
+    }
+  });
+
+  app.post("/api/files/:id/versions", requirePermission("files:write"), uploadSingleFile, async (req, res) => {
+    const uploaded: Express.Multer.File | undefined = req.file;
+    if (!uploaded) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || !(await canAccessFile(req.user!, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const updatedFile = await storeFileVersion(
+        {
+          path: uploaded.path,
+          name: uploaded.originalname,
+          mimeType: uploaded.mimetype,
+          size: uploaded.size,
+        },
+        file.id,
+        req.user!.id,
+      );
+      res.status(201).json(updatedFile);
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error uploading file version:", error);
+      res.status(500).json({ message: "Failed to upload file version" });
+    } finally {
+      fs.promises.rm(uploaded.path, { force: true }).catch(() => {});
+    }
+  });
+
+  // Rolling back adds a new version with the old content, so history is kept
+  app.post("/api/files/:id/versions/:version/restore", requirePermission("files:write"), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || !(await canAccessFile(req.user!, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const version = await storage.getFileVersion(file.id, Number(req.params.version));
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      if (version.version === file.currentVersion) {
+        return res.status(400).json({ message: "This is already the current version" });
+      }
+
+      const updatedFile = await storage.addFileVersion(file.id, {
+        name: version.name,
+        type: version.type,
+        mimeType: version.mimeType,
+        storageKey: version.storageKey,
+        contentHash: version.contentHash,
+        size: version.size,
+        uploadedBy: req.user!.id,
+        restoredFrom: version.version,
+      });
+      queueFileScan(updatedFile);
+      res.json(updatedFile);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch course" });
+      res.status(500).json({ message: "Failed to restore file version" });
     }
   });
 
-  app.post("/api/courses", isAuthenticated, async (req, res) => {
+  // Generated thumbnails and previews. These are small derived images, so they
+  // are served with the session like other page data rather than signed links.
+  const servePreviewImage = (kind: "thumbnailKey" | "previewKey") => async (req: Request, res: Response) => {
     try {
-      const courseData = insertCourseSchema.parse(req.body);
-      const course = await storage.createCourse(courseData);
-      res.json(course);
+      const file = await storage.getFile(req.params.id);
+      if (!file || !(await canAccessFile(req.user!, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      const key = file.previewStatus === "ready" ? file[kind] : null;
+      if (!key) {
+        return res.status(404).json({ message: "Preview not available" });
+      }
+
+      const body = await fileStorage.get(key);
+      res.setHeader("Content-Type", "image/webp");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      body.on("error", (error) => {
+        console.error("Error streaming preview:", error);
+        res.destroy(error);
+      });
+      body.pipe(res);
     } catch (error) {
-      res.status(400).json({ message: "Invalid course data" });
+      res.status(500).json({ message: "Failed to fetch preview" });
+    }
+  };
+
+  app.get("/api/files/:id/thumbnail", requirePermission("files:read"), servePreviewImage("thumbnailKey"));
+  app.get("/api/files/:id/preview", requirePermission("files:read"), servePreviewImage("previewKey"));
+
+  // HLS renditions of a transcoded video. The player fetches the master
+  // playlist, then the rendition playlists and segments it lists by relative
+  // path, so everything is served under one session-checked prefix.
+  const HLS_CONTENT_TYPES: Record<string, string> = {
+    m3u8: "application/vnd.apple.mpegurl",
+    ts: "video/mp2t",
+    jpg: "image/jpeg",
+  };
+
+  const serveTranscodedVideo = (resolveKey: (file: File, name: string) => string | null) =>
+    async (req: Request, res: Response) => {
+      try {
+        const file = await storage.getFile(req.params.id);
+        if (!file || !(await canAccessFile(req.user!, file))) {
+          return res.status(404).json({ message: "File not found" });
+        }
+        const key = file.transcodeStatus === "ready" ? resolveKey(file, req.params[0] ?? "") : null;
+        if (!key) {
+          return res.status(404).json({ message: "Video not available" });
+        }
+
+        const body = await fileStorage.get(key);
+        res.setHeader("Content-Type", HLS_CONTENT_TYPES[key.split(".").pop()!]);
+        res.setHeader("Cache-Control", "private, max-age=3600");
+        body.on("error", (error) => {
+          console.error("Error streaming video:", error);
+          res.destroy(error);
+        });
+        body.pipe(res);
+      } catch (error) {
+        res.status(500).json({ message: "Failed to fetch video" });
+      }
+    };
+
+  app.get(
+    "/api/files/:id/poster",
+    requirePermission("files:read"),
+    serveTranscodedVideo((file) => file.posterKey),
+  );
+  app.get(
+    "/api/files/:id/hls/*",
+    requirePermission("files:read"),
+    // Only names ffmpeg writes, e.g. master.m3u8 or 720p/segment_004.ts
+    serveTranscodedVideo((file, name) =>
+      file.hlsKey && /^([\w-]+\/)?[\w-]+\.(m3u8|ts)$/.test(name) ? `${file.hlsKey}/${name}` : null,
+    ),
+  );
+
+  // Issues a short-lived download link for the current user, or for an
+  // enrolled student when `studentId` is given. `version` pins an older version.
+  app.get("/api/files/:id/url", requirePermission("files:read"), async (req, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || !file.storageKey || !(await canAccessFile(req.user!, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      let subject: FileUrlSubject = { kind: "user", id: req.user!.id };
+      if (typeof req.query.studentId === "string") {
+        const student = await storage.getStudent(req.query.studentId);
+        if (!student || !(await canStudentAccessFile(student, file))) {
+          return res.status(403).json({ message: "This file is not available to the student" });
+        }
+        subject = { kind: "student", id: student.id };
+      }
+
+      const version = req.query.version ? Number(req.query.version) : undefined;
+      const content = version !== undefined ? await storage.getFileVersion(file.id, version) : file;
+      if (!content) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      const blocked = scanBlockReason(content.scanStatus);
+      if (blocked) {
+        return res.status(403).json({ message: blocked });
+      }
+
+      res.json(createSignedFileUrl(file.id, subject, { inline: !!req.query.inline, version }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create download link" });
     }
   });
 
-  app.put("/api/courses/:id", isAuthenticated, async (req, res) => {
+  // Authorized by the signed link rather than the session, so links work in
+  // <video> tags and for students. Access is checked again for whoever the
+  // link was issued to.
+  app.get("/api/files/:id/download", async (req, res) => {
     try {
-      const courseData = insertCourseSchema.partial().parse(req.body);
-      const course = await storage.updateCourse(req.params.id, courseData);
-      res.json(course);
+      const subject = verifySignedFileUrl(req.params.id, req.query);
+      if (!subject) {
+        return res.status(403).json({ message: "Download link is invalid or has expired" });
+      }
+
+      const file = await storage.getFile(req.params.id);
+      if (!file || !file.storageKey) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      let allowed = false;
+      if (subject.kind === "user") {
+        const user = await storage.getUser(subject.id);
+        allowed = !!user && (await canAccessFile(user, file));
+      } else {
+        const student = await storage.getStudent(subject.id);
+        allowed = !!student && (await canStudentAccessFile(student, file));
+      }
+      if (!allowed) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const content = req.query.version
+        ? await storage.getFileVersion(file.id, Number(req.query.version))
+        : file;
+      if (!content?.storageKey) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      // Checked again here, as the scan can change after the link was issued
+      const blocked = scanBlockReason(content.scanStatus);
+      if (blocked) {
+        return res.status(403).json({ message: blocked });
+      }
+
+      const body = await fileStorage.get(content.storageKey);
+      const served = servedContentType(content.name);
+      // The inline flag is covered by the signature
+      const disposition = req.query.inline === "1" && served.inline ? "inline" : "attachment";
+      res.setHeader("Content-Type", served.contentType);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Content-Security-Policy", "sandbox");
+      res.setHeader("Cache-Control", "private, no-store");
+      if (content.size) res.setHeader("Content-Length", String(content.size));
+      res.setHeader(
+        "Content-Disposition",
+        `${disposition}; filename*=UTF-8''${encodeURIComponent(content.name)}`,
+      );
+      body.on("error", (error) => {
+        console.error("Error streaming file:", error);
+        res.destroy(error);
+      });
+      body.pipe(res);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update course" });
+      res.status(500).json({ message: "Failed to download file" });
     }
   });
 
-  app.delete("/api/courses/:id", isAuthenticated, async (req, res) => {
+  // Scans the current version again, e.g. after the scanner was unavailable
+  // or its signatures were updated
+  app.post("/api/files/:id/scan", requirePermission("files:write"), async (req, res) => {
     try {
-      await storage.deleteCourse(req.params.id);
-      res.json({ message: "Course deleted successfully" });
+      const file = await storage.getFile(req.params.id);
+      if (!file || !(await canAccessFile(req.user!, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const updatedFile = await storage.updateFileScan(file.id, file.currentVersion ?? 1, {
+        scanStatus: "pending",
+        scanSignature: null,
+      });
+      queueFileScan(file);
+      res.json(updatedFile ?? file);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete course" });
+      res.status(500).json({ message: "Failed to scan file" });
     }
   });
 
-  // Class routes
-  app.get("/api/classes", isAuthenticated, async (req, res) => {
+  app.delete("/api/files/:id", requirePermission("files:write"), async (req, res) => {
     try {
-      const classes = await storage.getClasses();
-      res.json(classes);
+      const file = await storage.getFile(req.params.id);
+      if (!file || !(await canAccessFile(req.user!, file))) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      await deleteFileWithContent(file);
+      res.json({ message: "File deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch classes" });
+      res.status(500).json({ message: "Failed to delete file" });
+    }
+  });
+
+  // Every selected file and folder must be accessible, otherwise bulk
+  // actions change nothing
+  const loadSelection = async (user: any, selection: FileSelection) => {
+    const [selectedFiles, selectedFolders] = await Promise.all([
+      storage.getFilesByIds(selection.fileIds),
+      storage.getFileFoldersByIds(selection.folderIds),
+    ]);
+    if (
+      selectedFiles.length !== new Set(selection.fileIds).size ||
+      selectedFolders.length !== new Set(selection.folderIds).size
+    ) {
+      return null;
+    }
+    for (const file of selectedFiles) {
+      if (!(await canAccessFile(user, file))) return null;
+    }
+    for (const folder of selectedFolders) {
+      if (!(await canAccessFolder(user, folder))) return null;
+    }
+    return { files: selectedFiles, folders: selectedFolders };
+  };
+
+  // A folder, or the top level of `courseId` when `folderId` is null
+  const resolveMoveTarget = async (
+    user: any,
+    folderId: string | null,
+    courseId: string | undefined,
+  ): Promise<FolderTarget | { status: number; error: string }> => {
+    if (folderId) {
+      const folder = await storage.getFileFolder(folderId);
+      if (!folder || !(await canAccessFolder(user, folder))) {
+        return { status: 404, error: "Target folder not found" };
+      }
+      return { folderId: folder.id, courseId: folder.courseId };
+    }
+    if (!courseId) {
+      return { status: 400, error: "A target folder or course is required" };
+    }
+    if (!(await storage.getCourse(courseId)) || !(await canManageCourseById(user, courseId, "files:write"))) {
+      return { status: 403, error: "You can only move files to your own courses" };
+    }
+    return { folderId: null, courseId };
+  };
+
+  // Folder routes. Folders belong to a course and can be nested.
+  app.get("/api/files/folders", requirePermission("files:read"), async (req, res) => {
+    try {
+      const folders = req.user!.role === "teacher"
+        ? await storage.getFileFoldersByTeacher(req.user!.id)
+        : await storage.getFileFolders();
+      res.json(folders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch folders" });
     }
   });
 
-  app.get("/api/classes/:id", isAuthenticated, async (req, res) => {
+  app.post("/api/files/folders", requirePermission("files:write"), async (req, res) => {
     try {
-      const classData = await storage.getClass(req.params.id);
-      if (!classData) {
-        return res.status(404).json({ message: "Class not found" });
+      const folderData = insertFileFolderSchema.parse(req.body);
+      if (!(await canManageCourseById(req.user!, folderData.courseId, "files:write"))) {
+        return res.status(403).json({ message: "You can only create folders in your own courses" });
       }
-      res.json(classData);
+      if (folderData.parentId) {
+        const parent = await storage.getFileFolder(folderData.parentId);
+        if (!parent || parent.courseId !== folderData.courseId) {
+          return res.status(400).json({ message: "Parent folder must belong to the same course" });
+        }
+      }
+
+      const folder = await storage.createFileFolder({ ...folderData, createdBy: req.user!.id });
+      res.status(201).json(folder);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch class" });
+      res.status(400).json({ message: "Invalid folder data" });
     }
   });
 
-  app.post("/api/classes", isAuthenticated, async (req, res) => {
+  // Renames a folder, or moves it under another parent with `parentId`
+  app.patch("/api/files/folders/:id", requirePermission("files:write"), async (req, res) => {
     try {
-      const classData = insertClassSchema.parse(req.body);
-      const newClass = await storage.createClass(classData);
-      res.json(newClass);
+      const folder = await storage.getFileFolder(req.params.id);
+      if (!folder || !(await canAccessFolder(req.user!, folder))) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+
+      const { name, parentId } = insertFileFolderSchema.pick({ name: true, parentId: true }).partial().parse(req.body);
+      let updatedFolder = folder;
+      if (parentId !== undefined && parentId !== folder.parentId) {
+        const target = await resolveMoveTarget(req.user!, parentId, folder.courseId);
+        if ("error" in target) {
+          return res.status(target.status).json({ message: target.error });
+        }
+        if (target.folderId && (await isFolderWithin(target.folderId, folder.id))) {
+          return res.status(400).json({ message: "A folder cannot be moved into itself" });
+        }
+        await checkMoveQuota(
+          await storage.getFilesInFolders(await storage.getFolderSubtreeIds(folder.id)),
+          target.courseId,
+        );
+        updatedFolder = await storage.moveFileFolder(folder.id, target.folderId, target.courseId);
+      }
+      if (name) {
+        updatedFolder = await storage.updateFileFolder(folder.id, { name });
+      }
+      res.json(updatedFolder);
     } catch (error) {
-      res.status(400).json({ message: "Invalid class data" });
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid folder data" });
+      }
+      console.error("Error updating folder:", error);
+      res.status(500).json({ message: "Failed to update folder" });
     }
   });
 
-  // Test routes
-  app.get("/api/tests", isAuthenticated, async (req, res) => {
+  app.delete("/api/files/folders/:id", requirePermission("files:write"), async (req, res) => {
     try {
-      const tests = await storage.getTests();
-      res.json(tests);
+      const folder = await storage.getFileFolder(req.params.id);
+      if (!folder || !(await canAccessFolder(req.user!, folder))) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+
+      await deleteFolderWithContent(folder);
+      res.json({ message: "Folder deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch tests" });
+      res.status(500).json({ message: "Failed to delete folder" });
     }
   });
 
-  app.post("/api/tests", isAuthenticated, async (req, res) => {
+  // Bulk routes
+  app.post("/api/files/bulk/delete", requirePermission("files:write"), async (req, res) => {
     try {
-      const testData = insertTestSchema.parse(req.body);
-      const test = await storage.createTest(testData);
-      res.json(test);
+      const selection = await loadSelection(req.user!, fileSelectionSchema.parse(req.body));
+      if (!selection) {
+        return res.status(404).json({ message: "Some files or folders were not found" });
+      }
+
+      for (const file of selection.files) {
+        await deleteFileWithContent(file);
+      }
+      for (const folder of selection.folders) {
+        // Already gone if an ancestor was also selected
+        if (await storage.getFileFolder(folder.id)) {
+          await deleteFolderWithContent(folder);
+        }
+      }
+      res.json({ message: "Deleted successfully" });
     } catch (error) {
-      res.status(400).json({ message: "Invalid test data" });
+      res.status(500).json({ message: "Failed to delete files" });
     }
   });
 
-  // Student routes
-  app.get("/api/students", isAuthenticated, async (req, res) => {
+  app.post("/api/files/bulk/move", requirePermission("files:write"), async (req, res) => {
     try {
-      const students = await storage.getStudents();
-      res.json(students);
+      const move = fileMoveSchema.parse(req.body);
+      const selection = await loadSelection(req.user!, move);
+      if (!selection) {
+        return res.status(404).json({ message: "Some files or folders were not found" });
+      }
+      const target = await resolveMoveTarget(req.user!, move.targetFolderId, move.targetCourseId);
+      if ("error" in target) {
+        return res.status(target.status).json({ message: target.error });
+      }
+      for (const folder of selection.folders) {
+        if (target.folderId && (await isFolderWithin(target.folderId, folder.id))) {
+          return res.status(400).json({ message: "A folder cannot be moved into itself" });
+        }
+      }
+      const movedFiles = [...selection.files];
+      for (const folder of selection.folders) {
+        movedFiles.push(...(await storage.getFilesInFolders(await storage.getFolderSubtreeIds(folder.id))));
+      }
+      await checkMoveQuota(movedFiles, target.courseId);
+
+      await storage.moveFiles(selection.files.map((file) => file.id), target);
+      for (const folder of selection.folders) {
+        await storage.moveFileFolder(folder.id, target.folderId, target.courseId);
+      }
+      res.json({ message: "Moved successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch students" });
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid move request" });
     }
   });
 
-  app.post("/api/students", isAuthenticated, async (req, res) => {
+  app.post("/api/files/bulk/copy", requirePermission("files:write"), async (req, res) => {
     try {
-      const studentData = insertStudentSchema.parse(req.body);
-      const student = await storage.createStudent(studentData);
-      res.json(student);
+      const copy = fileMoveSchema.parse(req.body);
+      const selection = await loadSelection(req.user!, copy);
+      if (!selection) {
+        return res.status(404).json({ message: "Some files or folders were not found" });
+      }
+      const target = await resolveMoveTarget(req.user!, copy.targetFolderId, copy.targetCourseId);
+      if ("error" in target) {
+        return res.status(target.status).json({ message: target.error });
+      }
+      for (const folder of selection.folders) {
+        if (target.folderId && (await isFolderWithin(target.folderId, folder.id))) {
+          return res.status(400).json({ message: "A folder cannot be copied into itself" });
+        }
+      }
+      const copiedFiles = [...selection.files];
+      for (const folder of selection.folders) {
+        copiedFiles.push(...(await storage.getFilesInFolders(await storage.getFolderSubtreeIds(folder.id))));
+      }
+      await checkStorageQuota(
+        req.user!.id,
+        target.courseId,
+        copiedFiles.reduce((total, file) => total + (file.size ?? 0), 0),
+      );
+
+      for (const file of selection.files) {
+        await copyFile(file, target, req.user!.id);
+      }
+      for (const folder of selection.folders) {
+        await copyFolder(folder, target, req.user!.id);
+      }
+      res.status(201).json({ message: "Copied successfully" });
     } catch (error) {
-      res.status(400).json({ message: "Invalid student data" });
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error copying files:", error);
+      res.status(500).json({ message: "Failed to copy files" });
     }
   });
 
-  // Coupon routes
-  app.get("/api/coupons", isAuthenticated, async (req, res) => {
+  // Zips are downloaded through a signed link, like single files
+  app.post("/api/files/bulk/download", requirePermission("files:read"), async (req, res) => {
     try {
-      const coupons = await storage.getCoupons();
-      res.json(coupons);
+      const selectionData = fileSelectionSchema.parse(req.body);
+      if (!(await loadSelection(req.user!, selectionData))) {
+        return res.status(404).json({ message: "Some files or folders were not found" });
+      }
+      res.json(createSignedZipUrl(selectionData, { kind: "user", id: req.user!.id }));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch coupons" });
+      res.status(400).json({ message: "Invalid download request" });
     }
   });
 
-  app.post("/api/coupons", isAuthenticated, async (req, res) => {
+  app.get("/api/files/zip", async (req, res) => {
     try {
-      const couponData = insertCouponSchema.parse(req.body);
-      const coupon = await storage.createCoupon(couponData);
-      res.json(coupon);
+      const signed = verifySignedZipUrl(req.query);
+      if (!signed || signed.subject.kind !== "user") {
+        return res.status(403).json({ message: "Download link is invalid or has expired" });
+      }
+      const user = await storage.getUser(signed.subject.id);
+      const selection = user && (await loadSelection(user, signed));
+      if (!selection) {
+        return res.status(404).json({ message: "Some files or folders were not found" });
+      }
+
+      const entries = await collectZipEntries(selection.files, selection.folders);
+      const name = selection.folders.length === 1 && selection.files.length === 0
+        ? `${selection.folders[0].name}.zip`
+        : "files.zip";
+      await streamZip(res, entries, name);
     } catch (error) {
-      res.status(400).json({ message: "Invalid coupon data" });
+      console.error("Error creating zip:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to download files" });
+      }
     }
   });
 
-  // Campaign routes
-  app.get("/api/campaigns", isAuthenticated, async (req, res) => {
+  // Storage usage and quota routes
+  app.get("/api/storage/usage", requirePermission("files:read"), async (req, res) => {
     try {
-      const campaigns = await storage.getCampaigns();
-      res.json(campaigns);
+      res.json(await getStorageUsageReport(req.user!));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch campaigns" });
+      res.status(500).json({ message: "Failed to fetch storage usage" });
     }
   });
 
-  app.post("/api/campaigns", isAuthenticated, async (req, res) => {
+  app.get("/api/storage/quotas", requirePermission("quotas:write"), async (req, res) => {
     try {
-      const campaignData = insertCampaignSchema.parse(req.body);
-      const campaign = await storage.createCampaign(campaignData);
-      res.json(campaign);
+      res.json(await storage.getStorageQuotas());
     } catch (error) {
-      res.status(400).json({ message: "Invalid campaign data" });
+      res.status(500).json({ message: "Failed to fetch storage quotas" });
     }
   });
 
-  // File routes
-  app.get("/api/files", isAuthenticated, async (req, res) => {
+  // Sets the quota for a role, teacher or course, replacing any existing one
+  app.put("/api/storage/quotas", requirePermission("quotas:write"), async (req, res) => {
     try {
-      const files = await storage.getFiles();
-      res.json(files);
+      const quotaData = insertStorageQuotaSchema.parse(req.body);
+      const targetExists =
+        quotaData.scope === "role"
+          ? (roleEnum.enumValues as string[]).includes(quotaData.targetId)
+          : quotaData.scope === "teacher"
+            ? !!(await storage.getUser(quotaData.targetId))
+            : !!(await storage.getCourse(quotaData.targetId));
+      if (!targetExists) {
+        return res.status(404).json({ message: `Unknown ${quotaData.scope}` });
+      }
+
+      const quota = await storage.upsertStorageQuota({ ...quotaData, updatedBy: req.user!.id });
+      res.json(quota);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch files" });
+      res.status(400).json({ message: "Invalid quota data" });
+    }
+  });
+
+  app.delete("/api/storage/quotas/:id", requirePermission("quotas:write"), async (req, res) => {
+    try {
+      await storage.deleteStorageQuota(req.params.id);
+      res.json({ message: "Quota removed successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove quota" });
+    }
+  });
+
+  // Resumable upload routes. Large files are sent in chunks with PATCH so an
+  // interrupted upload can continue from the last stored offset.
+  const getOwnUploadSession = async (req: Request) => {
+    const session = await storage.getUploadSession(req.params.id);
+    return session && session.uploadedBy === req.user!.id ? session : undefined;
+  };
+
+  app.post("/api/uploads", requirePermission("files:write"), async (req, res) => {
+    try {
+      const data = insertUploadSessionSchema.parse(req.body);
+      if (data.size > MAX_RESUMABLE_UPLOAD_BYTES) {
+        return res.status(413).json({ message: "File is too large" });
+      }
+      let courseId = data.courseId;
+      if (data.versionOf) {
+        const file = await storage.getFile(data.versionOf);
+        if (!file || !(await canAccessFile(req.user!, file))) {
+          return res.status(404).json({ message: "File not found" });
+        }
+        courseId = file.courseId;
+      } else {
+        const linkError = await checkUploadLinks(req.user!, data);
+        if (linkError) {
+          return res.status(403).json({ message: linkError });
+        }
+      }
+      // Checked up front so nobody uploads gigabytes only to be turned away.
+      // It is checked again when the upload completes.
+      await checkStorageQuota(req.user!.id, courseId, data.size);
+
+      const session = await storage.createUploadSession({
+        ...data,
+        uploadedBy: req.user!.id,
+        expiresAt: uploadSessionExpiry(),
+      });
+      await createStagingFile(session.id);
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid upload data" });
+    }
+  });
+
+  // Also answers HEAD, which clients use to find where to resume
+  app.get("/api/uploads/:id", requirePermission("files:write"), async (req, res) => {
+    try {
+      const session = await getOwnUploadSession(req);
+      if (!session) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Upload-Offset", String(session.offset));
+      res.setHeader("Upload-Length", String(session.size));
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch upload" });
+    }
+  });
+
+  app.patch("/api/uploads/:id", requirePermission("files:write"), async (req, res) => {
+    if (!req.is("application/offset+octet-stream")) {
+      return res.status(415).json({ message: "Chunks must be sent as application/offset+octet-stream" });
+    }
+
+    try {
+      // Offset checks happen under the lock so they see the latest offset
+      const result = await withUploadLock(req.params.id, async () => {
+        const session = await getOwnUploadSession(req);
+        if (!session) {
+          return { status: 404, body: { message: "Upload not found" } };
+        }
+        if (session.fileId) {
+          return { status: 409, body: { message: "Upload is already complete", offset: session.offset } };
+        }
+        if (Number(req.get("Upload-Offset")) !== session.offset) {
+          return { status: 409, body: { message: "Upload offset mismatch", offset: session.offset } };
+        }
+
+        const offset = await appendChunk(session, req);
+        let file = null;
+        if (offset === session.size) {
+          try {
+            file = await finalizeUpload({ ...session, offset });
+          } catch (error) {
+            // Over quota, so the upload can never complete; free its staging space
+            if (error instanceof UserFacingError) {
+              await discardUploadSession(session.id).catch(() => {});
+            }
+            throw error;
+          }
+        }
+        return { status: 200, body: { offset, size: session.size, file } };
+      });
+      if ("offset" in result.body) {
+        res.setHeader("Upload-Offset", String(result.body.offset));
+      }
+      res.status(result.status).json(result.body);
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (res.headersSent || req.destroyed) return;
+      console.error("Error storing upload chunk:", error);
+      res.status(500).json({ message: "Failed to store upload chunk" });
+    }
+  });
+
+  app.delete("/api/uploads/:id", requirePermission("files:write"), async (req, res) => {
+    try {
+      const session = await getOwnUploadSession(req);
+      if (!session) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+      await withUploadLock(session.id, () => discardUploadSession(session.id));
+      res.json({ message: "Upload cancelled" });
+    } catch (error) {
+      if (error instanceof UserFacingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel upload" });
     }
   });
 
   // Analytics route
-  app.get("/api/analytics", isAuthenticated, async (req, res) => {
+  app.get("/api/analytics", requirePermission("analytics:read"), async (req, res) => {
     try {
       // Get dashboard statistics
       const [courses, students, classes] = await Promise.all([
@@ -226,7 +1768,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         totalRevenue: totalRevenue,
         salesTrend: [450000, 520000, 480000, 630000, 720000, 894750],
         studentGrowth: [245, 289, 312, 378, 423, 467],
-        courseCompletions: [198, 234, 267, 298, 334, 356]
+        courseCompletions: await getMonthlyCompletions(6)
       };
 
       res.json(stats);
@@ -236,55 +1778,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Teachers route
-  app.get("/api/teachers", isAuthenticated, async (req, res) => {
+  app.get("/api/teachers", requirePermission("teachers:read"), async (req, res) => {
     try {
       const teachers = await storage.getTeachers();
-      res.json(teachers);
+      res.json(teachers.map(sanitizeUser));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch teachers" });
     }
   });
 
-  const httpServer = createServer(app);
+  // Every co-teacher and TA assignment; leads are the courses' teachers
+  app.get("/api/course-staff", requirePermission("teachers:read"), async (req, res) => {
+    try {
+      res.json(await storage.getStaffAssignments());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch course staff" });
+    }
+  });
 
-  // WebSocket server for real-time chat
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // Chat routes
+  app.get("/api/chat/users", requirePermission("chat:use"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.filter((user) => user.id !== req.user!.id).map(sanitizeUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chat users" });
+    }
+  });
 
-  wss.on('connection', (ws) => {
-    console.log('New WebSocket connection');
+  app.get("/api/chat/conversations", requirePermission("chat:use"), async (req, res) => {
+    try {
+      const conversations = await storage.getChatConversations(req.user!.id);
+      const peers = await storage.getUsersByIds(conversations.map((c) => c.peerId));
+      const peersById = new Map(peers.map((peer) => [peer.id, sanitizeUser(peer)]));
 
-    ws.on('message', async (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        
-        if (message.type === 'chat') {
-          // Save message to database
-          const chatMessage = await storage.createChatMessage({
-            senderId: message.senderId,
-            receiverId: message.receiverId,
-            message: message.content,
-            attachmentUrl: message.attachmentUrl || null
-          });
-
-          // Broadcast to all connected clients
-          wss.clients.forEach(client => {
-            if (client.readyState === WebSocket.OPEN) {
-              client.send(JSON.stringify({
-                type: 'chat',
-                data: chatMessage
-              }));
-            }
-          });
-        }
-      } catch (error) {
-        console.error('Error handling WebSocket message:', error);
+      res.json(conversations.map((conversation) => ({
+        ...conversation,
+        peer: peersById.get(conversation.peerId) ?? null,
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  app.get("/api/chat/unread-count", requirePermission("chat:use"), async (req, res) => {
+    try {
+      const count = await storage.getUnreadMessageCount(req.user!.id);
+      res.json({ count });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch unread count" });
+    }
+  });
+
+  app.get("/api/chat/conversations/:userId/messages", requirePermission("chat:use"), async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 100);
+      const before = typeof req.query.before === "string" ? req.query.before : undefined;
+      const page = await storage.getChatMessages(req.user!.id, req.params.userId, { before, limit });
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // Chat channel routes
+  app.get("/api/chat/channels", requirePermission("chat:use"), async (req, res) => {
+    try {
+      const channels = req.user!.role === "super_admin"
+        ? await storage.getChatChannels()
+        : await storage.getChatChannelsForUser(req.user!.id);
+      res.json(channels);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch channels" });
+    }
+  });
+
+  app.post("/api/chat/channels", requirePermission("chat:channels:write"), async (req, res) => {
+    try {
+      const channelData = insertChatChannelSchema.parse(req.body);
+      if (!(await canManageCourseById(req.user!, channelData.courseId))) {
+        return res.status(403).json({ message: "You can only create channels for your own courses" });
       }
-    });
 
-    ws.on('close', () => {
-      console.log('WebSocket connection closed');
-    });
+      const course = await storage.getCourse(channelData.courseId);
+      const classData = channelData.classId ? await storage.getClass(channelData.classId) : undefined;
+      if (!course || (channelData.classId && classData?.courseId !== course.id)) {
+        return res.status(400).json({ message: "Invalid course or class" });
+      }
+
+      const { channel, created } = await storage.findOrCreateChatChannel({
+        ...channelData,
+        classId: channelData.classId ?? null,
+        name: channelData.name || classData?.title || course.title,
+        createdBy: req.user!.id,
+      });
+      res.status(created ? 201 : 200).json(channel);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid channel data" });
+    }
   });
 
+  app.get("/api/chat/channels/:id/members", requirePermission("chat:use"), async (req, res) => {
+    try {
+      if (!(await canAccessChannel(req.user!, req.params.id))) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      const members = await storage.getChatChannelMembers(req.params.id);
+      res.json(members);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch channel members" });
+    }
+  });
+
+  app.get("/api/chat/channels/:id/messages", requirePermission("chat:use"), async (req, res) => {
+    try {
+      if (!(await canAccessChannel(req.user!, req.params.id))) {
+        return res.status(404).json({ message: "Channel not found" });
+      }
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 100);
+      const before = typeof req.query.before === "string" ? req.query.before : undefined;
+      const page = await storage.getChatChannelMessages(req.params.id, { before, limit });
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch channel messages" });
+    }
+  });
+
+  const httpServer = createServer(app);
+
+  // WebSocket server for real-time chat
+  setupChatServer(httpServer, sessionMiddleware);
+  startUploadCleanup();
+  startBlobCleanup();
+  startScanWorker();
+  startPreviewWorker();
+  startTranscodeWorker();
+
   return httpServer;
 }
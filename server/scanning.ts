@@ -0,0 +1,79 @@
+import { storage } from "./storage";
+import { fileStorage } from "./fileStorage";
+import { malwareScanner } from "./malwareScanner";
+import { JobQueue } from "./jobs";
+import { queueFilePreview } from "./previews";
+import { queueFileTranscode } from "./transcoding";
+import type { File } from "@shared/schema";
+
+// Every version is quarantined until it has been scanned. Previews and
+// transcodes only run on clean content, so they are queued from here.
+const scanQueue = new JobQueue("Scan", 2);
+
+export function queueFileScan(file: Pick<File, "id" | "currentVersion">): void {
+  const version = file.currentVersion ?? 1;
+  scanQueue.enqueue(`${file.id}:${version}`, () => scanFileVersion(file.id, version));
+}
+
+// Picks up content that was waiting when the server last stopped
+export function startScanWorker(): void {
+  Promise.all([storage.getFilesByScanStatus("pending"), storage.getFileVersionsByScanStatus("pending")])
+    .then(([pendingFiles, pendingVersions]) => {
+      pendingFiles.forEach((file) => queueFileScan(file));
+      pendingVersions.forEach((version) =>
+        queueFileScan({ id: version.fileId, currentVersion: version.version }),
+      );
+    })
+    .catch((error) => {
+      console.error("Error queueing pending scans:", error);
+    });
+}
+
+// Why a download is refused, or null once the content is clean
+export function scanBlockReason(scanStatus: string | null): string | null {
+  switch (scanStatus) {
+    case "clean":
+      return null;
+    case "infected":
+      return "This file is infected and cannot be downloaded";
+    case "failed":
+      return "This file could not be scanned for malware and cannot be downloaded yet";
+    default:
+      return "This file is being scanned for malware; try again shortly";
+  }
+}
+
+async function scanFileVersion(fileId: string, version: number): Promise<void> {
+  const file = await storage.getFile(fileId);
+  if (!file) return;
+
+  // Files from before versioning only have their current content
+  const fileVersion = await storage.getFileVersion(fileId, version);
+  const storageKey = fileVersion
+    ? fileVersion.storageKey
+    : version === file.currentVersion ? file.storageKey : null;
+  if (!storageKey) return;
+
+  let updated: File | undefined;
+  try {
+    const result = await malwareScanner.scan(await fileStorage.get(storageKey));
+    if (result.clean) {
+      updated = await storage.updateFileScan(fileId, version, { scanStatus: "clean", scanSignature: null });
+    } else {
+      console.warn(`Malware found in file ${fileId} version ${version}: ${result.signature}`);
+      updated = await storage.updateFileScan(fileId, version, {
+        scanStatus: "infected",
+        scanSignature: result.signature,
+      });
+    }
+  } catch (error) {
+    console.error(`Error scanning file ${fileId} version ${version}:`, error);
+    await storage.updateFileScan(fileId, version, { scanStatus: "failed", scanSignature: null });
+    return;
+  }
+
+  if (updated?.scanStatus === "clean") {
+    queueFilePreview(updated.id);
+    queueFileTranscode(updated.id);
+  }
+}
@@ -0,0 +1,70 @@
+import { storage } from "./storage";
+import { UserFacingError } from "./errors";
+import { canActInCourse, courseStaffPermissions, type CoursePermission, type SessionUser } from "./permissions";
+import type { Course, CourseStaffMember, CourseStaffRole, User } from "@shared/schema";
+
+export type CourseStaffEntry = {
+  userId: string;
+  role: CourseStaffRole;
+  user: Pick<User, "id" | "firstName" | "lastName" | "email" | "profileImageUrl"> | null;
+};
+
+export type CourseStaffReport = {
+  // The lead first, then co-teachers and TAs in the order they were added
+  members: CourseStaffEntry[];
+  // What the requesting user may do in the course
+  permissions: CoursePermission[];
+};
+
+export async function getCourseStaffReport(user: SessionUser, course: Course): Promise<CourseStaffReport> {
+  const [lead, staff] = await Promise.all([
+    course.teacherId ? storage.getUser(course.teacherId) : undefined,
+    storage.getCourseStaff(course.id),
+  ]);
+  const members: CourseStaffEntry[] = staff
+    .filter((member) => member.userId !== course.teacherId)
+    .map((member) => ({ userId: member.userId, role: member.role as CourseStaffRole, user: member.user }));
+  if (course.teacherId) {
+    members.unshift({
+      userId: course.teacherId,
+      role: "lead",
+      user: lead
+        ? {
+            id: lead.id,
+            firstName: lead.firstName,
+            lastName: lead.lastName,
+            email: lead.email,
+            profileImageUrl: lead.profileImageUrl,
+          }
+        : null,
+    });
+  }
+
+  const permissions: CoursePermission[] = [];
+  for (const permission of Object.keys(courseStaffPermissions) as CoursePermission[]) {
+    if (await canActInCourse(user, course, permission)) permissions.push(permission);
+  }
+  return { members, permissions };
+}
+
+// Adds a teacher as a co-teacher or TA, or changes their role, and brings
+// the course's chat channels up to date
+export async function setCourseStaffMember(course: Course, member: CourseStaffMember, addedBy: string): Promise<void> {
+  if (member.userId === course.teacherId) {
+    throw new UserFacingError("The lead teacher is already on the course's staff");
+  }
+  const user = await storage.getUser(member.userId);
+  if (!user || user.role !== "teacher") {
+    throw new UserFacingError("Only teachers can join a course's staff");
+  }
+  await storage.setCourseStaffMember(course.id, member, addedBy);
+  await storage.syncCourseChatChannels(course.id);
+}
+
+export async function removeCourseStaffMember(course: Course, userId: string): Promise<void> {
+  if (userId === course.teacherId) {
+    throw new UserFacingError("The lead teacher can only be replaced by changing the course's teacher");
+  }
+  await storage.removeCourseStaffMember(course.id, userId);
+  await storage.syncCourseChatChannels(course.id);
+}
@@ -7,7 +7,27 @@ import {
   coupons,
   campaigns,
   files,
+  fileVersions,
+  fileFolders,
   chatMessages,
+  chatChannels,
+  chatChannelMembers,
+  chatChannelMessages,
+  uploadSessions,
+  storageQuotas,
+  blobs,
+  courseSections,
+  lessons,
+  lessonProgress,
+  courseCompletions,
+  courseEnrollments,
+  courseReviewComments,
+  courseStatusChanges,
+  coursePrerequisites,
+  learningPaths,
+  learningPathCourses,
+  courseStaff,
+  studentReviews,
   type User,
   type UpsertUser,
   type InsertCourse,
@@ -24,29 +44,156 @@ import {
   type Campaign,
   type InsertFile,
   type File,
+  type FileVersion,
+  type InsertFileFolder,
+  type FileFolder,
   type InsertChatMessage,
   type ChatMessage,
+  type InsertChatChannel,
+  type ChatChannel,
+  type ChatChannelMember,
+  type InsertChatChannelMessage,
+  type ChatChannelMessage,
+  type InsertUploadSession,
+  type UploadSession,
+  type InsertStorageQuota,
+  type StorageQuota,
+  type StoredBlob,
+  type InsertCourseSection,
+  type CourseSection,
+  type InsertLesson,
+  type Lesson,
+  type CourseOutlineOrder,
+  type LessonProgress,
+  type CourseCompletion,
+  type ReleaseRule,
+  type CourseStatus,
+  type CourseReviewComment,
+  type CourseStatusChange,
+  type CoursePrerequisite,
+  type InsertLearningPath,
+  type LearningPath,
+  type CourseStaff,
+  type CourseStaffMember,
+  type StudentReview,
+  type StudentReviewStatus,
+  type InsertStudentReview,
+  type ReviewModeration,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, like, and } from "drizzle-orm";
+import { eq, desc, like, and, or, inArray, lt, gte, sql, count, avg, arrayContains, isNotNull, isNull, notExists } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type FileVersionContent = Pick<
+  FileVersion,
+  "name" | "type" | "mimeType" | "storageKey" | "contentHash" | "size" | "uploadedBy"
+> & { restoredFrom?: number | null };
+
+export type FileVersionWithUploader = FileVersion & {
+  uploader: Pick<User, "id" | "firstName" | "lastName" | "email"> | null;
+};
+
+type UserSummary = Pick<User, "id" | "firstName" | "lastName" | "email">;
+
+export type CourseStaffWithUser = CourseStaff & {
+  user: UserSummary & Pick<User, "profileImageUrl">;
+};
+
+// A review with who wrote it and the course it is about, for the moderation
+// queue
+export type StudentReviewWithDetails = StudentReview & {
+  student: Pick<Student, "id" | "name" | "email">;
+  course: Pick<Course, "id" | "title" | "teacherId">;
+};
+
+// Average of the approved ratings and how many there are
+export type RatingSummary = { average: number; count: number };
+
+export type CourseReviewCommentWithAuthor = CourseReviewComment & { author: UserSummary | null };
+
+// Everything a course clone creates, with ids chosen up front so the rows can
+// reference each other
+export type CourseClonePlan = {
+  course: typeof courses.$inferInsert & { id: string };
+  classes: (typeof classes.$inferInsert & { id: string })[];
+  tests: (typeof tests.$inferInsert & { id: string })[];
+  // Parents before their subfolders
+  folders: (typeof fileFolders.$inferInsert & { id: string })[];
+  files: (InsertFile & { id: string })[];
+  sections: (typeof courseSections.$inferInsert & { id: string })[];
+  lessons: (typeof lessons.$inferInsert & { id: string })[];
+  prerequisiteIds: string[];
+  history: { changedBy: string; comment: string };
+};
+
+// A learning path with its courses in order
+export type LearningPathWithCourses = LearningPath & {
+  courses: Pick<Course, "id" | "title" | "status" | "teacherId">[];
+};
+
+export type CourseStatusChangeWithUser = CourseStatusChange & { user: UserSummary | null };
+
+// Bytes stored for one uploader or course
+export type StorageUsage = { id: string; usedBytes: number };
+
+// A lesson with a summary of the content it links to
+export type OutlineLesson = Lesson & {
+  file: Pick<File, "id" | "name" | "type" | "scanStatus" | "transcodeStatus"> | null;
+  class: Pick<Class, "id" | "title" | "scheduledAt" | "status"> | null;
+  test: Pick<Test, "id" | "title" | "duration" | "totalMarks"> | null;
+};
+
+export type CourseOutlineSection = CourseSection & { lessons: OutlineLesson[] };
+
+// Lessons one student has started and completed in one course
+export type LessonProgressCount = {
+  studentId: string;
+  courseId: string;
+  startedLessons: number;
+  completedLessons: number;
+};
+
+export interface ChatConversation {
+  peerId: string;
+  lastMessage: ChatMessage;
+  unreadCount: number;
+}
+
+export interface ChatMessagePage {
+  messages: ChatMessage[];
+  nextCursor: string | null;
+}
+
+export interface ChatChannelMessagePage {
+  messages: ChatChannelMessage[];
+  nextCursor: string | null;
+}
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createUser(user: UpsertUser): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
   getTeachers(): Promise<User[]>;
+  getUsers(): Promise<User[]>;
+  getUsersByIds(ids: string[]): Promise<User[]>;
   
   // Course operations
   getCourses(): Promise<Course[]>;
   getCourse(id: string): Promise<Course | undefined>;
+  getCoursesByTeacher(teacherId: string): Promise<Course[]>;
   createCourse(course: InsertCourse): Promise<Course>;
   updateCourse(id: string, course: Partial<InsertCourse>): Promise<Course>;
   deleteCourse(id: string): Promise<void>;
+  cloneCourse(plan: CourseClonePlan): Promise<Course>;
   
   // Class operations
   getClasses(): Promise<Class[]>;
   getClass(id: string): Promise<Class | undefined>;
   getClassesByCourse(courseId: string): Promise<Class[]>;
+  getClassesByTeacher(teacherId: string): Promise<Class[]>;
   createClass(classData: InsertClass): Promise<Class>;
   updateClass(id: string, classData: Partial<InsertClass>): Promise<Class>;
   deleteClass(id: string): Promise<void>;
@@ -55,6 +202,7 @@ export interface IStorage {
   getTests(): Promise<Test[]>;
   getTest(id: string): Promise<Test | undefined>;
   getTestsByCourse(courseId: string): Promise<Test[]>;
+  getTestsByTeacher(teacherId: string): Promise<Test[]>;
   createTest(test: InsertTest): Promise<Test>;
   updateTest(id: string, test: Partial<InsertTest>): Promise<Test>;
   deleteTest(id: string): Promise<void>;
@@ -62,6 +210,8 @@ export interface IStorage {
   // Student operations
   getStudents(): Promise<Student[]>;
   getStudent(id: string): Promise<Student | undefined>;
+  getStudentsByCourse(courseId: string): Promise<Student[]>;
+  getEnrollmentDate(student: Student, courseId: string): Promise<Date>;
   createStudent(student: InsertStudent): Promise<Student>;
   updateStudent(id: string, student: Partial<InsertStudent>): Promise<Student>;
   deleteStudent(id: string): Promise<void>;
@@ -85,13 +235,163 @@ export interface IStorage {
   getFile(id: string): Promise<File | undefined>;
   getFilesByCourse(courseId: string): Promise<File[]>;
   getFilesByClass(classId: string): Promise<File[]>;
-  createFile(file: InsertFile): Promise<File>;
+  getFilesByTeacher(teacherId: string): Promise<File[]>;
+  createFile(file: InsertFile & { id?: string }): Promise<File>;
   deleteFile(id: string): Promise<void>;
   
+  // Blob operations
+  createBlob(blob: Pick<StoredBlob, "hash" | "storageKey" | "size">): Promise<StoredBlob>;
+  touchBlob(hash: string): Promise<StoredBlob | undefined>;
+  deleteUnusedBlobs(unusedSince: Date): Promise<StoredBlob[]>;
+  updateFilePreview(
+    id: string,
+    preview: Pick<File, "previewStatus" | "thumbnailKey" | "previewKey">,
+  ): Promise<File>;
+  getFilesByPreviewStatus(status: string): Promise<File[]>;
+  updateFileTranscode(
+    id: string,
+    transcode: Pick<File, "transcodeStatus" | "hlsKey" | "posterKey">,
+  ): Promise<File | undefined>;
+  getFilesByTranscodeStatus(status: string): Promise<File[]>;
+  updateFileScan(
+    fileId: string,
+    version: number,
+    scan: Pick<File, "scanStatus" | "scanSignature">,
+  ): Promise<File | undefined>;
+  getFilesByScanStatus(status: string): Promise<File[]>;
+  getFileVersionsByScanStatus(status: string): Promise<FileVersion[]>;
+  getFileVersions(fileId: string): Promise<FileVersionWithUploader[]>;
+  getFileVersion(fileId: string, version: number): Promise<FileVersion | undefined>;
+  addFileVersion(fileId: string, content: FileVersionContent): Promise<File>;
+  
+  // File folder operations
+  getFileFolders(courseId?: string): Promise<FileFolder[]>;
+  getFileFoldersByTeacher(teacherId: string): Promise<FileFolder[]>;
+  getFileFolder(id: string): Promise<FileFolder | undefined>;
+  getFileFoldersByIds(ids: string[]): Promise<FileFolder[]>;
+  getFolderSubtreeIds(folderId: string): Promise<string[]>;
+  getFilesInFolders(folderIds: string[]): Promise<File[]>;
+  getFilesByIds(ids: string[]): Promise<File[]>;
+  createFileFolder(folder: InsertFileFolder & { createdBy?: string }): Promise<FileFolder>;
+  updateFileFolder(id: string, folder: Partial<InsertFileFolder>): Promise<FileFolder>;
+  moveFileFolder(id: string, parentId: string | null, courseId: string): Promise<FileFolder>;
+  deleteFileFolder(id: string): Promise<void>;
+  moveFiles(fileIds: string[], target: { folderId: string | null; courseId: string }): Promise<void>;
+  
+  // Upload session operations
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  updateUploadSession(id: string, session: Partial<InsertUploadSession>): Promise<UploadSession>;
+  deleteUploadSession(id: string): Promise<void>;
+  getExpiredUploadSessions(now: Date): Promise<UploadSession[]>;
+  
+  // Storage quota operations
+  getStorageQuotas(): Promise<StorageQuota[]>;
+  getStorageQuota(scope: string, targetId: string): Promise<StorageQuota | undefined>;
+  upsertStorageQuota(quota: InsertStorageQuota & { updatedBy?: string }): Promise<StorageQuota>;
+  deleteStorageQuota(id: string): Promise<void>;
+  getStorageUsageByUploader(userIds?: string[]): Promise<StorageUsage[]>;
+  getStorageUsageByCourse(courseIds?: string[]): Promise<StorageUsage[]>;
+  getStorageUsageByFile(fileIds: string[]): Promise<StorageUsage[]>;
+
+  // Curriculum operations
+  getCourseOutline(courseId: string): Promise<CourseOutlineSection[]>;
+  getCourseSection(id: string): Promise<CourseSection | undefined>;
+  getCourseSections(courseId: string): Promise<CourseSection[]>;
+  createCourseSection(courseId: string, section: InsertCourseSection): Promise<CourseSection>;
+  updateCourseSection(id: string, section: Partial<InsertCourseSection & ReleaseRule>): Promise<CourseSection>;
+  deleteCourseSection(id: string): Promise<void>;
+  getLesson(id: string): Promise<Lesson | undefined>;
+  getLessonsByCourse(courseId: string): Promise<Lesson[]>;
+  getLessonsByFile(fileId: string): Promise<Lesson[]>;
+  createLesson(section: CourseSection, lesson: InsertLesson): Promise<Lesson>;
+  updateLesson(id: string, lesson: Partial<InsertLesson & ReleaseRule>): Promise<Lesson>;
+  deleteLesson(id: string): Promise<void>;
+  reorderCourseOutline(courseId: string, order: CourseOutlineOrder): Promise<void>;
+
+  // Progress operations
+  getLessonProgress(studentId: string, lessonId: string): Promise<LessonProgress | undefined>;
+  getLessonProgressByStudent(studentId: string): Promise<LessonProgress[]>;
+  saveLessonProgress(
+    progress: Pick<LessonProgress, "studentId" | "lessonId" | "courseId" | "percentWatched" | "completedAt">,
+  ): Promise<LessonProgress>;
+  getLessonProgressCounts(filter: { studentIds?: string[]; courseIds?: string[] }): Promise<LessonProgressCount[]>;
+  getLessonCountsByCourse(courseIds?: string[]): Promise<{ courseId: string; lessonCount: number }[]>;
+  createCourseCompletion(studentId: string, courseId: string): Promise<CourseCompletion | undefined>;
+  getCourseCompletions(filter: { studentIds?: string[]; courseIds?: string[] }): Promise<CourseCompletion[]>;
+  countCourseCompletionsByMonth(since: Date, courseIds?: string[]): Promise<{ month: string; completions: number }[]>;
+
+  // Prerequisite operations
+  getCoursePrerequisites(): Promise<CoursePrerequisite[]>;
+  setCoursePrerequisites(courseId: string, prerequisiteIds: string[]): Promise<void>;
+  getLearningPaths(): Promise<LearningPathWithCourses[]>;
+  getLearningPath(id: string): Promise<LearningPathWithCourses | undefined>;
+  createLearningPath(path: InsertLearningPath, createdBy: string): Promise<LearningPath>;
+  updateLearningPath(id: string, path: InsertLearningPath): Promise<LearningPath>;
+  deleteLearningPath(id: string): Promise<void>;
+
+  // Student review operations
+  saveStudentReview(
+    studentId: string,
+    courseId: string,
+    review: InsertStudentReview,
+    submittedBy: string,
+  ): Promise<StudentReview>;
+  getStudentReview(id: string): Promise<StudentReview | undefined>;
+  getStudentReviews(filter: {
+    status?: StudentReviewStatus;
+    courseIds?: string[];
+    studentIds?: string[];
+  }): Promise<StudentReviewWithDetails[]>;
+  moderateStudentReview(id: string, moderation: ReviewModeration, moderatedBy: string): Promise<StudentReview>;
+  getCourseRatings(): Promise<(RatingSummary & { courseId: string })[]>;
+  getTeacherRatings(): Promise<(RatingSummary & { teacherId: string })[]>;
+
+  // Staff operations
+  getCourseStaff(courseId: string): Promise<CourseStaffWithUser[]>;
+  getCourseStaffMember(courseId: string, userId: string): Promise<CourseStaff | undefined>;
+  getStaffAssignments(): Promise<CourseStaff[]>;
+  setCourseStaffMember(courseId: string, member: CourseStaffMember, addedBy: string): Promise<CourseStaff>;
+  removeCourseStaffMember(courseId: string, userId: string): Promise<void>;
+
+  // Publishing operations
+  changeCourseStatus(
+    courseId: string,
+    from: CourseStatus,
+    to: CourseStatus,
+    changedBy: string,
+    comment?: string | null,
+  ): Promise<Course | undefined>;
+  getCourseStatusChanges(courseId: string): Promise<CourseStatusChangeWithUser[]>;
+  getCourseReviewComments(courseId: string): Promise<CourseReviewCommentWithAuthor[]>;
+  createCourseReviewComment(courseId: string, authorId: string, body: string): Promise<CourseReviewComment>;
+  
   // Chat operations
-  getChatMessages(userId1: string, userId2: string): Promise<ChatMessage[]>;
+  getChatMessages(
+    userId1: string,
+    userId2: string,
+    options?: { before?: string; limit?: number },
+  ): Promise<ChatMessagePage>;
+  getChatConversations(userId: string): Promise<ChatConversation[]>;
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
-  markMessageAsRead(messageId: string): Promise<void>;
+  markMessageAsRead(messageId: string, readerId: string): Promise<ChatMessage | undefined>;
+  markConversationAsRead(readerId: string, senderId: string): Promise<ChatMessage[]>;
+  getUnreadMessageCount(userId: string): Promise<number>;
+
+  // Chat channel operations
+  getChatChannels(): Promise<ChatChannel[]>;
+  getChatChannelsForUser(userId: string): Promise<ChatChannel[]>;
+  getChatChannel(id: string): Promise<ChatChannel | undefined>;
+  findOrCreateChatChannel(channel: InsertChatChannel): Promise<{ channel: ChatChannel; created: boolean }>;
+  syncChatChannelMembers(channelId: string): Promise<ChatChannelMember[]>;
+  syncCourseChatChannels(courseId: string): Promise<void>;
+  getChatChannelMembers(channelId: string): Promise<ChatChannelMember[]>;
+  isChatChannelMember(channelId: string, userId: string): Promise<boolean>;
+  getChatChannelMessages(
+    channelId: string,
+    options?: { before?: string; limit?: number },
+  ): Promise<ChatChannelMessagePage>;
+  createChatChannelMessage(message: InsertChatChannelMessage): Promise<ChatChannelMessage>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -101,14 +401,31 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, email.toLowerCase()));
+    return user;
+  }
+
+  async createUser(userData: UpsertUser): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values({ ...userData, email: userData.email?.toLowerCase() })
+      .returning();
+    return user;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
+    const values = { ...userData, email: userData.email?.toLowerCase() };
     const [user] = await db
       .insert(users)
-      .values(userData)
+      .values(values)
       .onConflictDoUpdate({
         target: users.id,
         set: {
-          ...userData,
+          ...values,
           updatedAt: new Date(),
         },
       })
@@ -126,6 +443,15 @@ export class DatabaseStorage implements IStorage {
     return course;
   }
 
+  // Courses the teacher leads or is on the staff of
+  async getCoursesByTeacher(teacherId: string): Promise<Course[]> {
+    return await db
+      .select()
+      .from(courses)
+      .where(inArray(courses.id, this.courseIdsForTeacher(teacherId)))
+      .orderBy(desc(courses.createdAt));
+  }
+
   async createCourse(course: InsertCourse): Promise<Course> {
     const [newCourse] = await db.insert(courses).values(course).returning();
     return newCourse;
@@ -144,6 +470,45 @@ export class DatabaseStorage implements IStorage {
     await db.delete(courses).where(eq(courses.id, id));
   }
 
+  // Creates the whole copy or nothing. Rows referencing each other within a
+  // table go in one statement, and sections released after a lesson are
+  // pointed at it once the lessons exist.
+  async cloneCourse(plan: CourseClonePlan): Promise<Course> {
+    return await db.transaction(async (tx) => {
+      const [course] = await tx.insert(courses).values(plan.course).returning();
+      if (plan.classes.length > 0) await tx.insert(classes).values(plan.classes);
+      if (plan.tests.length > 0) await tx.insert(tests).values(plan.tests);
+      if (plan.folders.length > 0) await tx.insert(fileFolders).values(plan.folders);
+      for (const file of plan.files) {
+        await this.insertFile(tx, file);
+      }
+      if (plan.sections.length > 0) {
+        await tx
+          .insert(courseSections)
+          .values(plan.sections.map((section) => ({ ...section, releaseAfterLessonId: null })));
+      }
+      if (plan.lessons.length > 0) await tx.insert(lessons).values(plan.lessons);
+      for (const section of plan.sections.filter((section) => section.releaseAfterLessonId)) {
+        await tx
+          .update(courseSections)
+          .set({ releaseAfterLessonId: section.releaseAfterLessonId })
+          .where(eq(courseSections.id, section.id));
+      }
+      if (plan.prerequisiteIds.length > 0) {
+        await tx
+          .insert(coursePrerequisites)
+          .values(plan.prerequisiteIds.map((prerequisiteId) => ({ courseId: course.id, prerequisiteId })));
+      }
+      await tx.insert(courseStatusChanges).values({
+        courseId: course.id,
+        fromStatus: null,
+        toStatus: "draft",
+        ...plan.history,
+      });
+      return course;
+    });
+  }
+
   // Class operations
   async getClasses(): Promise<Class[]> {
     return await db.select().from(classes).orderBy(desc(classes.createdAt));
@@ -158,6 +523,19 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(classes).where(eq(classes.courseId, courseId));
   }
 
+  async getClassesByTeacher(teacherId: string): Promise<Class[]> {
+    return await db
+      .select()
+      .from(classes)
+      .where(
+        or(
+          eq(classes.teacherId, teacherId),
+          inArray(classes.courseId, this.courseIdsForTeacher(teacherId))
+        )
+      )
+      .orderBy(desc(classes.createdAt));
+  }
+
   async createClass(classData: InsertClass): Promise<Class> {
     const [newClass] = await db.insert(classes).values(classData).returning();
     return newClass;
@@ -190,6 +568,14 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(tests).where(eq(tests.courseId, courseId));
   }
 
+  async getTestsByTeacher(teacherId: string): Promise<Test[]> {
+    return await db
+      .select()
+      .from(tests)
+      .where(inArray(tests.courseId, this.courseIdsForTeacher(teacherId)))
+      .orderBy(desc(tests.createdAt));
+  }
+
   async createTest(test: InsertTest): Promise<Test> {
     const [newTest] = await db.insert(tests).values(test).returning();
     return newTest;
@@ -218,18 +604,65 @@ export class DatabaseStorage implements IStorage {
     return student;
   }
 
+  async getStudentsByCourse(courseId: string): Promise<Student[]> {
+    return await db
+      .select()
+      .from(students)
+      .where(arrayContains(students.enrolledCourses, [courseId]))
+      .orderBy(students.name);
+  }
+
   async createStudent(student: InsertStudent): Promise<Student> {
-    const [newStudent] = await db.insert(students).values(student).returning();
-    return newStudent;
+    return await db.transaction(async (tx) => {
+      const [newStudent] = await tx.insert(students).values(student).returning();
+      await this.syncEnrollments(tx, newStudent);
+      return newStudent;
+    });
   }
 
   async updateStudent(id: string, student: Partial<InsertStudent>): Promise<Student> {
-    const [updatedStudent] = await db
-      .update(students)
-      .set({ ...student, updatedAt: new Date() })
-      .where(eq(students.id, id))
-      .returning();
-    return updatedStudent;
+    return await db.transaction(async (tx) => {
+      const [updatedStudent] = await tx
+        .update(students)
+        .set({ ...student, updatedAt: new Date() })
+        .where(eq(students.id, id))
+        .returning();
+      if (student.enrolledCourses !== undefined) {
+        await this.syncEnrollments(tx, updatedStudent);
+      }
+      return updatedStudent;
+    });
+  }
+
+  // Records when the student enrolled in each new course and forgets the
+  // courses they have left
+  private async syncEnrollments(
+    tx: Transaction,
+    student: Student,
+  ): Promise<void> {
+    const courseIds = student.enrolledCourses ?? [];
+    await tx
+      .delete(courseEnrollments)
+      .where(
+        and(
+          eq(courseEnrollments.studentId, student.id),
+          courseIds.length > 0 ? sql`${courseEnrollments.courseId} NOT IN ${courseIds}` : undefined,
+        ),
+      );
+    if (courseIds.length > 0) {
+      await tx
+        .insert(courseEnrollments)
+        .values(courseIds.map((courseId) => ({ studentId: student.id, courseId })))
+        .onConflictDoNothing();
+    }
+  }
+
+  async getEnrollmentDate(student: Student, courseId: string): Promise<Date> {
+    const [enrollment] = await db
+      .select()
+      .from(courseEnrollments)
+      .where(and(eq(courseEnrollments.studentId, student.id), eq(courseEnrollments.courseId, courseId)));
+    return enrollment?.enrolledAt ?? student.createdAt ?? new Date();
   }
 
   async deleteStudent(id: string): Promise<void> {
@@ -310,27 +743,1072 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(files).where(eq(files.classId, classId));
   }
 
-  async createFile(file: InsertFile): Promise<File> {
-    const [newFile] = await db.insert(files).values(file).returning();
+  async getFilesByTeacher(teacherId: string): Promise<File[]> {
+    return await db
+      .select()
+      .from(files)
+      .where(
+        or(
+          eq(files.uploadedBy, teacherId),
+          inArray(files.courseId, this.courseIdsForTeacher(teacherId)),
+          inArray(files.classId, this.classIdsForTeacher(teacherId))
+        )
+      )
+      .orderBy(desc(files.createdAt));
+  }
+
+  async createFile(file: InsertFile & { id?: string }): Promise<File> {
+    return await db.transaction((tx) => this.insertFile(tx, file));
+  }
+
+  // Inserts the file with its first version and takes a reference to its
+  // shared content
+  private async insertFile(tx: Transaction, file: InsertFile & { id?: string }): Promise<File> {
+    const [newFile] = await tx
+      .insert(files)
+      .values({ ...file, transcodeStatus: file.type === "video" ? "pending" : null })
+      .returning();
+    await tx.insert(fileVersions).values(this.initialFileVersion(newFile));
+    if (newFile.contentHash) {
+      await tx
+        .update(blobs)
+        .set({ refCount: sql`${blobs.refCount} + 1`, updatedAt: new Date() })
+        .where(eq(blobs.hash, newFile.contentHash));
+    }
     return newFile;
   }
 
+  // Releases the file's references to shared content along with its versions
   async deleteFile(id: string): Promise<void> {
-    await db.delete(files).where(eq(files.id, id));
+    await db.transaction(async (tx) => {
+      const released = await tx
+        .select({ hash: fileVersions.contentHash, references: count() })
+        .from(fileVersions)
+        .where(and(eq(fileVersions.fileId, id), isNotNull(fileVersions.contentHash)))
+        .groupBy(fileVersions.contentHash);
+      await tx.delete(files).where(eq(files.id, id));
+      for (const { hash, references } of released) {
+        await tx
+          .update(blobs)
+          .set({ refCount: sql`greatest(${blobs.refCount} - ${references}, 0)`, updatedAt: new Date() })
+          .where(eq(blobs.hash, hash!));
+      }
+    });
   }
 
-  // Chat operations
-  async getChatMessages(userId1: string, userId2: string): Promise<ChatMessage[]> {
+  // Blob operations
+  // Registers stored content, or marks existing content as just used so the
+  // sweep leaves it alone until it is referenced
+  async createBlob(blob: Pick<StoredBlob, "hash" | "storageKey" | "size">): Promise<StoredBlob> {
+    const [saved] = await db
+      .insert(blobs)
+      .values(blob)
+      .onConflictDoUpdate({ target: blobs.hash, set: { updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async touchBlob(hash: string): Promise<StoredBlob | undefined> {
+    const [blob] = await db
+      .update(blobs)
+      .set({ updatedAt: new Date() })
+      .where(eq(blobs.hash, hash))
+      .returning();
+    return blob;
+  }
+
+  // Removes blobs nothing has used since `unusedSince` and returns them so
+  // their content can be deleted. Rows that are still referenced are kept even
+  // if their count has drifted.
+  async deleteUnusedBlobs(unusedSince: Date): Promise<StoredBlob[]> {
     return await db
+      .delete(blobs)
+      .where(
+        and(
+          eq(blobs.refCount, 0),
+          lt(blobs.updatedAt, unusedSince),
+          notExists(db.select().from(fileVersions).where(eq(fileVersions.contentHash, blobs.hash))),
+          notExists(db.select().from(files).where(eq(files.contentHash, blobs.hash))),
+        ),
+      )
+      .returning();
+  }
+
+  async updateFilePreview(
+    id: string,
+    preview: Pick<File, "previewStatus" | "thumbnailKey" | "previewKey">,
+  ): Promise<File> {
+    const [updatedFile] = await db
+      .update(files)
+      .set(preview)
+      .where(eq(files.id, id))
+      .returning();
+    return updatedFile;
+  }
+
+  async getFilesByPreviewStatus(status: string): Promise<File[]> {
+    return await db.select().from(files).where(eq(files.previewStatus, status));
+  }
+
+  // Returns undefined if the file was deleted while it was being transcoded
+  async updateFileTranscode(
+    id: string,
+    transcode: Pick<File, "transcodeStatus" | "hlsKey" | "posterKey">,
+  ): Promise<File | undefined> {
+    const [updatedFile] = await db
+      .update(files)
+      .set(transcode)
+      .where(eq(files.id, id))
+      .returning();
+    return updatedFile;
+  }
+
+  async getFilesByTranscodeStatus(status: string): Promise<File[]> {
+    return await db.select().from(files).where(eq(files.transcodeStatus, status));
+  }
+
+  // Records the scan of one version. The file row only follows when that
+  // version is still the current one; returns it in that case.
+  async updateFileScan(
+    fileId: string,
+    version: number,
+    scan: Pick<File, "scanStatus" | "scanSignature">,
+  ): Promise<File | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(fileVersions)
+        .set(scan)
+        .where(and(eq(fileVersions.fileId, fileId), eq(fileVersions.version, version)));
+      const [updatedFile] = await tx
+        .update(files)
+        .set(scan)
+        .where(and(eq(files.id, fileId), eq(files.currentVersion, version)))
+        .returning();
+      return updatedFile;
+    });
+  }
+
+  async getFilesByScanStatus(status: string): Promise<File[]> {
+    return await db.select().from(files).where(eq(files.scanStatus, status));
+  }
+
+  async getFileVersionsByScanStatus(status: string): Promise<FileVersion[]> {
+    return await db.select().from(fileVersions).where(eq(fileVersions.scanStatus, status));
+  }
+
+  // Files uploaded before versioning have no history rows yet; their current
+  // content becomes version 1
+  private initialFileVersion(file: File) {
+    return {
+      fileId: file.id,
+      version: file.currentVersion ?? 1,
+      name: file.name,
+      type: file.type,
+      mimeType: file.mimeType,
+      storageKey: file.storageKey,
+      contentHash: file.contentHash,
+      size: file.size,
+      uploadedBy: file.uploadedBy,
+      scanStatus: file.scanStatus,
+      scanSignature: file.scanSignature,
+      createdAt: file.createdAt ?? undefined,
+    };
+  }
+
+  // Newest version first
+  async getFileVersions(fileId: string): Promise<FileVersionWithUploader[]> {
+    const file = await this.getFile(fileId);
+    if (!file) return [];
+    await db
+      .insert(fileVersions)
+      .values(this.initialFileVersion(file))
+      .onConflictDoNothing();
+
+    const rows = await db
+      .select({
+        version: fileVersions,
+        uploader: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(fileVersions)
+      .leftJoin(users, eq(fileVersions.uploadedBy, users.id))
+      .where(eq(fileVersions.fileId, fileId))
+      .orderBy(desc(fileVersions.version));
+    return rows.map((row) => ({ ...row.version, uploader: row.uploader }));
+  }
+
+  async getFileVersion(fileId: string, version: number): Promise<FileVersion | undefined> {
+    const [fileVersion] = await db
       .select()
-      .from(chatMessages)
+      .from(fileVersions)
+      .where(and(eq(fileVersions.fileId, fileId), eq(fileVersions.version, version)));
+    return fileVersion;
+  }
+
+  // Records new content as the next version and makes it the current one
+  async addFileVersion(fileId: string, content: FileVersionContent): Promise<File> {
+    return await db.transaction(async (tx) => {
+      // Lock the file so concurrent uploads get distinct version numbers
+      const [file] = await tx.select().from(files).where(eq(files.id, fileId)).for("update");
+      if (!file) throw new Error(`File ${fileId} not found`);
+
+      await tx
+        .insert(fileVersions)
+        .values(this.initialFileVersion(file))
+        .onConflictDoNothing();
+
+      const version = (file.currentVersion ?? 1) + 1;
+      await tx.insert(fileVersions).values({ ...content, fileId, version });
+      if (content.contentHash) {
+        await tx
+          .update(blobs)
+          .set({ refCount: sql`${blobs.refCount} + 1`, updatedAt: new Date() })
+          .where(eq(blobs.hash, content.contentHash));
+      }
+
+      const [updatedFile] = await tx
+        .update(files)
+        .set({
+          name: content.name,
+          type: content.type,
+          mimeType: content.mimeType,
+          storageKey: content.storageKey,
+          contentHash: content.contentHash,
+          size: content.size,
+          currentVersion: version,
+          // The previews still show the old content until they are rebuilt
+          previewStatus: "pending",
+          transcodeStatus: content.type === "video" ? "pending" : null,
+          // Quarantined again until the new content has been scanned
+          scanStatus: "pending",
+          scanSignature: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(files.id, fileId))
+        .returning();
+      return updatedFile;
+    });
+  }
+
+  // File folder operations
+  async getFileFolders(courseId?: string): Promise<FileFolder[]> {
+    return await db
+      .select()
+      .from(fileFolders)
+      .where(courseId ? eq(fileFolders.courseId, courseId) : undefined)
+      .orderBy(fileFolders.name);
+  }
+
+  async getFileFoldersByTeacher(teacherId: string): Promise<FileFolder[]> {
+    return await db
+      .select()
+      .from(fileFolders)
+      .where(inArray(fileFolders.courseId, this.courseIdsForTeacher(teacherId)))
+      .orderBy(fileFolders.name);
+  }
+
+  async getFileFolder(id: string): Promise<FileFolder | undefined> {
+    const [folder] = await db.select().from(fileFolders).where(eq(fileFolders.id, id));
+    return folder;
+  }
+
+  async getFileFoldersByIds(ids: string[]): Promise<FileFolder[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(fileFolders).where(inArray(fileFolders.id, ids));
+  }
+
+  // The folder itself and every folder below it
+  async getFolderSubtreeIds(folderId: string): Promise<string[]> {
+    const result = await db.execute<{ id: string }>(sql`
+      WITH RECURSIVE subtree AS (
+        SELECT id FROM ${fileFolders} WHERE id = ${folderId}
+        UNION ALL
+        SELECT f.id FROM ${fileFolders} f JOIN subtree ON f.parent_id = subtree.id
+      )
+      SELECT id FROM subtree
+    `);
+    return result.rows.map((row) => row.id);
+  }
+
+  async getFilesInFolders(folderIds: string[]): Promise<File[]> {
+    if (folderIds.length === 0) return [];
+    return await db.select().from(files).where(inArray(files.folderId, folderIds));
+  }
+
+  async getFilesByIds(ids: string[]): Promise<File[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(files).where(inArray(files.id, ids));
+  }
+
+  async createFileFolder(folder: InsertFileFolder & { createdBy?: string }): Promise<FileFolder> {
+    const [newFolder] = await db.insert(fileFolders).values(folder).returning();
+    return newFolder;
+  }
+
+  async updateFileFolder(id: string, folder: Partial<InsertFileFolder>): Promise<FileFolder> {
+    const [updatedFolder] = await db
+      .update(fileFolders)
+      .set({ ...folder, updatedAt: new Date() })
+      .where(eq(fileFolders.id, id))
+      .returning();
+    return updatedFolder;
+  }
+
+  // Moving a folder to another course takes its subfolders and files along
+  async moveFileFolder(id: string, parentId: string | null, courseId: string): Promise<FileFolder> {
+    const subtreeIds = await this.getFolderSubtreeIds(id);
+    return await db.transaction(async (tx) => {
+      const [movedFolder] = await tx
+        .update(fileFolders)
+        .set({ parentId, courseId, updatedAt: new Date() })
+        .where(eq(fileFolders.id, id))
+        .returning();
+      await tx
+        .update(fileFolders)
+        .set({ courseId, updatedAt: new Date() })
+        .where(and(inArray(fileFolders.id, subtreeIds), sql`${fileFolders.courseId} <> ${courseId}`));
+      await tx
+        .update(files)
+        .set({ courseId, classId: null, updatedAt: new Date() })
+        .where(and(inArray(files.folderId, subtreeIds), sql`${files.courseId} IS DISTINCT FROM ${courseId}`));
+      return movedFolder;
+    });
+  }
+
+  async deleteFileFolder(id: string): Promise<void> {
+    await db.delete(fileFolders).where(eq(fileFolders.id, id));
+  }
+
+  // Files leaving their course are detached from its classes
+  async moveFiles(fileIds: string[], target: { folderId: string | null; courseId: string }): Promise<void> {
+    if (fileIds.length === 0) return;
+    await db.transaction(async (tx) => {
+      await tx
+        .update(files)
+        .set({ classId: null })
+        .where(and(inArray(files.id, fileIds), sql`${files.courseId} IS DISTINCT FROM ${target.courseId}`));
+      await tx
+        .update(files)
+        .set({ folderId: target.folderId, courseId: target.courseId, updatedAt: new Date() })
+        .where(inArray(files.id, fileIds));
+    });
+  }
+
+  // Upload session operations
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const [session] = await db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return session;
+  }
+
+  async createUploadSession(session: InsertUploadSession): Promise<UploadSession> {
+    const [newSession] = await db.insert(uploadSessions).values(session).returning();
+    return newSession;
+  }
+
+  async updateUploadSession(id: string, session: Partial<InsertUploadSession>): Promise<UploadSession> {
+    const [updatedSession] = await db
+      .update(uploadSessions)
+      .set({ ...session, updatedAt: new Date() })
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return updatedSession;
+  }
+
+  async deleteUploadSession(id: string): Promise<void> {
+    await db.delete(uploadSessions).where(eq(uploadSessions.id, id));
+  }
+
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return await db.select().from(uploadSessions).where(lt(uploadSessions.expiresAt, now));
+  }
+
+  // Storage quota operations
+  async getStorageQuotas(): Promise<StorageQuota[]> {
+    return await db.select().from(storageQuotas).orderBy(storageQuotas.scope, storageQuotas.targetId);
+  }
+
+  async getStorageQuota(scope: string, targetId: string): Promise<StorageQuota | undefined> {
+    const [quota] = await db
+      .select()
+      .from(storageQuotas)
+      .where(and(eq(storageQuotas.scope, scope), eq(storageQuotas.targetId, targetId)));
+    return quota;
+  }
+
+  async upsertStorageQuota(quota: InsertStorageQuota & { updatedBy?: string }): Promise<StorageQuota> {
+    const [saved] = await db
+      .insert(storageQuotas)
+      .values(quota)
+      .onConflictDoUpdate({
+        target: [storageQuotas.scope, storageQuotas.targetId],
+        set: { limitBytes: quota.limitBytes, updatedBy: quota.updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteStorageQuota(id: string): Promise<void> {
+    await db.delete(storageQuotas).where(eq(storageQuotas.id, id));
+  }
+
+  async getStorageUsageByUploader(userIds?: string[]): Promise<StorageUsage[]> {
+    return await this.storageUsage("uploaded_by", userIds);
+  }
+
+  async getStorageUsageByCourse(courseIds?: string[]): Promise<StorageUsage[]> {
+    return await this.storageUsage("course_id", courseIds);
+  }
+
+  async getStorageUsageByFile(fileIds: string[]): Promise<StorageUsage[]> {
+    return await this.storageUsage("file_id", fileIds);
+  }
+
+  // Every version that brought new content counts once; rollbacks reuse
+  // earlier content. Files from before versioning count their current content.
+  private async storageUsage(
+    groupBy: "uploaded_by" | "course_id" | "file_id",
+    ids?: string[],
+  ): Promise<StorageUsage[]> {
+    if (ids && ids.length === 0) return [];
+    const column = sql.identifier(groupBy);
+    const result = await db.execute<{ id: string; used_bytes: string }>(sql`
+      WITH content AS (
+        SELECT v.uploaded_by, f.course_id, f.id AS file_id, v.size
+        FROM ${fileVersions} v JOIN ${files} f ON f.id = v.file_id
+        WHERE v.restored_from IS NULL
+        UNION ALL
+        SELECT f.uploaded_by, f.course_id, f.id AS file_id, f.size
+        FROM ${files} f
+        WHERE NOT EXISTS (SELECT 1 FROM ${fileVersions} v WHERE v.file_id = f.id)
+      )
+      SELECT ${column} AS id, COALESCE(SUM(size), 0) AS used_bytes
+      FROM content
+      WHERE ${column} IS NOT NULL ${ids ? sql`AND ${column} IN ${ids}` : sql``}
+      GROUP BY ${column}
+    `);
+    return result.rows.map((row) => ({ id: row.id, usedBytes: Number(row.used_bytes) }));
+  }
+
+  // Curriculum operations
+  async getCourseOutline(courseId: string): Promise<CourseOutlineSection[]> {
+    const sections = await this.getCourseSections(courseId);
+    const rows = await db
+      .select({
+        lesson: lessons,
+        file: {
+          id: files.id,
+          name: files.name,
+          type: files.type,
+          scanStatus: files.scanStatus,
+          transcodeStatus: files.transcodeStatus,
+        },
+        class: {
+          id: classes.id,
+          title: classes.title,
+          scheduledAt: classes.scheduledAt,
+          status: classes.status,
+        },
+        test: {
+          id: tests.id,
+          title: tests.title,
+          duration: tests.duration,
+          totalMarks: tests.totalMarks,
+        },
+      })
+      .from(lessons)
+      .leftJoin(files, eq(lessons.fileId, files.id))
+      .leftJoin(classes, eq(lessons.classId, classes.id))
+      .leftJoin(tests, eq(lessons.testId, tests.id))
+      .where(eq(lessons.courseId, courseId))
+      .orderBy(lessons.position, lessons.createdAt);
+
+    return sections.map((section) => ({
+      ...section,
+      lessons: rows
+        .filter((row) => row.lesson.sectionId === section.id)
+        .map((row) => ({ ...row.lesson, file: row.file, class: row.class, test: row.test })),
+    }));
+  }
+
+  async getCourseSection(id: string): Promise<CourseSection | undefined> {
+    const [section] = await db.select().from(courseSections).where(eq(courseSections.id, id));
+    return section;
+  }
+
+  // New sections go to the end of the course
+  async createCourseSection(courseId: string, section: InsertCourseSection): Promise<CourseSection> {
+    const [newSection] = await db
+      .insert(courseSections)
+      .values({
+        ...section,
+        courseId,
+        position: sql`(SELECT COALESCE(MAX(${courseSections.position}) + 1, 0) FROM ${courseSections} WHERE ${courseSections.courseId} = ${courseId})`,
+      })
+      .returning();
+    return newSection;
+  }
+
+  async getCourseSections(courseId: string): Promise<CourseSection[]> {
+    return await db
+      .select()
+      .from(courseSections)
+      .where(eq(courseSections.courseId, courseId))
+      .orderBy(courseSections.position, courseSections.createdAt);
+  }
+
+  async updateCourseSection(id: string, section: Partial<InsertCourseSection & ReleaseRule>): Promise<CourseSection> {
+    const [updatedSection] = await db
+      .update(courseSections)
+      .set({ ...section, updatedAt: new Date() })
+      .where(eq(courseSections.id, id))
+      .returning();
+    return updatedSection;
+  }
+
+  async deleteCourseSection(id: string): Promise<void> {
+    await db.delete(courseSections).where(eq(courseSections.id, id));
+  }
+
+  async getLesson(id: string): Promise<Lesson | undefined> {
+    const [lesson] = await db.select().from(lessons).where(eq(lessons.id, id));
+    return lesson;
+  }
+
+  async getLessonsByCourse(courseId: string): Promise<Lesson[]> {
+    return await db.select().from(lessons).where(eq(lessons.courseId, courseId));
+  }
+
+  async getLessonsByFile(fileId: string): Promise<Lesson[]> {
+    return await db.select().from(lessons).where(eq(lessons.fileId, fileId));
+  }
+
+  // New lessons go to the end of their section
+  async createLesson(section: CourseSection, lesson: InsertLesson): Promise<Lesson> {
+    const [newLesson] = await db
+      .insert(lessons)
+      .values({
+        ...lesson,
+        courseId: section.courseId,
+        sectionId: section.id,
+        position: sql`(SELECT COALESCE(MAX(${lessons.position}) + 1, 0) FROM ${lessons} WHERE ${lessons.sectionId} = ${section.id})`,
+      })
+      .returning();
+    return newLesson;
+  }
+
+  async updateLesson(id: string, lesson: Partial<InsertLesson & ReleaseRule>): Promise<Lesson> {
+    const [updatedLesson] = await db
+      .update(lessons)
+      .set({ ...lesson, updatedAt: new Date() })
+      .where(eq(lessons.id, id))
+      .returning();
+    return updatedLesson;
+  }
+
+  async deleteLesson(id: string): Promise<void> {
+    await db.delete(lessons).where(eq(lessons.id, id));
+  }
+
+  // Positions follow the order given; the caller checks that it covers the
+  // course's sections and lessons exactly
+  async reorderCourseOutline(courseId: string, order: CourseOutlineOrder): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const [sectionIndex, section] of order.sections.entries()) {
+        await tx
+          .update(courseSections)
+          .set({ position: sectionIndex, updatedAt: new Date() })
+          .where(and(eq(courseSections.id, section.id), eq(courseSections.courseId, courseId)));
+        for (const [lessonIndex, lessonId] of section.lessonIds.entries()) {
+          await tx
+            .update(lessons)
+            .set({ sectionId: section.id, position: lessonIndex, updatedAt: new Date() })
+            .where(and(eq(lessons.id, lessonId), eq(lessons.courseId, courseId)));
+        }
+      }
+    });
+  }
+
+  // Progress operations
+  async getLessonProgress(studentId: string, lessonId: string): Promise<LessonProgress | undefined> {
+    const [progress] = await db
+      .select()
+      .from(lessonProgress)
+      .where(and(eq(lessonProgress.studentId, studentId), eq(lessonProgress.lessonId, lessonId)));
+    return progress;
+  }
+
+  async getLessonProgressByStudent(studentId: string): Promise<LessonProgress[]> {
+    return await db.select().from(lessonProgress).where(eq(lessonProgress.studentId, studentId));
+  }
+
+  // The watched percentage only grows, even if reports arrive out of order
+  async saveLessonProgress(
+    progress: Pick<LessonProgress, "studentId" | "lessonId" | "courseId" | "percentWatched" | "completedAt">,
+  ): Promise<LessonProgress> {
+    const [saved] = await db
+      .insert(lessonProgress)
+      .values(progress)
+      .onConflictDoUpdate({
+        target: [lessonProgress.studentId, lessonProgress.lessonId],
+        set: {
+          percentWatched: sql`GREATEST(${lessonProgress.percentWatched}, excluded.percent_watched)`,
+          completedAt: progress.completedAt,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getLessonProgressCounts(filter: { studentIds?: string[]; courseIds?: string[] }): Promise<LessonProgressCount[]> {
+    if (filter.studentIds?.length === 0 || filter.courseIds?.length === 0) return [];
+    const rows = await db
+      .select({
+        studentId: lessonProgress.studentId,
+        courseId: lessonProgress.courseId,
+        startedLessons: count(),
+        completedLessons: count(lessonProgress.completedAt),
+      })
+      .from(lessonProgress)
       .where(
         and(
-          eq(chatMessages.senderId, userId1),
-          eq(chatMessages.receiverId, userId2)
-        )
+          filter.studentIds ? inArray(lessonProgress.studentId, filter.studentIds) : undefined,
+          filter.courseIds ? inArray(lessonProgress.courseId, filter.courseIds) : undefined,
+        ),
+      )
+      .groupBy(lessonProgress.studentId, lessonProgress.courseId);
+    return rows;
+  }
+
+  async getLessonCountsByCourse(courseIds?: string[]): Promise<{ courseId: string; lessonCount: number }[]> {
+    if (courseIds?.length === 0) return [];
+    return await db
+      .select({ courseId: lessons.courseId, lessonCount: count() })
+      .from(lessons)
+      .where(courseIds ? inArray(lessons.courseId, courseIds) : undefined)
+      .groupBy(lessons.courseId);
+  }
+
+  // Undefined when the student had already completed the course
+  async createCourseCompletion(studentId: string, courseId: string): Promise<CourseCompletion | undefined> {
+    const [completion] = await db
+      .insert(courseCompletions)
+      .values({ studentId, courseId })
+      .onConflictDoNothing()
+      .returning();
+    return completion;
+  }
+
+  async getCourseCompletions(filter: { studentIds?: string[]; courseIds?: string[] }): Promise<CourseCompletion[]> {
+    if (filter.studentIds?.length === 0 || filter.courseIds?.length === 0) return [];
+    return await db
+      .select()
+      .from(courseCompletions)
+      .where(
+        and(
+          filter.studentIds ? inArray(courseCompletions.studentId, filter.studentIds) : undefined,
+          filter.courseIds ? inArray(courseCompletions.courseId, filter.courseIds) : undefined,
+        ),
+      );
+  }
+
+  // Months are formatted YYYY-MM; months without completions are left out
+  async countCourseCompletionsByMonth(
+    since: Date,
+    courseIds?: string[],
+  ): Promise<{ month: string; completions: number }[]> {
+    if (courseIds?.length === 0) return [];
+    const month = sql<string>`to_char(${courseCompletions.completedAt}, 'YYYY-MM')`;
+    return await db
+      .select({ month, completions: count() })
+      .from(courseCompletions)
+      .where(
+        and(
+          gte(courseCompletions.completedAt, since),
+          courseIds ? inArray(courseCompletions.courseId, courseIds) : undefined,
+        ),
       )
-      .orderBy(chatMessages.createdAt);
+      .groupBy(month);
+  }
+
+  // Prerequisite operations
+  // Every prerequisite link; the graph is small enough to check as a whole
+  async getCoursePrerequisites(): Promise<CoursePrerequisite[]> {
+    return await db.select().from(coursePrerequisites);
+  }
+
+  async setCoursePrerequisites(courseId: string, prerequisiteIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(coursePrerequisites).where(eq(coursePrerequisites.courseId, courseId));
+      if (prerequisiteIds.length > 0) {
+        await tx
+          .insert(coursePrerequisites)
+          .values(prerequisiteIds.map((prerequisiteId) => ({ courseId, prerequisiteId })));
+      }
+    });
+  }
+
+  async getLearningPaths(): Promise<LearningPathWithCourses[]> {
+    const paths = await db.select().from(learningPaths).orderBy(learningPaths.title);
+    return await this.withPathCourses(paths);
+  }
+
+  async getLearningPath(id: string): Promise<LearningPathWithCourses | undefined> {
+    const [path] = await this.withPathCourses(await db.select().from(learningPaths).where(eq(learningPaths.id, id)));
+    return path;
+  }
+
+  private async withPathCourses(paths: LearningPath[]): Promise<LearningPathWithCourses[]> {
+    if (paths.length === 0) return [];
+    const rows = await db
+      .select({
+        pathId: learningPathCourses.pathId,
+        course: { id: courses.id, title: courses.title, status: courses.status, teacherId: courses.teacherId },
+      })
+      .from(learningPathCourses)
+      .innerJoin(courses, eq(learningPathCourses.courseId, courses.id))
+      .where(inArray(learningPathCourses.pathId, paths.map((path) => path.id)))
+      .orderBy(learningPathCourses.position);
+    return paths.map((path) => ({
+      ...path,
+      courses: rows.filter((row) => row.pathId === path.id).map((row) => row.course),
+    }));
+  }
+
+  async createLearningPath(path: InsertLearningPath, createdBy: string): Promise<LearningPath> {
+    return await db.transaction(async (tx) => {
+      const [newPath] = await tx
+        .insert(learningPaths)
+        .values({ title: path.title, description: path.description, createdBy })
+        .returning();
+      await this.setPathCourses(tx, newPath.id, path.courseIds);
+      return newPath;
+    });
+  }
+
+  async updateLearningPath(id: string, path: InsertLearningPath): Promise<LearningPath> {
+    return await db.transaction(async (tx) => {
+      const [updatedPath] = await tx
+        .update(learningPaths)
+        .set({ title: path.title, description: path.description, updatedAt: new Date() })
+        .where(eq(learningPaths.id, id))
+        .returning();
+      await tx.delete(learningPathCourses).where(eq(learningPathCourses.pathId, id));
+      await this.setPathCourses(tx, id, path.courseIds);
+      return updatedPath;
+    });
+  }
+
+  private async setPathCourses(tx: Transaction, pathId: string, courseIds: string[]): Promise<void> {
+    if (courseIds.length === 0) return;
+    await tx
+      .insert(learningPathCourses)
+      .values(courseIds.map((courseId, position) => ({ pathId, courseId, position })));
+  }
+
+  async deleteLearningPath(id: string): Promise<void> {
+    await db.delete(learningPaths).where(eq(learningPaths.id, id));
+  }
+
+  // Student review operations
+  // A student has one review per course. Changing it sends it back to the
+  // moderation queue.
+  async saveStudentReview(
+    studentId: string,
+    courseId: string,
+    review: InsertStudentReview,
+    submittedBy: string,
+  ): Promise<StudentReview> {
+    const values = {
+      rating: review.rating,
+      body: review.body || null,
+      status: "pending",
+      submittedBy,
+      moderatedBy: null,
+      moderatedAt: null,
+      moderationNote: null,
+    };
+    const [saved] = await db
+      .insert(studentReviews)
+      .values({ studentId, courseId, ...values })
+      .onConflictDoUpdate({
+        target: [studentReviews.studentId, studentReviews.courseId],
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getStudentReview(id: string): Promise<StudentReview | undefined> {
+    const [review] = await db.select().from(studentReviews).where(eq(studentReviews.id, id));
+    return review;
+  }
+
+  // Oldest first, so the moderation queue is worked in order
+  async getStudentReviews(filter: {
+    status?: StudentReviewStatus;
+    courseIds?: string[];
+    studentIds?: string[];
+  }): Promise<StudentReviewWithDetails[]> {
+    if (filter.courseIds?.length === 0 || filter.studentIds?.length === 0) return [];
+    const rows = await db
+      .select({
+        review: studentReviews,
+        student: { id: students.id, name: students.name, email: students.email },
+        course: { id: courses.id, title: courses.title, teacherId: courses.teacherId },
+      })
+      .from(studentReviews)
+      .innerJoin(students, eq(studentReviews.studentId, students.id))
+      .innerJoin(courses, eq(studentReviews.courseId, courses.id))
+      .where(
+        and(
+          filter.status ? eq(studentReviews.status, filter.status) : undefined,
+          filter.courseIds ? inArray(studentReviews.courseId, filter.courseIds) : undefined,
+          filter.studentIds ? inArray(studentReviews.studentId, filter.studentIds) : undefined,
+        ),
+      )
+      .orderBy(studentReviews.updatedAt);
+    return rows.map((row) => ({ ...row.review, student: row.student, course: row.course }));
+  }
+
+  async moderateStudentReview(id: string, moderation: ReviewModeration, moderatedBy: string): Promise<StudentReview> {
+    const [review] = await db
+      .update(studentReviews)
+      .set({
+        status: moderation.status,
+        moderationNote: moderation.note || null,
+        moderatedBy,
+        moderatedAt: new Date(),
+      })
+      .where(eq(studentReviews.id, id))
+      .returning();
+    return review;
+  }
+
+  async getCourseRatings(): Promise<(RatingSummary & { courseId: string })[]> {
+    const rows = await db
+      .select({ courseId: studentReviews.courseId, average: avg(studentReviews.rating), count: count() })
+      .from(studentReviews)
+      .where(eq(studentReviews.status, "approved"))
+      .groupBy(studentReviews.courseId);
+    return rows.map((row) => ({ ...row, average: Number(row.average) }));
+  }
+
+  // Ratings of the courses each teacher leads
+  async getTeacherRatings(): Promise<(RatingSummary & { teacherId: string })[]> {
+    const rows = await db
+      .select({ teacherId: courses.teacherId, average: avg(studentReviews.rating), count: count() })
+      .from(studentReviews)
+      .innerJoin(courses, eq(studentReviews.courseId, courses.id))
+      .where(and(eq(studentReviews.status, "approved"), isNotNull(courses.teacherId)))
+      .groupBy(courses.teacherId);
+    return rows.map((row) => ({ teacherId: row.teacherId!, average: Number(row.average), count: row.count }));
+  }
+
+  // Staff operations
+  // Co-teachers and TAs of the course; the lead is the course's teacher
+  async getCourseStaff(courseId: string): Promise<CourseStaffWithUser[]> {
+    const rows = await db
+      .select({
+        member: courseStaff,
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+          profileImageUrl: users.profileImageUrl,
+        },
+      })
+      .from(courseStaff)
+      .innerJoin(users, eq(courseStaff.userId, users.id))
+      .where(eq(courseStaff.courseId, courseId))
+      .orderBy(courseStaff.createdAt);
+    return rows.map((row) => ({ ...row.member, user: row.user }));
+  }
+
+  async getCourseStaffMember(courseId: string, userId: string): Promise<CourseStaff | undefined> {
+    const [member] = await db
+      .select()
+      .from(courseStaff)
+      .where(and(eq(courseStaff.courseId, courseId), eq(courseStaff.userId, userId)));
+    return member;
+  }
+
+  async getStaffAssignments(): Promise<CourseStaff[]> {
+    return await db.select().from(courseStaff);
+  }
+
+  // Adds the teacher to the course's staff, or changes their role
+  async setCourseStaffMember(courseId: string, member: CourseStaffMember, addedBy: string): Promise<CourseStaff> {
+    const [row] = await db
+      .insert(courseStaff)
+      .values({ courseId, userId: member.userId, role: member.role, addedBy })
+      .onConflictDoUpdate({
+        target: [courseStaff.courseId, courseStaff.userId],
+        set: { role: member.role },
+      })
+      .returning();
+    return row;
+  }
+
+  async removeCourseStaffMember(courseId: string, userId: string): Promise<void> {
+    await db
+      .delete(courseStaff)
+      .where(and(eq(courseStaff.courseId, courseId), eq(courseStaff.userId, userId)));
+  }
+
+  // Publishing operations
+  // Moves the course from `from` to `to` and records the change. Undefined
+  // when the course is no longer in `from`, for example because someone else
+  // changed it first. Courses created before statuses were enforced may have
+  // none, which counts as draft.
+  async changeCourseStatus(
+    courseId: string,
+    from: CourseStatus,
+    to: CourseStatus,
+    changedBy: string,
+    comment?: string | null,
+  ): Promise<Course | undefined> {
+    return await db.transaction(async (tx) => {
+      const [course] = await tx
+        .update(courses)
+        .set({ status: to, updatedAt: new Date() })
+        .where(
+          and(
+            eq(courses.id, courseId),
+            from === "draft"
+              ? or(eq(courses.status, from), isNull(courses.status))
+              : eq(courses.status, from),
+          ),
+        )
+        .returning();
+      if (!course) return undefined;
+      await tx.insert(courseStatusChanges).values({
+        courseId,
+        fromStatus: from,
+        toStatus: to,
+        changedBy,
+        comment: comment || null,
+      });
+      return course;
+    });
+  }
+
+  // Oldest first
+  async getCourseStatusChanges(courseId: string): Promise<CourseStatusChangeWithUser[]> {
+    const rows = await db
+      .select({
+        change: courseStatusChanges,
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(courseStatusChanges)
+      .leftJoin(users, eq(courseStatusChanges.changedBy, users.id))
+      .where(eq(courseStatusChanges.courseId, courseId))
+      .orderBy(courseStatusChanges.createdAt);
+    return rows.map((row) => ({ ...row.change, user: row.user }));
+  }
+
+  // Oldest first
+  async getCourseReviewComments(courseId: string): Promise<CourseReviewCommentWithAuthor[]> {
+    const rows = await db
+      .select({
+        comment: courseReviewComments,
+        author: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(courseReviewComments)
+      .leftJoin(users, eq(courseReviewComments.authorId, users.id))
+      .where(eq(courseReviewComments.courseId, courseId))
+      .orderBy(courseReviewComments.createdAt);
+    return rows.map((row) => ({ ...row.comment, author: row.author }));
+  }
+
+  async createCourseReviewComment(courseId: string, authorId: string, body: string): Promise<CourseReviewComment> {
+    const [comment] = await db.insert(courseReviewComments).values({ courseId, authorId, body }).returning();
+    return comment;
+  }
+
+  // Chat operations
+  // Messages between two users in both directions, newest page first.
+  // `before` is the id of the oldest message already loaded.
+  async getChatMessages(
+    userId1: string,
+    userId2: string,
+    options: { before?: string; limit?: number } = {},
+  ): Promise<ChatMessagePage> {
+    const limit = options.limit ?? 50;
+    const betweenUsers = or(
+      and(eq(chatMessages.senderId, userId1), eq(chatMessages.receiverId, userId2)),
+      and(eq(chatMessages.senderId, userId2), eq(chatMessages.receiverId, userId1))
+    );
+
+    let cursorCondition;
+    if (options.before) {
+      const [cursor] = await db
+        .select()
+        .from(chatMessages)
+        .where(eq(chatMessages.id, options.before));
+      if (cursor?.createdAt) {
+        cursorCondition = or(
+          lt(chatMessages.createdAt, cursor.createdAt),
+          and(eq(chatMessages.createdAt, cursor.createdAt), lt(chatMessages.id, cursor.id))
+        );
+      }
+    }
+
+    const rows = await db
+      .select()
+      .from(chatMessages)
+      .where(and(betweenUsers, cursorCondition))
+      .orderBy(desc(chatMessages.createdAt), desc(chatMessages.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit).reverse();
+    return {
+      messages: page,
+      nextCursor: rows.length > limit ? page[0].id : null,
+    };
+  }
+
+  async getChatConversations(userId: string): Promise<ChatConversation[]> {
+    const peerId = sql<string>`case when ${chatMessages.senderId} = ${userId} then ${chatMessages.receiverId} else ${chatMessages.senderId} end`;
+
+    const latest = await db
+      .selectDistinctOn([peerId], { peerId, message: chatMessages })
+      .from(chatMessages)
+      .where(or(eq(chatMessages.senderId, userId), eq(chatMessages.receiverId, userId)))
+      .orderBy(peerId, desc(chatMessages.createdAt), desc(chatMessages.id));
+
+    const unread = await db
+      .select({ senderId: chatMessages.senderId, count: count() })
+      .from(chatMessages)
+      .where(and(eq(chatMessages.receiverId, userId), eq(chatMessages.read, false)))
+      .groupBy(chatMessages.senderId);
+    const unreadBySender = new Map(unread.map((row) => [row.senderId, row.count]));
+
+    return latest
+      .map((row) => ({
+        peerId: row.peerId,
+        lastMessage: row.message,
+        unreadCount: unreadBySender.get(row.peerId) ?? 0,
+      }))
+      .sort(
+        (a, b) =>
+          (b.lastMessage.createdAt?.getTime() ?? 0) - (a.lastMessage.createdAt?.getTime() ?? 0)
+      );
   }
 
   async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
@@ -338,17 +1816,261 @@ export class DatabaseStorage implements IStorage {
     return newMessage;
   }
 
-  async markMessageAsRead(messageId: string): Promise<void> {
-    await db
+  // Only the receiver can mark a message as read
+  async markMessageAsRead(messageId: string, readerId: string): Promise<ChatMessage | undefined> {
+    const [message] = await db
+      .update(chatMessages)
+      .set({ read: true })
+      .where(
+        and(
+          eq(chatMessages.id, messageId),
+          eq(chatMessages.receiverId, readerId),
+          eq(chatMessages.read, false)
+        )
+      )
+      .returning();
+    return message;
+  }
+
+  async markConversationAsRead(readerId: string, senderId: string): Promise<ChatMessage[]> {
+    return await db
       .update(chatMessages)
       .set({ read: true })
-      .where(eq(chatMessages.id, messageId));
+      .where(
+        and(
+          eq(chatMessages.senderId, senderId),
+          eq(chatMessages.receiverId, readerId),
+          eq(chatMessages.read, false)
+        )
+      )
+      .returning();
+  }
+
+  async getUnreadMessageCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(chatMessages)
+      .where(and(eq(chatMessages.receiverId, userId), eq(chatMessages.read, false)));
+    return result?.count ?? 0;
+  }
+
+  // Chat channel operations
+  async getChatChannels(): Promise<ChatChannel[]> {
+    return await db.select().from(chatChannels).orderBy(chatChannels.name);
+  }
+
+  async getChatChannelsForUser(userId: string): Promise<ChatChannel[]> {
+    return await db
+      .select()
+      .from(chatChannels)
+      .where(
+        inArray(
+          chatChannels.id,
+          db
+            .select({ id: chatChannelMembers.channelId })
+            .from(chatChannelMembers)
+            .where(eq(chatChannelMembers.userId, userId))
+        )
+      )
+      .orderBy(chatChannels.name);
+  }
+
+  async getChatChannel(id: string): Promise<ChatChannel | undefined> {
+    const [channel] = await db.select().from(chatChannels).where(eq(chatChannels.id, id));
+    return channel;
+  }
+
+  // The course or class channel, created if it does not exist yet. The
+  // unique index settles concurrent creates.
+  async findOrCreateChatChannel(channel: InsertChatChannel): Promise<{ channel: ChatChannel; created: boolean }> {
+    const [newChannel] = await db
+      .insert(chatChannels)
+      .values(channel)
+      .onConflictDoNothing({ target: [chatChannels.courseId, chatChannels.classId] })
+      .returning();
+    if (newChannel) {
+      await this.syncChatChannelMembers(newChannel.id);
+      return { channel: newChannel, created: true };
+    }
+
+    const [existing] = await db
+      .select()
+      .from(chatChannels)
+      .where(
+        and(
+          eq(chatChannels.courseId, channel.courseId),
+          channel.classId ? eq(chatChannels.classId, channel.classId) : sql`${chatChannels.classId} is null`
+        )
+      );
+    return { channel: existing, created: false };
+  }
+
+  // Brings the member list in line with the course's staff, the class
+  // teacher and the students currently enrolled in the course
+  async syncChatChannelMembers(channelId: string): Promise<ChatChannelMember[]> {
+    const channel = await this.getChatChannel(channelId);
+    if (!channel) return [];
+
+    const course = await this.getCourse(channel.courseId);
+    const classData = channel.classId ? await this.getClass(channel.classId) : undefined;
+    const staff = await db
+      .select({ userId: courseStaff.userId })
+      .from(courseStaff)
+      .where(eq(courseStaff.courseId, channel.courseId));
+    const teacherIds = new Set(
+      [course?.teacherId, classData?.teacherId, ...staff.map((member) => member.userId)]
+        .filter((id): id is string => !!id)
+    );
+    const enrolled = await db
+      .select({ id: students.id })
+      .from(students)
+      .where(arrayContains(students.enrolledCourses, [channel.courseId]));
+    const studentIds = new Set(enrolled.map((student) => student.id));
+
+    return await db.transaction(async (tx) => {
+      const current = await tx
+        .select()
+        .from(chatChannelMembers)
+        .where(eq(chatChannelMembers.channelId, channelId));
+
+      const stale = current.filter((member) =>
+        member.userId ? !teacherIds.has(member.userId) : !studentIds.has(member.studentId!)
+      );
+      if (stale.length > 0) {
+        await tx.delete(chatChannelMembers).where(
+          inArray(chatChannelMembers.id, stale.map((member) => member.id))
+        );
+      }
+
+      const existingUserIds = new Set(current.map((member) => member.userId));
+      const existingStudentIds = new Set(current.map((member) => member.studentId));
+      const additions = [
+        ...Array.from(teacherIds)
+          .filter((id) => !existingUserIds.has(id))
+          .map((userId) => ({ channelId, userId, memberRole: "teacher" })),
+        ...Array.from(studentIds)
+          .filter((id) => !existingStudentIds.has(id))
+          .map((studentId) => ({ channelId, studentId, memberRole: "student" })),
+      ];
+      if (additions.length > 0) {
+        await tx.insert(chatChannelMembers).values(additions).onConflictDoNothing();
+      }
+
+      return await tx
+        .select()
+        .from(chatChannelMembers)
+        .where(eq(chatChannelMembers.channelId, channelId));
+    });
+  }
+
+  async syncCourseChatChannels(courseId: string): Promise<void> {
+    const channels = await db
+      .select({ id: chatChannels.id })
+      .from(chatChannels)
+      .where(eq(chatChannels.courseId, courseId));
+    for (const channel of channels) {
+      await this.syncChatChannelMembers(channel.id);
+    }
+  }
+
+  async getChatChannelMembers(channelId: string): Promise<ChatChannelMember[]> {
+    return await db
+      .select()
+      .from(chatChannelMembers)
+      .where(eq(chatChannelMembers.channelId, channelId));
+  }
+
+  async isChatChannelMember(channelId: string, userId: string): Promise<boolean> {
+    const [member] = await db
+      .select({ id: chatChannelMembers.id })
+      .from(chatChannelMembers)
+      .where(and(eq(chatChannelMembers.channelId, channelId), eq(chatChannelMembers.userId, userId)));
+    return !!member;
+  }
+
+  async getChatChannelMessages(
+    channelId: string,
+    options: { before?: string; limit?: number } = {},
+  ): Promise<ChatChannelMessagePage> {
+    const limit = options.limit ?? 50;
+
+    let cursorCondition;
+    if (options.before) {
+      const [cursor] = await db
+        .select()
+        .from(chatChannelMessages)
+        .where(eq(chatChannelMessages.id, options.before));
+      if (cursor?.createdAt) {
+        cursorCondition = or(
+          lt(chatChannelMessages.createdAt, cursor.createdAt),
+          and(eq(chatChannelMessages.createdAt, cursor.createdAt), lt(chatChannelMessages.id, cursor.id))
+        );
+      }
+    }
+
+    const rows = await db
+      .select()
+      .from(chatChannelMessages)
+      .where(and(eq(chatChannelMessages.channelId, channelId), cursorCondition))
+      .orderBy(desc(chatChannelMessages.createdAt), desc(chatChannelMessages.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit).reverse();
+    return {
+      messages: page,
+      nextCursor: rows.length > limit ? page[0].id : null,
+    };
+  }
+
+  async createChatChannelMessage(message: InsertChatChannelMessage): Promise<ChatChannelMessage> {
+    const [newMessage] = await db.insert(chatChannelMessages).values(message).returning();
+    return newMessage;
   }
 
   // Teacher operations
   async getTeachers(): Promise<User[]> {
     return await db.select().from(users).where(eq(users.role, "teacher"));
   }
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.firstName, users.email);
+  }
+
+  async getUsersByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  // Subquery of the ids of every course the given teacher leads or is on the
+  // staff of
+  private courseIdsForTeacher(teacherId: string) {
+    return db
+      .select({ id: courses.id })
+      .from(courses)
+      .where(
+        or(
+          eq(courses.teacherId, teacherId),
+          inArray(
+            courses.id,
+            db.select({ id: courseStaff.courseId }).from(courseStaff).where(eq(courseStaff.userId, teacherId))
+          )
+        )
+      );
+  }
+
+  // Subquery of the ids of every class the given teacher teaches or that
+  // belongs to one of their courses
+  private classIdsForTeacher(teacherId: string) {
+    return db
+      .select({ id: classes.id })
+      .from(classes)
+      .where(
+        or(
+          eq(classes.teacherId, teacherId),
+          inArray(classes.courseId, this.courseIdsForTeacher(teacherId))
+        )
+      );
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,230 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { pipeline } from "stream/promises";
+import { storage } from "./storage";
+import { fileStorage } from "./fileStorage";
+import { JobQueue } from "./jobs";
+
+const execFileAsync = promisify(execFile);
+
+// Videos are transcoded with a local ffmpeg install
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+const SEGMENT_SECONDS = 6;
+const POSTER_WIDTH = 1280;
+// Long lectures at several bitrates take a while on a small server
+const TRANSCODE_TIMEOUT_MS = 4 * 60 * 60 * 1000;
+
+// Bitrate ladder, keyed by the short side of the picture so portrait videos
+// from phones get the same treatment as landscape ones
+const RENDITIONS = [
+  { name: "1080p", height: 1080, videoKbps: 5000, audioKbps: 128 },
+  { name: "720p", height: 720, videoKbps: 2800, audioKbps: 128 },
+  { name: "480p", height: 480, videoKbps: 1400, audioKbps: 96 },
+  { name: "360p", height: 360, videoKbps: 800, audioKbps: 64 },
+];
+
+type Rendition = (typeof RENDITIONS)[number];
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+  ".jpg": "image/jpeg",
+};
+
+// One video at a time; ffmpeg already uses every core
+const transcodeQueue = new JobQueue("Transcode");
+
+export function queueFileTranscode(fileId: string): void {
+  transcodeQueue.enqueue(fileId, () => transcodeFile(fileId));
+}
+
+// Picks up videos that were waiting when the server last stopped, once they
+// have passed their malware scan
+export function startTranscodeWorker(): void {
+  storage
+    .getFilesByTranscodeStatus("pending")
+    .then((pending) =>
+      pending.filter((file) => file.scanStatus === "clean").forEach((file) => queueFileTranscode(file.id)),
+    )
+    .catch((error) => {
+      console.error("Error queueing pending transcodes:", error);
+    });
+}
+
+type ProbeResult = { width: number; height: number; duration: number; hasAudio: boolean };
+
+async function probe(inputPath: string): Promise<ProbeResult> {
+  const { stdout } = await execFileAsync(
+    FFPROBE_PATH,
+    ["-v", "error", "-show_entries", "stream=codec_type,width,height:format=duration", "-of", "json", inputPath],
+    { timeout: 60_000 },
+  );
+  const result = JSON.parse(stdout);
+  const streams: any[] = result.streams ?? [];
+  const video = streams.find((stream) => stream.codec_type === "video");
+  if (!video?.width || !video?.height) {
+    throw new Error("No video stream found");
+  }
+  return {
+    width: video.width,
+    height: video.height,
+    duration: Number(result.format?.duration) || 0,
+    hasAudio: streams.some((stream) => stream.codec_type === "audio"),
+  };
+}
+
+// Renditions no larger than the source; tiny sources get a single one at
+// their own size
+function renditionsFor(source: ProbeResult): Rendition[] {
+  const shortSide = Math.min(source.width, source.height);
+  const ladder = RENDITIONS.filter((rendition) => rendition.height <= shortSide);
+  if (ladder.length > 0) return ladder;
+  const smallest = RENDITIONS[RENDITIONS.length - 1];
+  return [{ ...smallest, name: `${shortSide}p`, height: shortSide - (shortSide % 2) }];
+}
+
+function hlsArgs(inputPath: string, outDir: string, ladder: Rendition[], hasAudio: boolean): string[] {
+  // Scale the short side to the rendition height, keeping the aspect ratio
+  const scaled = ladder.map(
+    (rendition, i) =>
+      `[s${i}]scale=w='if(gt(iw,ih),-2,${rendition.height})':h='if(gt(iw,ih),${rendition.height},-2)'[v${i}]`,
+  );
+  const split = `[0:v]split=${ladder.length}${ladder.map((_, i) => `[s${i}]`).join("")}`;
+
+  const args = ["-y", "-v", "error", "-i", inputPath, "-filter_complex", [split, ...scaled].join(";")];
+  ladder.forEach((rendition, i) => {
+    args.push(
+      "-map", `[v${i}]`,
+      `-c:v:${i}`, "libx264",
+      `-b:v:${i}`, `${rendition.videoKbps}k`,
+      `-maxrate:v:${i}`, `${Math.round(rendition.videoKbps * 1.07)}k`,
+      `-bufsize:v:${i}`, `${Math.round(rendition.videoKbps * 1.5)}k`,
+    );
+    if (hasAudio) {
+      args.push("-map", "0:a:0", `-c:a:${i}`, "aac", `-b:a:${i}`, `${rendition.audioKbps}k`);
+    }
+  });
+
+  const streamMap = ladder
+    .map((rendition, i) => (hasAudio ? `v:${i},a:${i},name:${rendition.name}` : `v:${i},name:${rendition.name}`))
+    .join(" ");
+
+  args.push(
+    "-preset", "veryfast",
+    "-profile:v", "main",
+    "-pix_fmt", "yuv420p",
+    "-ac", "2",
+    // Keyframes on segment boundaries so players can switch renditions cleanly
+    "-force_key_frames", `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+    "-f", "hls",
+    "-hls_time", String(SEGMENT_SECONDS),
+    "-hls_playlist_type", "vod",
+    "-hls_segment_filename", path.join(outDir, "%v", "segment_%03d.ts"),
+    "-master_pl_name", "master.m3u8",
+    "-var_stream_map", streamMap,
+    path.join(outDir, "%v", "index.m3u8"),
+  );
+  return args;
+}
+
+async function extractPoster(inputPath: string, outputPath: string, duration: number): Promise<void> {
+  // A frame a little way in, past any fade from black
+  const at = Math.min(5, duration / 10);
+  await execFileAsync(
+    FFMPEG_PATH,
+    ["-y", "-v", "error", "-ss", at.toFixed(2), "-i", inputPath, "-frames:v", "1", "-vf", `scale='min(${POSTER_WIDTH},iw)':-2`, "-q:v", "3", outputPath],
+    { timeout: 60_000 },
+  );
+}
+
+async function listFiles(dir: string, relative = ""): Promise<string[]> {
+  const found: string[] = [];
+  for (const entry of await fs.promises.readdir(path.join(dir, relative), { withFileTypes: true })) {
+    const entryPath = path.posix.join(relative, entry.name);
+    if (entry.isDirectory()) {
+      found.push(...(await listFiles(dir, entryPath)));
+    } else {
+      found.push(entryPath);
+    }
+  }
+  return found;
+}
+
+async function putOutput(outDir: string, prefix: string): Promise<void> {
+  for (const relative of await listFiles(outDir)) {
+    const fullPath = path.join(outDir, relative);
+    const { size } = await fs.promises.stat(fullPath);
+    await fileStorage.put(`${prefix}/${relative}`, fs.createReadStream(fullPath), {
+      contentType: CONTENT_TYPES[path.extname(relative)],
+      size,
+    });
+  }
+}
+
+async function removeRenditions(hlsKey: string | null, posterKey: string | null): Promise<void> {
+  if (hlsKey) await fileStorage.deletePrefix(hlsKey).catch(() => {});
+  if (posterKey) await fileStorage.delete(posterKey).catch(() => {});
+}
+
+async function transcodeFile(fileId: string): Promise<void> {
+  const file = await storage.getFile(fileId);
+  if (!file || file.scanStatus !== "clean") return;
+
+  // Renditions of earlier content are replaced, then removed
+  const stale = { hlsKey: file.hlsKey, posterKey: file.posterKey };
+
+  if (file.type !== "video" || !file.storageKey) {
+    // A new version that is not a video leaves nothing to stream
+    if (stale.hlsKey || stale.posterKey) {
+      await storage.updateFileTranscode(file.id, { transcodeStatus: null, hlsKey: null, posterKey: null });
+      await removeRenditions(stale.hlsKey, stale.posterKey);
+    }
+    return;
+  }
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "transcode-"));
+  const prefix = `hls/${file.id}/${randomUUID()}`;
+  try {
+    const inputPath = path.join(workDir, "source");
+    const outDir = path.join(workDir, "out");
+    await pipeline(await fileStorage.get(file.storageKey), fs.createWriteStream(inputPath));
+
+    const source = await probe(inputPath);
+    const ladder = renditionsFor(source);
+    for (const rendition of ladder) {
+      await fs.promises.mkdir(path.join(outDir, rendition.name), { recursive: true });
+    }
+    await execFileAsync(FFMPEG_PATH, hlsArgs(inputPath, outDir, ladder, source.hasAudio), {
+      timeout: TRANSCODE_TIMEOUT_MS,
+    });
+    await extractPoster(inputPath, path.join(outDir, "poster.jpg"), source.duration);
+
+    await putOutput(outDir, prefix);
+    const updated = await storage.updateFileTranscode(file.id, {
+      transcodeStatus: "ready",
+      hlsKey: prefix,
+      posterKey: `${prefix}/poster.jpg`,
+    });
+    if (!updated) {
+      await fileStorage.deletePrefix(prefix);
+      return;
+    }
+  } catch (error) {
+    console.error(`Error transcoding file ${file.id}:`, error);
+    await fileStorage.deletePrefix(prefix).catch(() => {});
+    await storage.updateFileTranscode(file.id, {
+      transcodeStatus: "failed",
+      hlsKey: null,
+      posterKey: null,
+    });
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+
+  await removeRenditions(stale.hlsKey, stale.posterKey);
+}
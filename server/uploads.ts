@@ -0,0 +1,247 @@
+import type { RequestHandler } from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { Transform, type Readable } from "stream";
+import { pipeline } from "stream/promises";
+import multer from "multer";
+import { storage } from "./storage";
+import { UserFacingError } from "./errors";
+import { detectFileType } from "./fileStorage";
+import { queueFileScan } from "./scanning";
+import { storeBlob } from "./blobs";
+import { checkStorageQuota } from "./quotas";
+import { canManageCourseById, canAccessClass, canAccessFolder, type SessionUser } from "./permissions";
+import { insertFileSchema, type File, type UploadSession } from "@shared/schema";
+
+export const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_BYTES || String(100 * 1024 * 1024), 10);
+export const MAX_RESUMABLE_UPLOAD_BYTES = parseInt(
+  process.env.MAX_RESUMABLE_UPLOAD_BYTES || String(10 * 1024 * 1024 * 1024),
+  10,
+);
+export const MAX_CHUNK_BYTES = parseInt(process.env.MAX_CHUNK_BYTES || String(64 * 1024 * 1024), 10);
+
+const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const STAGING_DIR = process.env.UPLOAD_STAGING_DIR || path.join(os.tmpdir(), "lms-upload-staging");
+
+const upload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+// Wraps multer so size and field errors become 4xx JSON responses
+export const uploadSingleFile: RequestHandler = (req, res, next) => {
+  upload.single("file")(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).json({ message: err.message });
+    }
+    if (err) return next(err);
+    next();
+  });
+};
+
+export const uploadLinkSchema = insertFileSchema.pick({ courseId: true, classId: true, folderId: true });
+
+export type UploadLinks = { courseId?: string | null; classId?: string | null; folderId?: string | null };
+
+// Returns an error message when the user may not attach files to the target
+export async function checkUploadLinks(user: SessionUser, links: UploadLinks): Promise<string | null> {
+  if (links.courseId && !(await canManageCourseById(user, links.courseId, "files:write"))) {
+    return "You can only upload files to your own courses";
+  }
+  if (links.classId) {
+    const classData = await storage.getClass(links.classId);
+    if (!classData || !(await canAccessClass(user, classData))) {
+      return "You can only upload files to your own classes";
+    }
+  }
+  if (links.folderId) {
+    const folder = await storage.getFileFolder(links.folderId);
+    if (!folder || !(await canAccessFolder(user, folder))) {
+      return "You can only upload files to your own folders";
+    }
+    if (folder.courseId !== links.courseId) {
+      return "Files in a folder must be linked to the folder's course";
+    }
+  }
+  return null;
+}
+
+type UploadSource = { path: string; name: string; mimeType: string; size: number };
+
+// Every upload gets its own file row, but identical content is stored once
+export async function storeUploadedFile(
+  source: UploadSource,
+  links: UploadLinks,
+  uploadedBy: string,
+): Promise<File> {
+  await checkStorageQuota(uploadedBy, links.courseId, source.size);
+  const id = randomUUID();
+  const blob = await storeBlob(source.path, source.mimeType);
+
+  const file = await storage.createFile({
+    id,
+    name: source.name,
+    url: `/api/files/${id}/download`,
+    type: detectFileType(source.mimeType, source.name),
+    mimeType: source.mimeType,
+    size: source.size,
+    storageKey: blob.storageKey,
+    contentHash: blob.hash,
+    courseId: links.courseId ?? null,
+    classId: links.classId ?? null,
+    folderId: links.folderId ?? null,
+    uploadedBy,
+  });
+  queueFileScan(file);
+  return file;
+}
+
+// Stores an upload as the next version of an existing file. Each version
+// keeps its content so older versions can still be downloaded or restored.
+export async function storeFileVersion(
+  source: UploadSource,
+  fileId: string,
+  uploadedBy: string,
+): Promise<File> {
+  const existing = await storage.getFile(fileId);
+  await checkStorageQuota(uploadedBy, existing?.courseId, source.size);
+  const blob = await storeBlob(source.path, source.mimeType);
+
+  const file = await storage.addFileVersion(fileId, {
+    name: source.name,
+    type: detectFileType(source.mimeType, source.name),
+    mimeType: source.mimeType,
+    size: source.size,
+    storageKey: blob.storageKey,
+    contentHash: blob.hash,
+    uploadedBy,
+  });
+  queueFileScan(file);
+  return file;
+}
+
+// Resumable uploads
+
+const busyUploads = new Set<string>();
+
+// One request at a time per session; parallel chunks would interleave bytes
+export async function withUploadLock<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+  if (busyUploads.has(sessionId)) {
+    throw new UserFacingError("Another chunk for this upload is in progress", 409);
+  }
+  busyUploads.add(sessionId);
+  try {
+    return await fn();
+  } finally {
+    busyUploads.delete(sessionId);
+  }
+}
+
+function stagingPath(sessionId: string): string {
+  return path.join(STAGING_DIR, sessionId);
+}
+
+export function uploadSessionExpiry(): Date {
+  return new Date(Date.now() + UPLOAD_SESSION_TTL_MS);
+}
+
+export async function createStagingFile(sessionId: string): Promise<void> {
+  await fs.promises.mkdir(STAGING_DIR, { recursive: true });
+  await fs.promises.writeFile(stagingPath(sessionId), "");
+}
+
+async function stagedBytes(sessionId: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(stagingPath(sessionId))).size;
+  } catch {
+    return 0;
+  }
+}
+
+// Fails the stream once more than `maxBytes` have passed through
+function byteLimit(maxBytes: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) {
+        return callback(new UserFacingError("Chunk exceeds the remaining upload size", 413));
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+// Appends a chunk to the staging file and returns the new offset. If the
+// client disconnects mid-chunk, whatever arrived is kept so the next request
+// can continue from there.
+export async function appendChunk(session: UploadSession, body: Readable): Promise<number> {
+  const filePath = stagingPath(session.id);
+
+  // Drop bytes written after the last recorded offset (e.g. a crash between
+  // writing and saving the offset) so the file always matches the session
+  if ((await stagedBytes(session.id)) > session.offset) {
+    await fs.promises.truncate(filePath, session.offset);
+  }
+
+  const remaining = session.size - session.offset;
+  let failure: unknown;
+  try {
+    await pipeline(
+      body,
+      byteLimit(Math.min(remaining, MAX_CHUNK_BYTES)),
+      fs.createWriteStream(filePath, { flags: "a" }),
+    );
+  } catch (error) {
+    failure = error;
+  }
+
+  const offset = await stagedBytes(session.id);
+  await storage.updateUploadSession(session.id, { offset, expiresAt: uploadSessionExpiry() });
+  if (failure) throw failure;
+  return offset;
+}
+
+// Turns a fully received session into a `files` row, or a new version of one
+export async function finalizeUpload(session: UploadSession): Promise<File> {
+  const source = {
+    path: stagingPath(session.id),
+    name: session.name,
+    mimeType: session.mimeType || "application/octet-stream",
+    size: session.size,
+  };
+  const file = session.versionOf
+    ? await storeFileVersion(source, session.versionOf, session.uploadedBy)
+    : await storeUploadedFile(
+        source,
+        { courseId: session.courseId, classId: session.classId, folderId: session.folderId },
+        session.uploadedBy,
+      );
+  await storage.updateUploadSession(session.id, { fileId: file.id });
+  await fs.promises.rm(stagingPath(session.id), { force: true });
+  return file;
+}
+
+export async function discardUploadSession(sessionId: string): Promise<void> {
+  await storage.deleteUploadSession(sessionId);
+  await fs.promises.rm(stagingPath(sessionId), { force: true });
+}
+
+async function cleanupExpiredUploads(): Promise<void> {
+  const expired = await storage.getExpiredUploadSessions(new Date());
+  for (const session of expired) {
+    await discardUploadSession(session.id);
+  }
+}
+
+export function startUploadCleanup(): void {
+  const run = () =>
+    cleanupExpiredUploads().catch((error) => {
+      console.error("Error cleaning up expired uploads:", error);
+    });
+  run();
+  setInterval(run, 60 * 60 * 1000).unref();
+}
@@ -10,7 +10,11 @@ import {
   integer,
   boolean,
   decimal,
+  bigint,
   pgEnum,
+  uniqueIndex,
+  unique,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -33,6 +37,7 @@ export const roleEnum = pgEnum("role", ["super_admin", "teacher", "sales", "supp
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: varchar("email").unique(),
+  passwordHash: varchar("password_hash"),
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
@@ -41,6 +46,10 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A course moves draft -> in_review -> published -> archived through the
+// publishing endpoints only
+export const courseStatuses = ["draft", "in_review", "published", "archived"] as const;
+
 // Courses table
 export const courses = pgTable("courses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -52,7 +61,7 @@ export const courses = pgTable("courses", {
   discount: integer("discount").default(0),
   duration: integer("duration"), // in weeks
   tags: text("tags").array(),
-  status: varchar("status").default("draft"), // draft, published, archived
+  status: varchar("status").default("draft"), // draft, in_review, published, archived
   enrolledCount: integer("enrolled_count").default(0),
   totalSales: decimal("total_sales", { precision: 12, scale: 2 }).default("0"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -131,19 +140,339 @@ export const campaigns = pgTable("campaigns", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Folders for organizing a course's files. Deleting a folder removes its
+// subfolders; the routes delete the files inside first.
+export const fileFolders = pgTable("file_folders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  courseId: varchar("course_id").references(() => courses.id).notNull(),
+  parentId: varchar("parent_id").references((): AnyPgColumn => fileFolders.id, { onDelete: "cascade" }),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Uploaded content, stored once per SHA-256 hash and shared by every file
+// version with the same bytes. `refCount` is the number of versions using it;
+// unused blobs are removed by a periodic sweep.
+export const blobs = pgTable("blobs", {
+  hash: varchar("hash").primaryKey(), // hex SHA-256 of the content
+  storageKey: varchar("storage_key").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  refCount: integer("ref_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Files table
 export const files = pgTable("files", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
   url: varchar("url").notNull(),
-  type: varchar("type"), // pdf, doc, ppt, video
-  size: integer("size"), // in bytes
+  type: varchar("type"), // pdf, doc, ppt, video, image, archive, other
+  mimeType: varchar("mime_type"),
+  storageKey: varchar("storage_key"), // key in the configured storage driver
+  contentHash: varchar("content_hash").references(() => blobs.hash), // null for content stored before deduplication
+  size: bigint("size", { mode: "number" }), // in bytes
   courseId: varchar("course_id").references(() => courses.id),
   classId: varchar("class_id").references(() => classes.id),
+  folderId: varchar("folder_id").references(() => fileFolders.id, { onDelete: "set null" }),
   uploadedBy: varchar("uploaded_by").references(() => users.id),
+  currentVersion: integer("current_version").default(1),
+  previewStatus: varchar("preview_status").default("pending"), // pending, ready, failed, unsupported
+  thumbnailKey: varchar("thumbnail_key"), // small image for file cards
+  previewKey: varchar("preview_key"), // larger image of an image or a PDF's first page
+  transcodeStatus: varchar("transcode_status"), // videos only: pending, ready, failed
+  hlsKey: varchar("hls_key"), // storage prefix holding the HLS playlists and segments
+  posterKey: varchar("poster_key"), // frame shown before a video starts
+  // Mirrors the current version's scan; downloads wait for "clean"
+  scanStatus: varchar("scan_status").default("pending"), // pending, clean, infected, failed
+  scanSignature: varchar("scan_signature"), // what the scanner found in an infected file
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Every upload of a file. The `files` row always mirrors its current version,
+// so anything referencing the file id gets the latest content.
+export const fileVersions = pgTable(
+  "file_versions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    fileId: varchar("file_id").references(() => files.id, { onDelete: "cascade" }).notNull(),
+    version: integer("version").notNull(),
+    name: varchar("name").notNull(),
+    type: varchar("type"),
+    mimeType: varchar("mime_type"),
+    storageKey: varchar("storage_key"),
+    contentHash: varchar("content_hash").references(() => blobs.hash),
+    size: bigint("size", { mode: "number" }),
+    uploadedBy: varchar("uploaded_by").references(() => users.id),
+    restoredFrom: integer("restored_from"), // set when created by a rollback
+    scanStatus: varchar("scan_status").default("pending"), // pending, clean, infected, failed
+    scanSignature: varchar("scan_signature"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_file_versions_file_version").on(table.fileId, table.version)],
+);
+
+// In-progress resumable uploads. Chunks are appended to a staging file until
+// `offset` reaches `size`, then the file is moved to storage and a `files` row
+// is created.
+export const uploadSessions = pgTable("upload_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  mimeType: varchar("mime_type"),
+  size: bigint("size", { mode: "number" }).notNull(),
+  offset: bigint("offset", { mode: "number" }).notNull().default(0),
+  courseId: varchar("course_id").references(() => courses.id),
+  classId: varchar("class_id").references(() => classes.id),
+  folderId: varchar("folder_id").references(() => fileFolders.id, { onDelete: "set null" }),
+  uploadedBy: varchar("uploaded_by").references(() => users.id).notNull(),
+  fileId: varchar("file_id").references(() => files.id, { onDelete: "set null" }),
+  versionOf: varchar("version_of").references(() => files.id, { onDelete: "cascade" }), // upload is a new version of this file
+  expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Storage limits. A teacher's own quota overrides the one for their role, and
+// courses are limited separately. Without a row there is no limit.
+export const storageQuotas = pgTable(
+  "storage_quotas",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    scope: varchar("scope").notNull(), // role, teacher, course
+    targetId: varchar("target_id").notNull(), // role name, user id or course id
+    limitBytes: bigint("limit_bytes", { mode: "number" }).notNull(),
+    updatedBy: varchar("updated_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_storage_quotas_scope_target").on(table.scope, table.targetId)],
+);
+
+export const releaseRules = ["date", "enrollment", "completion"] as const;
+
+// When a section or lesson unlocks for a student: on `releaseAt`, `releaseDays`
+// after they enrolled, or once they complete the lesson or section named by
+// `releaseAfterLessonId` / `releaseAfterSectionId`. Without a rule it is
+// available straight away. A lesson also waits for its section.
+function releaseColumns() {
+  return {
+    releaseRule: varchar("release_rule"), // date, enrollment, completion
+    releaseAt: timestamp("release_at"),
+    releaseDays: integer("release_days"),
+    releaseAfterLessonId: varchar("release_after_lesson_id").references((): AnyPgColumn => lessons.id, {
+      onDelete: "set null",
+    }),
+    releaseAfterSectionId: varchar("release_after_section_id").references((): AnyPgColumn => courseSections.id, {
+      onDelete: "set null",
+    }),
+  };
+}
+
+// Course curriculum: ordered sections, each holding ordered lessons
+export const courseSections = pgTable(
+  "course_sections",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    title: varchar("title").notNull(),
+    position: integer("position").notNull().default(0),
+    ...releaseColumns(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_course_sections_course").on(table.courseId, table.position)],
+);
+
+export const lessonKinds = ["video", "pdf", "class", "test"] as const;
+
+// A lesson links to one piece of course content, chosen by `kind`: a video or
+// PDF file, a class or a test. The link is cleared if the content is deleted.
+export const lessons = pgTable(
+  "lessons",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    sectionId: varchar("section_id").references(() => courseSections.id, { onDelete: "cascade" }).notNull(),
+    title: varchar("title").notNull(),
+    kind: varchar("kind").notNull(), // video, pdf, class, test
+    fileId: varchar("file_id").references(() => files.id, { onDelete: "set null" }),
+    classId: varchar("class_id").references(() => classes.id, { onDelete: "set null" }),
+    testId: varchar("test_id").references(() => tests.id, { onDelete: "set null" }),
+    position: integer("position").notNull().default(0),
+    ...releaseColumns(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_lessons_section").on(table.sectionId, table.position),
+    index("IDX_lessons_course").on(table.courseId),
+  ],
+);
+
+// When each student enrolled in each course. Students enrolled before this was
+// recorded count from when they were added.
+export const courseEnrollments = pgTable(
+  "course_enrollments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    enrolledAt: timestamp("enrolled_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_course_enrollments_student_course").on(table.studentId, table.courseId)],
+);
+
+// How far a student has got with a lesson. A lesson is completed when its
+// video has been watched far enough, or when staff mark it complete.
+export const lessonProgress = pgTable(
+  "lesson_progress",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
+    lessonId: varchar("lesson_id").references(() => lessons.id, { onDelete: "cascade" }).notNull(),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    percentWatched: integer("percent_watched").notNull().default(0),
+    startedAt: timestamp("started_at").defaultNow(),
+    completedAt: timestamp("completed_at"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_lesson_progress_student_lesson").on(table.studentId, table.lessonId),
+    index("IDX_lesson_progress_course").on(table.courseId, table.studentId),
+  ],
+);
+
+// Recorded once, when a student first completes every lesson of a course
+export const courseCompletions = pgTable(
+  "course_completions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    completedAt: timestamp("completed_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_course_completions_student_course").on(table.studentId, table.courseId)],
+);
+
+// A student's rating and written review of a course. Reviews are shown and
+// counted in ratings only once support staff approve them, and never by the
+// person who entered them.
+export const studentReviewStatuses = ["pending", "approved", "rejected"] as const;
+
+export const studentReviews = pgTable(
+  "student_reviews",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    rating: integer("rating").notNull(), // 1 to 5
+    body: text("body"),
+    status: varchar("status").notNull().default("pending"), // pending, approved, rejected
+    submittedBy: varchar("submitted_by").references(() => users.id, { onDelete: "set null" }),
+    moderatedBy: varchar("moderated_by").references(() => users.id, { onDelete: "set null" }),
+    moderatedAt: timestamp("moderated_at"),
+    moderationNote: text("moderation_note"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_student_reviews_student_course").on(table.studentId, table.courseId),
+    index("IDX_student_reviews_status").on(table.status, table.createdAt),
+    index("IDX_student_reviews_course").on(table.courseId),
+  ],
+);
+
+// Courses a student has to complete before enrolling in another
+export const coursePrerequisites = pgTable(
+  "course_prerequisites",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    prerequisiteId: varchar("prerequisite_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_course_prerequisites_course_prerequisite").on(table.courseId, table.prerequisiteId),
+    index("IDX_course_prerequisites_prerequisite").on(table.prerequisiteId),
+  ],
+);
+
+// An ordered bundle of courses taken one after another
+export const learningPaths = pgTable("learning_paths", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title").notNull(),
+  description: text("description"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const learningPathCourses = pgTable(
+  "learning_path_courses",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    pathId: varchar("path_id").references(() => learningPaths.id, { onDelete: "cascade" }).notNull(),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    position: integer("position").notNull().default(0),
+  },
+  (table) => [
+    uniqueIndex("UQ_learning_path_courses_path_course").on(table.pathId, table.courseId),
+    index("IDX_learning_path_courses_course").on(table.courseId),
+  ],
+);
+
+// Roles on a course's staff. The lead is the course's teacher
+// (`courses.teacherId`); co-teachers and TAs are listed in course_staff.
+export const courseStaffRoles = ["lead", "co_teacher", "ta"] as const;
+
+export const courseStaff = pgTable(
+  "course_staff",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+    role: varchar("role").notNull(), // co_teacher, ta
+    addedBy: varchar("added_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_course_staff_course_user").on(table.courseId, table.userId),
+    index("IDX_course_staff_user").on(table.userId),
+  ],
+);
+
+// Comments left on a course while it is reviewed for publishing
+export const courseReviewComments = pgTable(
+  "course_review_comments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+    body: text("body").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_course_review_comments_course").on(table.courseId, table.createdAt)],
+);
+
+// Every change of a course's publishing status, with who made it and why
+export const courseStatusChanges = pgTable(
+  "course_status_changes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    // Null for the entry recording the course's creation
+    fromStatus: varchar("from_status"),
+    toStatus: varchar("to_status").notNull(),
+    changedBy: varchar("changed_by").references(() => users.id, { onDelete: "set null" }),
+    comment: text("comment"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_course_status_changes_course").on(table.courseId, table.createdAt)],
+);
+
 // Chat messages table
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -155,6 +484,57 @@ export const chatMessages = pgTable("chat_messages", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Group chat channels, one per course and optionally one per class. A null
+// class counts as a value, so each course has a single course-wide channel.
+export const chatChannels = pgTable(
+  "chat_channels",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    name: varchar("name").notNull(),
+    courseId: varchar("course_id").references(() => courses.id, { onDelete: "cascade" }).notNull(),
+    classId: varchar("class_id").references(() => classes.id, { onDelete: "cascade" }),
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    unique("UQ_chat_channels_course_class").on(table.courseId, table.classId).nullsNotDistinct(),
+    index("IDX_chat_channels_course").on(table.courseId),
+  ],
+);
+
+// Channel members, derived from the course teacher and student enrollments.
+// Exactly one of userId / studentId is set. Students have no login, so they
+// are listed as the channel's audience and only signed-in staff post.
+export const chatChannelMembers = pgTable(
+  "chat_channel_members",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    channelId: varchar("channel_id").references(() => chatChannels.id, { onDelete: "cascade" }).notNull(),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+    studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }),
+    memberRole: varchar("member_role").notNull(), // teacher, student
+    joinedAt: timestamp("joined_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_chat_channel_members_user").on(table.channelId, table.userId),
+    uniqueIndex("UQ_chat_channel_members_student").on(table.channelId, table.studentId),
+  ],
+);
+
+// Channel messages
+export const chatChannelMessages = pgTable(
+  "chat_channel_messages",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    channelId: varchar("channel_id").references(() => chatChannels.id, { onDelete: "cascade" }).notNull(),
+    senderId: varchar("sender_id").references(() => users.id),
+    message: text("message").notNull(),
+    attachmentUrl: varchar("attachment_url"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_chat_channel_messages_channel").on(table.channelId, table.createdAt)],
+);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -162,8 +542,21 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const registerUserSchema = insertUserSchema
+  .omit({ passwordHash: true })
+  .extend({
+    email: z.string().email(),
+    password: z.string().min(8),
+  });
+
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
 export const insertCourseSchema = createInsertSchema(courses).omit({
   id: true,
+  status: true,
   enrolledCount: true,
   totalSales: true,
   createdAt: true,
@@ -209,7 +602,162 @@ export const insertCampaignSchema = createInsertSchema(campaigns).omit({
 
 export const insertFileSchema = createInsertSchema(files).omit({
   id: true,
+  currentVersion: true,
+  previewStatus: true,
+  thumbnailKey: true,
+  previewKey: true,
+  transcodeStatus: true,
+  hlsKey: true,
+  posterKey: true,
+  scanStatus: true,
+  scanSignature: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+export const insertFileFolderSchema = createInsertSchema(fileFolders).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Files and folders picked for a bulk action on the Files page
+export const fileSelectionSchema = z.object({
+  fileIds: z.array(z.string()).default([]),
+  folderIds: z.array(z.string()).default([]),
+});
+
+// Where bulk move/copy puts the selection: a folder, or the top level of a course
+export const fileMoveSchema = fileSelectionSchema.extend({
+  targetFolderId: z.string().nullable().default(null),
+  targetCourseId: z.string().optional(),
+});
+
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions)
+  .pick({ name: true, mimeType: true, size: true, courseId: true, classId: true, folderId: true, versionOf: true })
+  .extend({ size: z.number().int().positive() });
+
+export const insertStorageQuotaSchema = createInsertSchema(storageQuotas)
+  .pick({ scope: true, targetId: true, limitBytes: true })
+  .extend({
+    scope: z.enum(["role", "teacher", "course"]),
+    targetId: z.string().min(1),
+    limitBytes: z.number().int().nonnegative(),
+  });
+
+export const insertCourseSectionSchema = createInsertSchema(courseSections)
+  .pick({ title: true })
+  .extend({ title: z.string().trim().min(1) });
+
+export const insertLessonSchema = createInsertSchema(lessons)
+  .pick({ title: true, kind: true, fileId: true, classId: true, testId: true })
+  .extend({
+    title: z.string().trim().min(1),
+    kind: z.enum(lessonKinds),
+    fileId: z.string().nullish(),
+    classId: z.string().nullish(),
+    testId: z.string().nullish(),
+  });
+
+// The full order of a course's curriculum: every section, each with every
+// lesson it should hold. Lessons may move between sections.
+export const courseOutlineOrderSchema = z.object({
+  sections: z.array(
+    z.object({
+      id: z.string(),
+      lessonIds: z.array(z.string()),
+    }),
+  ),
+});
+
+// The release rule of a section or lesson; `releaseRule: null` releases it
+// straight away
+export const releaseRuleSchema = z
+  .object({
+    releaseRule: z.enum(releaseRules).nullable(),
+    releaseAt: z.coerce.date().nullish(),
+    releaseDays: z.number().int().min(0).nullish(),
+    releaseAfterLessonId: z.string().nullish(),
+    releaseAfterSectionId: z.string().nullish(),
+  })
+  .superRefine((rule, ctx) => {
+    if (rule.releaseRule === "date" && !rule.releaseAt) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["releaseAt"], message: "Release date is required" });
+    }
+    if (rule.releaseRule === "enrollment" && rule.releaseDays == null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["releaseDays"], message: "Days after enrollment are required" });
+    }
+    if (rule.releaseRule === "completion" && !rule.releaseAfterLessonId === !rule.releaseAfterSectionId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["releaseAfterLessonId"],
+        message: "Choose one lesson or section to complete first",
+      });
+    }
+  });
+
+// A progress report for one lesson. `percentWatched` never goes down;
+// `completed: false` reopens a completed lesson.
+export const lessonProgressUpdateSchema = z.object({
+  percentWatched: z.number().int().min(0).max(100).optional(),
+  completed: z.boolean().optional(),
+});
+
+export const insertCourseReviewCommentSchema = createInsertSchema(courseReviewComments)
+  .pick({ body: true })
+  .extend({ body: z.string().trim().min(1).max(5000) });
+
+// An optional note explaining a publishing status change
+export const courseTransitionSchema = z.object({
+  comment: z.string().trim().max(5000).optional(),
+});
+
+export const insertStudentReviewSchema = createInsertSchema(studentReviews)
+  .pick({ rating: true, body: true })
+  .extend({
+    rating: z.number().int().min(1).max(5),
+    body: z.string().trim().max(5000).nullish(),
+  });
+
+// Approves a review or rejects it with an optional note for the record
+export const reviewModerationSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  note: z.string().trim().max(5000).optional(),
+});
+
+// Adds a teacher to a course's staff or changes their role. There is one
+// lead, changed through the course's teacher.
+export const courseStaffMemberSchema = z.object({
+  userId: z.string(),
+  role: z.enum(["co_teacher", "ta"]),
+});
+
+export const coursePrerequisitesSchema = z.object({
+  prerequisiteIds: z.array(z.string()).refine((ids) => new Set(ids).size === ids.length, "Duplicate course"),
+});
+
+// A learning path lists its courses in the order they are taken
+export const insertLearningPathSchema = createInsertSchema(learningPaths)
+  .pick({ title: true, description: true })
+  .extend({
+    title: z.string().trim().min(1),
+    courseIds: z
+      .array(z.string())
+      .min(1)
+      .refine((ids) => new Set(ids).size === ids.length, "Duplicate course"),
+  });
+
+export const enrollmentSchema = z.object({
+  courseId: z.string(),
+});
+
+// Options for copying a course for a new batch. `startDate` is when the
+// copy's first class should take place.
+export const courseCloneSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  teacherId: z.string().optional(),
+  startDate: z.coerce.date().optional(),
 });
 
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
@@ -218,9 +766,25 @@ export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
   createdAt: true,
 });
 
+export const insertChatChannelSchema = createInsertSchema(chatChannels).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  name: z.string().min(1).optional(),
+});
+
+export const insertChatChannelMessageSchema = createInsertSchema(chatChannelMessages).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
+export type Role = (typeof roleEnum.enumValues)[number];
 export type UpsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type SafeUser = Omit<User, "passwordHash">;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type InsertCourse = z.infer<typeof insertCourseSchema>;
 export type Course = typeof courses.$inferSelect;
 export type InsertClass = z.infer<typeof insertClassSchema>;
@@ -235,5 +799,48 @@ export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 export type Campaign = typeof campaigns.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
+export type InsertFileFolder = z.infer<typeof insertFileFolderSchema>;
+export type FileFolder = typeof fileFolders.$inferSelect;
+export type FileSelection = z.infer<typeof fileSelectionSchema>;
+export type FileMove = z.infer<typeof fileMoveSchema>;
+export type StoredBlob = typeof blobs.$inferSelect;
+export type InsertFileVersion = typeof fileVersions.$inferInsert;
+export type FileVersion = typeof fileVersions.$inferSelect;
+export type InsertUploadSession = typeof uploadSessions.$inferInsert;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertStorageQuota = z.infer<typeof insertStorageQuotaSchema>;
+export type StorageQuota = typeof storageQuotas.$inferSelect;
+export type LessonKind = (typeof lessonKinds)[number];
+export type InsertCourseSection = z.infer<typeof insertCourseSectionSchema>;
+export type CourseSection = typeof courseSections.$inferSelect;
+export type InsertLesson = z.infer<typeof insertLessonSchema>;
+export type Lesson = typeof lessons.$inferSelect;
+export type CourseOutlineOrder = z.infer<typeof courseOutlineOrderSchema>;
+export type ReleaseRule = z.infer<typeof releaseRuleSchema>;
+export type CourseEnrollment = typeof courseEnrollments.$inferSelect;
+export type LessonProgress = typeof lessonProgress.$inferSelect;
+export type LessonProgressUpdate = z.infer<typeof lessonProgressUpdateSchema>;
+export type CourseCompletion = typeof courseCompletions.$inferSelect;
+export type StudentReviewStatus = (typeof studentReviewStatuses)[number];
+export type StudentReview = typeof studentReviews.$inferSelect;
+export type InsertStudentReview = z.infer<typeof insertStudentReviewSchema>;
+export type ReviewModeration = z.infer<typeof reviewModerationSchema>;
+export type CourseStatus = (typeof courseStatuses)[number];
+export type CourseReviewComment = typeof courseReviewComments.$inferSelect;
+export type CourseStatusChange = typeof courseStatusChanges.$inferSelect;
+export type CourseTransition = z.infer<typeof courseTransitionSchema>;
+export type CourseCloneOptions = z.infer<typeof courseCloneSchema>;
+export type CourseStaffRole = (typeof courseStaffRoles)[number];
+export type CourseStaff = typeof courseStaff.$inferSelect;
+export type CourseStaffMember = z.infer<typeof courseStaffMemberSchema>;
+export type CoursePrerequisite = typeof coursePrerequisites.$inferSelect;
+export type InsertLearningPath = z.infer<typeof insertLearningPathSchema>;
+export type LearningPath = typeof learningPaths.$inferSelect;
+export type LearningPathCourse = typeof learningPathCourses.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertChatChannel = typeof chatChannels.$inferInsert;
+export type ChatChannel = typeof chatChannels.$inferSelect;
+export type ChatChannelMember = typeof chatChannelMembers.$inferSelect;
+export type InsertChatChannelMessage = z.infer<typeof insertChatChannelMessageSchema>;
+export type ChatChannelMessage = typeof chatChannelMessages.$inferSelect;